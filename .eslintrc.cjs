@@ -10,4 +10,10 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Tests run on Vitest, whose API the jest rules understand but can't detect a version for
+    jest: {
+      version: 29,
+    },
+  },
 };
@@ -0,0 +1,83 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { prisma } from "../utils/database";
+import { verifyOAuthState } from "../utils/oauth-state";
+import {
+  AMAZON_ADS_REDIRECT_URI,
+  exchangeAmazonCode,
+  getAmazonProfiles,
+  syncAmazonHistoricalData,
+} from "../utils/amazon-ads";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  // Signed by the Settings action that started the flow, see createOAuthState
+  const state = url.searchParams.get("state");
+  const error = url.searchParams.get("error");
+
+  console.log("[Amazon OAuth] Request received");
+  console.log("[Amazon OAuth] Has code:", !!code);
+  console.log("[Amazon OAuth] Error:", error);
+
+  // This is the callback from Amazon
+  if (error) {
+    console.error("[Amazon OAuth] OAuth error:", error);
+    return redirect(`/app/settings?error=${encodeURIComponent("Amazon OAuth failed: " + error)}`);
+  }
+
+  const shop = verifyOAuthState(state);
+  if (!code || !shop) {
+    console.error("[Amazon OAuth] Missing code or invalid state in callback");
+    return redirect("/app/settings?error=" + encodeURIComponent("Invalid OAuth callback"));
+  }
+
+  try {
+    const tokens = await exchangeAmazonCode(code, AMAZON_ADS_REDIRECT_URI);
+
+    if (!tokens) {
+      return redirect("/app/settings?error=" + encodeURIComponent("Failed to get access token"));
+    }
+
+    // Each advertising profile is one marketplace of a seller or vendor account
+    const adAccounts = await getAmazonProfiles(tokens.accessToken);
+    console.log(`[Amazon OAuth] Found ${adAccounts.length} profiles`);
+
+    const credentials = JSON.stringify({
+      ...tokens,
+      adAccounts,
+      selectedAdAccountIds: adAccounts[0] ? [adAccounts[0].id] : [],
+    });
+
+    await prisma.integration.upsert({
+      where: {
+        shop_platform: {
+          shop,
+          platform: "amazon_ads",
+        },
+      },
+      update: {
+        credentials: credentials,
+        isActive: true,
+        lastSync: null, // Reset last sync when reconnecting
+      },
+      create: {
+        shop,
+        platform: "amazon_ads",
+        credentials: credentials,
+        isActive: true,
+      },
+    });
+
+    console.log("[Amazon OAuth] Successfully stored Amazon Ads credentials for shop:", shop);
+
+    // Trigger initial sync in the background
+    syncAmazonHistoricalData(shop, 365).catch(error => {
+      console.error("[Amazon OAuth] Background sync failed:", error);
+    });
+
+    return redirect("/app/settings?success=amazon");
+  } catch (error) {
+    console.error("[Amazon OAuth] Unexpected error:", error);
+    return redirect("/app/settings?error=" + encodeURIComponent("Failed to connect Amazon Ads"));
+  }
+};
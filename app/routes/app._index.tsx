@@ -20,11 +20,28 @@ import {
 } from "@shopify/polaris";
 import { CalendarIcon } from "@shopify/polaris-icons";
 import { authenticate } from "../shopify.server";
-import { fetchOrdersData, fetchProductCosts, getDateRangeForPeriod, getShopTimezone } from "../utils/shopify-data";
-import { getMarketingCosts, getFixedCosts, getManualCosts, getSettings, prisma } from "../utils/database";
+import { getDateRangeForPeriod, getShopTimezone } from "../utils/shopify-data";
+import { getMarketingCosts, getMarketingCostsByAccount, getFixedCosts, getManualCosts, getCategoryCosts, getSettings, prisma } from "../utils/database";
 import { calculateProfits, calculateTrend } from "../utils/profit-calculator";
+import type { CategoryCost, CostGroup } from "../utils/profit-calculator";
 import { syncFacebookHistoricalData } from "../utils/facebook-ads";
 import { syncGoogleHistoricalData } from "../utils/google-ads";
+import { syncAdPlatform } from "../utils/ad-connector";
+import { AD_PLATFORM_CONNECTORS } from "../utils/ad-platform-sync";
+import {
+  AD_ACCOUNT_PLATFORMS,
+  AD_PLATFORM_CONNECTIONS,
+  SUBSCRIPTION_ACCOUNT_ID,
+  SUBSCRIPTION_TOOLS,
+  getAdAccountOptions,
+  parseAdAccountOption,
+} from "../utils/ad-platforms";
+import type { AdAccountOption } from "../utils/ad-platforms";
+import { syncSubscriptionCosts } from "../utils/subscription-costs";
+import { isLedgerCovering, isLedgerReconcileDue, reconcileOrderLedger } from "../utils/order-ledger";
+import { pollOrdersBulkSync, startOrdersBulkSync } from "../utils/bulk-operations";
+import { backfillVariantCostHistory, hasVariantCostHistory } from "../utils/cost-history";
+import { loadMetricsContext, loadPeriodMetrics } from "../utils/period-metrics";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
@@ -43,6 +60,21 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   previousStartDate.setDate(previousStartDate.getDate() - periodDays);
   const previousEndDate = new Date(startDate);
 
+  // Marketing costs can be narrowed to one synced ad account
+  const adAccountOptions = getAdAccountOptions(
+    await prisma.integration.findMany({
+      where: {
+        shop: session.shop,
+        platform: { in: AD_ACCOUNT_PLATFORMS.map((platform) => platform.integrationPlatform) },
+        isActive: true,
+      },
+    })
+  );
+  const adAccountParam = url.searchParams.get("adAccount") || "";
+  const adAccount = adAccountOptions.some((option) => option.value === adAccountParam)
+    ? parseAdAccountOption(adAccountParam)
+    : null;
+
   try {
     // Check if Facebook is connected and sync if needed
     const facebookIntegration = await prisma.integration.findFirst({
@@ -90,49 +122,96 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       }
     }
 
-    // Fetch current period data
-    const salesData = await fetchOrdersData(admin, startDate, endDate);
-    const { totalCogs, totalShipping } = await fetchProductCosts(admin, startDate, endDate);
-    const marketingCosts = await getMarketingCosts(session.shop, startDate, endDate);
-    const fixedCosts = await getFixedCosts(session.shop, startDate, endDate);
-    const manualCosts = await getManualCosts(session.shop, startDate, endDate);
-    const settings = await getSettings(session.shop);
+    // Same for the other connected ad platforms
+    const adPlatformIntegrations = await prisma.integration.findMany({
+      where: {
+        shop: session.shop,
+        platform: { in: AD_PLATFORM_CONNECTIONS.map((connection) => connection.integrationPlatform) },
+        isActive: true,
+      },
+    });
 
-    // Combine costs
-    const costsData = {
-      shippingCosts: totalShipping + manualCosts.shipping,
-      cogs: totalCogs + manualCosts.cogs,
-      transactionFees: 0, // Will be calculated in calculateProfits
-      marketingCosts: marketingCosts,
-      fixedCosts: fixedCosts,
-    };
+    for (const integration of adPlatformIntegrations) {
+      const connection = AD_PLATFORM_CONNECTIONS.find(
+        (candidate) => candidate.integrationPlatform === integration.platform
+      );
+      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
 
-    // Calculate current period profits
-    const currentMetrics = calculateProfits(
-      salesData,
-      costsData,
-      settings.transactionFeePercent
-    );
+      if (connection && (!integration.lastSync || integration.lastSync < oneHourAgo)) {
+        console.log(`Auto-syncing recent ${connection.label} spend (last 3 days)...`);
+        syncAdPlatform(AD_PLATFORM_CONNECTORS[connection.key], session.shop, 3).catch(error => {
+          console.error(`${connection.label} background sync failed:`, error);
+        });
+      }
+    }
 
-    // Fetch previous period data for trends
-    const previousSalesData = await fetchOrdersData(admin, previousStartDate, previousEndDate);
-    const previousProductCosts = await fetchProductCosts(admin, previousStartDate, previousEndDate);
-    const previousMarketingCosts = await getMarketingCosts(session.shop, previousStartDate, previousEndDate);
-    const previousFixedCosts = await getFixedCosts(session.shop, previousStartDate, previousEndDate);
-    const previousManualCosts = await getManualCosts(session.shop, previousStartDate, previousEndDate);
+    // Subscription tools recorded as marketing spend add an invoice each billing day
+    const staleSubscription = await prisma.integration.findFirst({
+      where: {
+        shop: session.shop,
+        platform: { in: SUBSCRIPTION_TOOLS.map((tool) => tool.key) },
+        isActive: true,
+        OR: [{ lastSync: null }, { lastSync: { lt: new Date(Date.now() - 60 * 60 * 1000) } }],
+      },
+    });
 
-    const previousCostsData = {
-      shippingCosts: previousProductCosts.totalShipping + previousManualCosts.shipping,
-      cogs: previousProductCosts.totalCogs + previousManualCosts.cogs,
-      transactionFees: 0,
-      marketingCosts: previousMarketingCosts,
-      fixedCosts: previousFixedCosts,
-    };
+    if (staleSubscription) {
+      syncSubscriptionCosts(session.shop).catch(error => {
+        console.error("Subscription cost sync failed:", error);
+      });
+    }
+
+    // Orders come from the local ledger (kept current by orders webhooks) once a
+    // backfill covers the period. Until then, fall back to live Admin API queries
+    // and start a bulk backfill in the background.
+    const useLedger = await isLedgerCovering(session.shop, previousStartDate);
+
+    if (!useLedger) {
+      console.log("Order ledger doesn't cover this period, starting orders bulk sync...");
+      pollOrdersBulkSync(admin, session.shop)
+        // The poll may have just finished the import that covers the period
+        .then(async () => {
+          if (!(await isLedgerCovering(session.shop, previousStartDate))) {
+            await startOrdersBulkSync(admin, session.shop, previousStartDate);
+          }
+        })
+        .catch(error => {
+          console.error("Orders bulk sync failed:", error);
+        });
+    } else if (await isLedgerReconcileDue(session.shop, 60 * 60 * 1000)) {
+      // Reconcile hourly to fill gaps from missed webhooks
+      console.log("Reconciling order ledger...");
+      reconcileOrderLedger(admin, session.shop).catch(error => {
+        console.error("Order ledger reconciliation failed:", error);
+      });
+    }
+
+    // Seed unit cost history with current costs the first time; webhooks record changes after that
+    if (!(await hasVariantCostHistory(session.shop))) {
+      console.log("No variant cost history yet, backfilling current unit costs...");
+      backfillVariantCostHistory(admin, session.shop).catch(error => {
+        console.error("Variant cost history backfill failed:", error);
+      });
+    }
+
+    const context = await loadMetricsContext(admin, session.shop, useLedger);
+    const {
+      metrics: currentMetrics,
+      totalCogs,
+      landedCosts,
+      manualCosts,
+      restockedCogs,
+      fixedCosts,
+      categoryCosts,
+    } = await loadPeriodMetrics(admin, session.shop, { startDate, endDate }, context, adAccount);
 
-    const previousMetrics = calculateProfits(
-      previousSalesData,
-      previousCostsData,
-      settings.transactionFeePercent
+    // Previous period, for trends
+    const { metrics: previousMetrics } = await loadPeriodMetrics(
+      admin,
+      session.shop,
+      { startDate: previousStartDate, endDate: previousEndDate },
+      context,
+      adAccount
     );
 
     // Calculate trends
@@ -141,6 +220,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       contributionProfit: calculateTrend(currentMetrics.contributionProfit, previousMetrics.contributionProfit),
       netProfit: calculateTrend(currentMetrics.netProfit, previousMetrics.netProfit),
       totalSales: calculateTrend(currentMetrics.totalSales, previousMetrics.totalSales),
+      refundedAmount: calculateTrend(currentMetrics.refundedAmount, previousMetrics.refundedAmount),
+      netRevenue: calculateTrend(currentMetrics.netRevenue, previousMetrics.netRevenue),
+      shippingRevenue: calculateTrend(currentMetrics.shippingRevenue, previousMetrics.shippingRevenue),
+      shippingCosts: calculateTrend(currentMetrics.shippingCosts, previousMetrics.shippingCosts),
       newCustomerRevenue: calculateTrend(currentMetrics.newCustomerRevenue, previousMetrics.newCustomerRevenue),
       returnCustomerRevenue: calculateTrend(currentMetrics.returnCustomerRevenue, previousMetrics.returnCustomerRevenue),
       variableCosts: calculateTrend(currentMetrics.variableCosts, previousMetrics.variableCosts),
@@ -213,17 +296,44 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         contributionProfit: currentMetrics.contributionProfit,
         netProfit: currentMetrics.netProfit,
         totalSales: currentMetrics.totalSales,
+        refundedAmount: currentMetrics.refundedAmount,
+        netRevenue: currentMetrics.netRevenue,
+        shippingRevenue: currentMetrics.shippingRevenue,
+        shippingCosts: currentMetrics.shippingCosts,
         newCustomerRevenue: currentMetrics.newCustomerRevenue,
         returnCustomerRevenue: currentMetrics.returnCustomerRevenue,
         variableCosts: currentMetrics.variableCosts,
         marketingCosts: currentMetrics.marketingCosts,
         fixedCosts: currentMetrics.fixedCosts,
       },
+      variableCostsBreakdown: [
+        { label: "Product COGS", value: totalCogs },
+        { label: "Inbound freight", value: landedCosts.freight },
+        { label: "Import duties", value: landedCosts.duty },
+        { label: "Packaging", value: landedCosts.packaging },
+        { label: "Manual COGS", value: manualCosts.cogs },
+        { label: "Restocked returns", value: -restockedCogs },
+        { label: "Shipping", value: currentMetrics.shippingCosts },
+        { label: "Transaction fees", value: currentMetrics.transactionFees },
+        ...getCategoryBreakdown(categoryCosts, "variable"),
+      ],
+      marketingCostsBreakdown: getMarketingBreakdown(
+        await getMarketingCostsByAccount(session.shop, startDate, endDate, adAccount),
+        adAccountOptions,
+        categoryCosts
+      ),
+      fixedCostsBreakdown: withCategoryBreakdown(
+        { label: "Built-in categories", value: fixedCosts },
+        categoryCosts,
+        "fixed"
+      ),
       margins,
       distributions,
       targets,
       trends,
       period,
+      adAccount: adAccount ? adAccountParam : "",
+      adAccountOptions,
       facebookLastSync: facebookIntegration?.lastSync,
       facebookConnected: !!facebookIntegration,
     });
@@ -233,9 +343,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     
     // Still try to get costs from database even if Shopify API fails
     try {
-      const marketingCosts = await getMarketingCosts(session.shop, startDate, endDate);
+      const marketingCosts = await getMarketingCosts(session.shop, startDate, endDate, adAccount);
       const fixedCosts = await getFixedCosts(session.shop, startDate, endDate);
       const manualCosts = await getManualCosts(session.shop, startDate, endDate);
+      const categoryCosts = await getCategoryCosts(session.shop, startDate, endDate);
       const settings = await getSettings(session.shop);
       
       // ALSO LOAD TARGETS IN ERROR FALLBACK!
@@ -258,22 +369,34 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       // Calculate with no sales but with costs
       const salesData = {
         totalSales: 0,
+        totalCharged: 0,
+        taxes: 0,
+        duties: 0,
+        tips: 0,
+        giftCardSales: 0,
+        discounts: 0,
         newCustomerRevenue: 0,
         returnCustomerRevenue: 0,
         orderCount: 0,
         newCustomerCount: 0,
         returnCustomerCount: 0,
+        refundedAmount: 0,
+        transactionFees: 0,
+        chargesWithoutFees: [],
       };
       
       const costsData = {
+        shippingRevenue: 0,
         shippingCosts: manualCosts.shipping,
         cogs: manualCosts.cogs,
+        restockedCogs: 0,
         transactionFees: 0,
         marketingCosts: marketingCosts,
         fixedCosts: fixedCosts,
+        categoryCosts,
       };
       
-      const metrics = calculateProfits(salesData, costsData, settings.transactionFeePercent);
+      const metrics = calculateProfits(salesData, costsData, settings);
       
       const totalSales = metrics.totalSales || 0.001;
       
@@ -283,6 +406,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           contributionProfit: metrics.contributionProfit,
           netProfit: metrics.netProfit,
           totalSales: metrics.totalSales,
+          refundedAmount: metrics.refundedAmount,
+          netRevenue: metrics.netRevenue,
+          shippingRevenue: metrics.shippingRevenue,
+          shippingCosts: metrics.shippingCosts,
           newCustomerRevenue: metrics.newCustomerRevenue,
           returnCustomerRevenue: metrics.returnCustomerRevenue,
           variableCosts: metrics.variableCosts,
@@ -324,6 +451,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           fixedCosts: 0,
         },
         period,
+        adAccount: adAccount ? adAccountParam : "",
+        adAccountOptions,
         error: error instanceof Error ? error.message : String(error),
       });
     } catch (dbError) {
@@ -334,6 +463,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           contributionProfit: 0,
           netProfit: 0,
           totalSales: 0,
+          refundedAmount: 0,
+          netRevenue: 0,
+          shippingRevenue: 0,
+          shippingCosts: 0,
           newCustomerRevenue: 0,
           returnCustomerRevenue: 0,
           variableCosts: 0,
@@ -385,12 +518,60 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           fixedCosts: 0,
         },
         period,
+        adAccount: adAccount ? adAccountParam : "",
+        adAccountOptions,
         error: "Failed to load data",
       });
     }
   }
 };
 
+// Custom categories in a profit tier, as line items for its card
+function getCategoryBreakdown(categoryCosts: CategoryCost[], group: CostGroup) {
+  return categoryCosts
+    .filter((cost) => cost.group === group)
+    .map((cost) => ({ label: cost.name, value: cost.amount, color: cost.color }));
+}
+
+// Synced spend per ad account, with manual and subscription costs on one line. Skipped
+// when everything falls on a single line, which would just repeat the total.
+function getMarketingBreakdown(
+  accountCosts: Array<{ platform: string; accountId: string; amount: number }>,
+  adAccountOptions: AdAccountOption[],
+  categoryCosts: CategoryCost[]
+) {
+  const isOther = (cost: { accountId: string }) => !cost.accountId || cost.accountId === SUBSCRIPTION_ACCOUNT_ID;
+  const accountLines = accountCosts
+    .filter((cost) => !isOther(cost) && cost.amount !== 0)
+    .map((cost) => {
+      const value = `${cost.platform}:${cost.accountId}`;
+      return {
+        label: adAccountOptions.find((option) => option.value === value)?.label || value,
+        value: cost.amount,
+      };
+    });
+  const otherAmount = accountCosts
+    .filter(isOther)
+    .reduce((sum, cost) => sum + cost.amount, 0);
+
+  const lines = [
+    ...accountLines,
+    ...(otherAmount !== 0 ? [{ label: "Manual entries and subscriptions", value: otherAmount }] : []),
+    ...getCategoryBreakdown(categoryCosts, "marketing"),
+  ];
+  return lines.length > 1 ? lines : undefined;
+}
+
+// Breaks a tier down only when it has custom categories, otherwise the one line would repeat the total
+function withCategoryBreakdown(
+  base: { label: string; value: number },
+  categoryCosts: CategoryCost[],
+  group: CostGroup
+) {
+  const categories = getCategoryBreakdown(categoryCosts, group);
+  return categories.length > 0 ? [base, ...categories] : undefined;
+}
+
 interface MetricCardProps {
   title: string;
   value: number;
@@ -399,6 +580,7 @@ interface MetricCardProps {
   margin?: number;
   distribution?: number;
   currentPeriodDays?: number;
+  breakdown?: Array<{ label: string; value: number; color?: string }>;
   onOptimize?: () => void;
 }
 
@@ -410,6 +592,7 @@ function MetricCard({
   margin,
   distribution,
   currentPeriodDays = 30,
+  breakdown,
   onOptimize,
 }: MetricCardProps) {
   const formatCurrency = (amount: number) => {
@@ -563,6 +746,35 @@ function MetricCard({
             )}
           </InlineStack>
 
+          {/* Breakdown, skipping components with nothing in the period */}
+          {breakdown && breakdown.some((item) => item.value !== 0) && (
+            <BlockStack gap="100">
+              {breakdown.filter((item) => item.value !== 0).map((item) => (
+                <InlineStack key={item.label} align="space-between">
+                  <InlineStack gap="100" blockAlign="center">
+                    {item.color && (
+                      <span
+                        style={{
+                          display: "inline-block",
+                          width: "8px",
+                          height: "8px",
+                          borderRadius: "50%",
+                          backgroundColor: item.color,
+                        }}
+                      />
+                    )}
+                    <Text as="span" variant="bodySm" tone="subdued">
+                      {item.label}
+                    </Text>
+                  </InlineStack>
+                  <Text as="span" variant="bodySm">
+                    {formatCurrency(item.value)}
+                  </Text>
+                </InlineStack>
+              ))}
+            </BlockStack>
+          )}
+
           <InlineStack align="end" gap="200">
             <Button 
               size="slim" 
@@ -647,7 +859,7 @@ function SetupCard({ title, description, buttonText, onAction }: SetupCardProps)
 
 export default function Dashboard() {
   const data = useLoaderData<typeof loader>();
-  const { metrics, targets, trends, period, margins, distributions, facebookConnected, facebookLastSync } = data as any;
+  const { metrics, targets, trends, period, margins, distributions, variableCostsBreakdown, marketingCostsBreakdown, fixedCostsBreakdown, facebookConnected, facebookLastSync, adAccount, adAccountOptions } = data as any;
   const navigate = useNavigate();
   const submit = useSubmit();
   const [selectedPeriod, setSelectedPeriod] = useState(period || "last30days");
@@ -681,9 +893,15 @@ export default function Dashboard() {
   
   const currentPeriodDays = getCurrentPeriodDays();
 
+  const navigateToView = (newPeriod: string, newAdAccount: string) => {
+    const params = new URLSearchParams({ period: newPeriod });
+    if (newAdAccount) params.set("adAccount", newAdAccount);
+    navigate(`/app?${params}`);
+  };
+
   const handlePeriodChange = (newPeriod: string) => {
     setSelectedPeriod(newPeriod);
-    navigate(`/app?period=${newPeriod}`);
+    navigateToView(newPeriod, adAccount);
   };
 
   const handleOptimize = async (metricName: string, metricData: any) => {
@@ -811,89 +1029,103 @@ export default function Dashboard() {
               </BlockStack>
             </Card>
         )}
-        {/* Date Range Selector */}
+        {/* Date Range and Ad Account Selectors */}
         <div style={{ marginBottom: '16px' }}>
-          <Popover
-            active={showDatePicker}
-            activator={
-              <Button
-                onClick={() => setShowDatePicker(!showDatePicker)}
-                disclosure={showDatePicker ? "up" : "down"}
-                icon={<Icon source={CalendarIcon} />}
-              >
-                {selectedPeriod === "today" ? "Today" :
-                 selectedPeriod === "yesterday" ? "Yesterday" :
-                 selectedPeriod === "last7days" ? "Last 7 days" :
-                 selectedPeriod === "last30days" ? "Last 30 days" :
-                 selectedPeriod === "last60days" ? "Last 60 days" :
-                 selectedPeriod === "last90days" ? "Last 90 days" :
-                 selectedPeriod === "thisMonth" ? "This month" :
-                 selectedPeriod === "lastMonth" ? "Last month" : "Last 30 days"}
-              </Button>
-            }
-            onClose={() => setShowDatePicker(false)}
-          >
-            <ActionList
-              items={[
-                {
-                  content: "Today",
-                  onAction: () => {
-                    handlePeriodChange("today");
-                    setShowDatePicker(false);
+          <InlineStack gap="200" blockAlign="center">
+            <Popover
+              active={showDatePicker}
+              activator={
+                <Button
+                  onClick={() => setShowDatePicker(!showDatePicker)}
+                  disclosure={showDatePicker ? "up" : "down"}
+                  icon={<Icon source={CalendarIcon} />}
+                >
+                  {selectedPeriod === "today" ? "Today" :
+                   selectedPeriod === "yesterday" ? "Yesterday" :
+                   selectedPeriod === "last7days" ? "Last 7 days" :
+                   selectedPeriod === "last30days" ? "Last 30 days" :
+                   selectedPeriod === "last60days" ? "Last 60 days" :
+                   selectedPeriod === "last90days" ? "Last 90 days" :
+                   selectedPeriod === "thisMonth" ? "This month" :
+                   selectedPeriod === "lastMonth" ? "Last month" : "Last 30 days"}
+                </Button>
+              }
+              onClose={() => setShowDatePicker(false)}
+            >
+              <ActionList
+                items={[
+                  {
+                    content: "Today",
+                    onAction: () => {
+                      handlePeriodChange("today");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-                {
-                  content: "Yesterday",
-                  onAction: () => {
-                    handlePeriodChange("yesterday");
-                    setShowDatePicker(false);
+                  {
+                    content: "Yesterday",
+                    onAction: () => {
+                      handlePeriodChange("yesterday");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-                {
-                  content: "Last 7 days",
-                  onAction: () => {
-                    handlePeriodChange("last7days");
-                    setShowDatePicker(false);
+                  {
+                    content: "Last 7 days",
+                    onAction: () => {
+                      handlePeriodChange("last7days");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-                {
-                  content: "Last 30 days",
-                  onAction: () => {
-                    handlePeriodChange("last30days");
-                    setShowDatePicker(false);
+                  {
+                    content: "Last 30 days",
+                    onAction: () => {
+                      handlePeriodChange("last30days");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-                {
-                  content: "Last 60 days",
-                  onAction: () => {
-                    handlePeriodChange("last60days");
-                    setShowDatePicker(false);
+                  {
+                    content: "Last 60 days",
+                    onAction: () => {
+                      handlePeriodChange("last60days");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-                {
-                  content: "Last 90 days",
-                  onAction: () => {
-                    handlePeriodChange("last90days");
-                    setShowDatePicker(false);
+                  {
+                    content: "Last 90 days",
+                    onAction: () => {
+                      handlePeriodChange("last90days");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-                {
-                  content: "This month",
-                  onAction: () => {
-                    handlePeriodChange("thisMonth");
-                    setShowDatePicker(false);
+                  {
+                    content: "This month",
+                    onAction: () => {
+                      handlePeriodChange("thisMonth");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-                {
-                  content: "Last month",
-                  onAction: () => {
-                    handlePeriodChange("lastMonth");
-                    setShowDatePicker(false);
+                  {
+                    content: "Last month",
+                    onAction: () => {
+                      handlePeriodChange("lastMonth");
+                      setShowDatePicker(false);
+                    },
                   },
-                },
-              ]}
-            />
-          </Popover>
+                ]}
+              />
+            </Popover>
+            {adAccountOptions?.length > 0 && (
+              <Select
+                label="Ad account"
+                labelHidden
+                options={[
+                  { label: "All ad accounts", value: "" },
+                  ...adAccountOptions,
+                ]}
+                value={adAccount || ""}
+                onChange={(value) => navigateToView(selectedPeriod, value)}
+              />
+            )}
+          </InlineStack>
         </div>
 
         {/* Setup Cards */}
@@ -1012,6 +1244,46 @@ export default function Dashboard() {
           </Layout.Section>
         </Layout>
 
+        {/* Refund Metrics */}
+        <Layout>
+          <Layout.Section variant="oneThird">
+            <MetricCard
+              title="Refunds"
+              value={metrics.refundedAmount}
+              trend={trends.refundedAmount}
+              currentPeriodDays={currentPeriodDays}
+            />
+          </Layout.Section>
+          <Layout.Section variant="oneThird">
+            <MetricCard
+              title="Net Revenue"
+              value={metrics.netRevenue}
+              trend={trends.netRevenue}
+              currentPeriodDays={currentPeriodDays}
+            />
+          </Layout.Section>
+        </Layout>
+
+        {/* Shipping Metrics */}
+        <Layout>
+          <Layout.Section variant="oneThird">
+            <MetricCard
+              title="Shipping Charged"
+              value={metrics.shippingRevenue}
+              trend={trends.shippingRevenue}
+              currentPeriodDays={currentPeriodDays}
+            />
+          </Layout.Section>
+          <Layout.Section variant="oneThird">
+            <MetricCard
+              title="Shipping Costs"
+              value={metrics.shippingCosts}
+              trend={trends.shippingCosts}
+              currentPeriodDays={currentPeriodDays}
+            />
+          </Layout.Section>
+        </Layout>
+
         {/* Cost Metrics */}
         <Layout>
           <Layout.Section variant="oneThird">
@@ -1023,6 +1295,7 @@ export default function Dashboard() {
               margin={margins?.variableCostsMargin}
               distribution={distributions?.variableCostsDist}
               currentPeriodDays={currentPeriodDays}
+              breakdown={variableCostsBreakdown}
               onOptimize={() => handleOptimize("Metric", {})}
             />
           </Layout.Section>
@@ -1035,6 +1308,7 @@ export default function Dashboard() {
               margin={margins?.marketingCostMargin}
               distribution={distributions?.marketingCostDist}
               currentPeriodDays={currentPeriodDays}
+              breakdown={marketingCostsBreakdown}
               onOptimize={() => handleOptimize("Metric", {})}
             />
           </Layout.Section>
@@ -1047,6 +1321,7 @@ export default function Dashboard() {
               margin={margins?.fixedCostMargin}
               distribution={distributions?.fixedCostsDist}
               currentPeriodDays={currentPeriodDays}
+              breakdown={fixedCostsBreakdown}
               onOptimize={() => handleOptimize("Metric", {})}
             />
           </Layout.Section>
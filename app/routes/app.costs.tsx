@@ -1,7 +1,7 @@
 import { useState } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData, useSubmit, useNavigation } from "@remix-run/react";
+import { useActionData, useLoaderData, useSearchParams, useSubmit, useNavigation } from "@remix-run/react";
 import {
   Page,
   Card,
@@ -15,28 +15,236 @@ import {
   TextField,
   Select,
   FormLayout,
+  Banner,
+  DropZone,
+  Pagination,
 } from "@shopify/polaris";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import type { Prisma } from "@prisma/client";
 import { authenticate } from "../shopify.server";
-import { prisma } from "../utils/database";
+import { deleteShopRecord, getCostCategories, prisma, updateShopRecord } from "../utils/database";
+import type { ShopRecordModel } from "../utils/database";
+import { findVariant, recordVariantCost } from "../utils/cost-history";
+import { applyCostImport, parseCostCsv, previewCostImport } from "../utils/cost-import";
+import { resolveLandedCostRuleProducts } from "../utils/landed-costs";
+import type { CostImportPreview } from "../utils/cost-import";
+import {
+  getFieldErrors,
+  validateCostCategory,
+  validateFixedCost,
+  validateLandedCostRule,
+  validateManualCost,
+  validateMarketingCost,
+  validateShippingRule,
+  validateVariantCost,
+} from "../utils/validation";
+import type { FieldErrors } from "../utils/validation";
+
+const MARKETING_PLATFORM_OPTIONS = [
+  { label: "Manual", value: "manual" },
+  { label: "Facebook Ads", value: "facebook" },
+  { label: "Google Ads", value: "google" },
+  { label: "TikTok Ads", value: "tiktok" },
+  { label: "Snapchat Ads", value: "snapchat" },
+  { label: "Pinterest Ads", value: "pinterest" },
+  { label: "Microsoft Ads", value: "microsoft" },
+  { label: "Amazon Ads", value: "amazon" },
+  { label: "Klaviyo", value: "klaviyo" },
+  { label: "Postscript", value: "postscript" },
+  { label: "Attentive", value: "attentive" },
+  { label: "Influencer", value: "influencer" },
+];
+
+const FIXED_COST_CATEGORY_OPTIONS = [
+  { label: "Software", value: "software" },
+  { label: "Rent", value: "rent" },
+  { label: "Salary", value: "salary" },
+  { label: "Other", value: "other" },
+];
+
+const MANUAL_COST_CATEGORY_OPTIONS = [
+  { label: "Shipping", value: "shipping" },
+  { label: "Cost of Goods Sold (COGS)", value: "cogs" },
+  { label: "Other", value: "other" },
+];
+
+const COST_GROUP_OPTIONS = [
+  { label: "Variable costs (gross profit)", value: "variable" },
+  { label: "Marketing (contribution profit)", value: "marketing" },
+  { label: "Fixed costs (net profit)", value: "fixed" },
+];
+
+const COST_CATEGORY_COLORS = [
+  { label: "Teal", value: "#47C1BF" },
+  { label: "Indigo", value: "#5C6AC4" },
+  { label: "Purple", value: "#9C6ADE" },
+  { label: "Orange", value: "#F49342" },
+  { label: "Red", value: "#DE3618" },
+  { label: "Yellow", value: "#EEC200" },
+  { label: "Green", value: "#50B83C" },
+  { label: "Gray", value: "#637381" },
+];
+
+// Table each delete action removes a row from
+const DELETE_ACTIONS = new Map<string, ShopRecordModel>([
+  ["deleteMarketingCost", "marketingCost"],
+  ["deleteFixedCost", "fixedCost"],
+  ["deleteManualCost", "manualCost"],
+  ["deleteShippingRule", "shippingCostRule"],
+  ["deleteLandedCostRule", "landedCostRule"],
+  ["deleteVariantCost", "variantCostHistory"],
+  ["deleteCostCategory", "costCategory"],
+]);
+
+const COST_TABLE_PAGE_SIZE = 25;
+
+type CostTable = "marketing" | "fixed" | "manual";
+
+interface CostTableFilters {
+  page: number;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  type: string; // Platform for marketing costs, category for the others
+  query: string;
+}
+
+// Each table's filters live in search params prefixed with its name, e.g. `marketingPage`
+function readCostTableFilters(url: URL, table: CostTable): CostTableFilters {
+  const param = (name: string) => (url.searchParams.get(`${table}${name}`) || "").trim();
+  const date = (value: string) => (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) ? value : "");
+
+  return {
+    page: Math.max(1, parseInt(param("Page"), 10) || 1),
+    from: date(param("From")),
+    to: date(param("To")),
+    type: param("Type"),
+    query: param("Query"),
+  };
+}
+
+// Costs are stored at midnight UTC of the day entered, so the end date runs to the following midnight
+function getDateRangeFilter(filters: CostTableFilters): { gte?: Date; lt?: Date } | undefined {
+  if (!filters.from && !filters.to) return undefined;
+  return {
+    gte: filters.from ? new Date(filters.from) : undefined,
+    lt: filters.to ? new Date(new Date(filters.to).getTime() + 24 * 60 * 60 * 1000) : undefined,
+  };
+}
+
+// Built-in categories are stored by name, custom ones by ID
+function getCategoryFilter(type: string, customCategoryIds: string[]) {
+  if (!type) return {};
+  return customCategoryIds.includes(type) ? { categoryId: type } : { category: type, categoryId: null };
+}
+
+// Page position and totals for the filtered rows, with the page clamped to the last one
+function getCostTablePage(filters: CostTableFilters, count: number, total: number | null) {
+  const pageCount = Math.max(1, Math.ceil(count / COST_TABLE_PAGE_SIZE));
+  const page = Math.min(filters.page, pageCount);
+
+  return {
+    page,
+    pageCount,
+    count,
+    total: total || 0,
+    skip: (page - 1) * COST_TABLE_PAGE_SIZE,
+    filters: { from: filters.from, to: filters.to, type: filters.type, query: filters.query },
+  };
+}
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
 
-  // Fetch all costs for the shop
+  const url = new URL(request.url);
+  const costCategories = await getCostCategories(session.shop);
+  const customCategoryIds = costCategories.map((category) => category.id);
+
+  const marketingFilters = readCostTableFilters(url, "marketing");
+  const marketingWhere: Prisma.MarketingCostWhereInput = {
+    shop: session.shop,
+    date: getDateRangeFilter(marketingFilters),
+    platform: marketingFilters.type || undefined,
+    description: marketingFilters.query ? { contains: marketingFilters.query, mode: "insensitive" } : undefined,
+  };
+  const marketingSummary = await prisma.marketingCost.aggregate({
+    where: marketingWhere,
+    _count: true,
+    _sum: { amount: true },
+  });
+  const marketingTable = getCostTablePage(marketingFilters, marketingSummary._count, marketingSummary._sum.amount);
   const marketingCosts = await prisma.marketingCost.findMany({
-    where: { shop: session.shop },
-    orderBy: { date: "desc" },
-    take: 50,
+    where: marketingWhere,
+    orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+    skip: marketingTable.skip,
+    take: COST_TABLE_PAGE_SIZE,
   });
 
+  // Fixed costs match the date range when they apply at any point in it
+  const fixedFilters = readCostTableFilters(url, "fixed");
+  const fixedRange = getDateRangeFilter(fixedFilters);
+  const fixedWhere: Prisma.FixedCostWhereInput = {
+    shop: session.shop,
+    ...getCategoryFilter(fixedFilters.type, customCategoryIds),
+    name: fixedFilters.query ? { contains: fixedFilters.query, mode: "insensitive" } : undefined,
+    AND: fixedRange ? [
+      fixedRange.lt ? { startDate: { lt: fixedRange.lt } } : {},
+      fixedRange.gte
+        ? {
+          OR: [
+            { recurring: true, endDate: null },
+            { recurring: true, endDate: { gte: fixedRange.gte } },
+            { recurring: false, startDate: { gte: fixedRange.gte } },
+          ],
+        }
+        : {},
+    ] : undefined,
+  };
+  const fixedSummary = await prisma.fixedCost.aggregate({
+    where: fixedWhere,
+    _count: true,
+    _sum: { amount: true },
+  });
+  const fixedTable = getCostTablePage(fixedFilters, fixedSummary._count, fixedSummary._sum.amount);
   const fixedCosts = await prisma.fixedCost.findMany({
-    where: { shop: session.shop },
-    orderBy: { startDate: "desc" },
+    where: fixedWhere,
+    orderBy: [{ startDate: "desc" }, { createdAt: "desc" }],
+    skip: fixedTable.skip,
+    take: COST_TABLE_PAGE_SIZE,
   });
 
+  const manualFilters = readCostTableFilters(url, "manual");
+  const manualWhere: Prisma.ManualCostWhereInput = {
+    shop: session.shop,
+    date: getDateRangeFilter(manualFilters),
+    ...getCategoryFilter(manualFilters.type, customCategoryIds),
+    description: manualFilters.query ? { contains: manualFilters.query, mode: "insensitive" } : undefined,
+  };
+  const manualSummary = await prisma.manualCost.aggregate({
+    where: manualWhere,
+    _count: true,
+    _sum: { amount: true },
+  });
+  const manualTable = getCostTablePage(manualFilters, manualSummary._count, manualSummary._sum.amount);
   const manualCosts = await prisma.manualCost.findMany({
+    where: manualWhere,
+    orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+    skip: manualTable.skip,
+    take: COST_TABLE_PAGE_SIZE,
+  });
+
+  const shippingRules = await prisma.shippingCostRule.findMany({
     where: { shop: session.shop },
-    orderBy: { date: "desc" },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const landedCostRules = await prisma.landedCostRule.findMany({
+    where: { shop: session.shop },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const variantCosts = await prisma.variantCostHistory.findMany({
+    where: { shop: session.shop, source: { not: "backfill" } },
+    orderBy: { effectiveFrom: "desc" },
     take: 50,
   });
 
@@ -44,57 +252,132 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     marketingCosts,
     fixedCosts,
     manualCosts,
+    tables: { marketing: marketingTable, fixed: fixedTable, manual: manualTable },
+    costCategories,
+    shippingRules,
+    landedCostRules,
+    variantCosts,
   });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const action = formData.get("action");
+  const id = formData.get("id") as string | null;
 
-  if (action === "addMarketingCost") {
-    await prisma.marketingCost.create({
-      data: {
-        shop: session.shop,
-        platform: formData.get("platform") as string,
-        amount: parseFloat(formData.get("amount") as string),
-        date: new Date(formData.get("date") as string),
-        description: formData.get("description") as string || null,
-      },
+  const invalidForm = (form: string, errors: FieldErrors) =>
+    json({ success: false, form, errors }, { status: 400 });
+  const notFound = () =>
+    json({ success: false, error: "That cost no longer exists. Reload the page and try again." }, { status: 404 });
+
+  if (action === "addMarketingCost" || action === "updateMarketingCost") {
+    const marketingCost = validateMarketingCost(formData);
+    if (marketingCost.errors) return invalidForm("marketingCost", marketingCost.errors);
+
+    try {
+      if (action === "addMarketingCost") {
+        await prisma.marketingCost.create({
+          data: { shop: session.shop, ...marketingCost.data },
+        });
+      } else if (!(await updateShopRecord("marketingCost", session.shop, id, marketingCost.data))) {
+        return notFound();
+      }
+    } catch (error: any) {
+      // Synced platforms keep one row per platform and day
+      if (error?.code === "P2002") {
+        return invalidForm("marketingCost", { date: "There's already a cost for that platform and date" });
+      }
+      throw error;
+    }
+  } else if (action === "addFixedCost" || action === "updateFixedCost") {
+    const customCategoryIds = (await getCostCategories(session.shop)).map((category) => category.id);
+    const fixedCost = validateFixedCost(formData, customCategoryIds);
+    if (fixedCost.errors) return invalidForm("fixedCost", fixedCost.errors);
+
+    if (action === "addFixedCost") {
+      await prisma.fixedCost.create({
+        data: { shop: session.shop, ...fixedCost.data },
+      });
+    } else if (!(await updateShopRecord("fixedCost", session.shop, id, fixedCost.data))) {
+      return notFound();
+    }
+  } else if (action === "addManualCost" || action === "updateManualCost") {
+    const customCategoryIds = (await getCostCategories(session.shop)).map((category) => category.id);
+    const manualCost = validateManualCost(formData, customCategoryIds);
+    if (manualCost.errors) return invalidForm("manualCost", manualCost.errors);
+
+    if (action === "addManualCost") {
+      await prisma.manualCost.create({
+        data: { shop: session.shop, ...manualCost.data },
+      });
+    } else if (!(await updateShopRecord("manualCost", session.shop, id, manualCost.data))) {
+      return notFound();
+    }
+  } else if (action === "addCostCategory") {
+    const costCategory = validateCostCategory(formData);
+    if (costCategory.errors) return invalidForm("costCategory", costCategory.errors);
+
+    try {
+      await prisma.costCategory.create({
+        data: { shop: session.shop, ...costCategory.data },
+      });
+    } catch (error: any) {
+      if (error?.code === "P2002") {
+        return invalidForm("costCategory", { name: "There's already a category with this name" });
+      }
+      throw error;
+    }
+  } else if (action === "addShippingRule") {
+    const shippingRule = validateShippingRule(formData);
+    if (shippingRule.errors) return invalidForm("shippingRule", shippingRule.errors);
+
+    await prisma.shippingCostRule.create({
+      data: { shop: session.shop, ...shippingRule.data },
     });
-  } else if (action === "addFixedCost") {
-    await prisma.fixedCost.create({
-      data: {
-        shop: session.shop,
-        category: formData.get("category") as string,
-        name: formData.get("name") as string,
-        amount: parseFloat(formData.get("amount") as string),
-        startDate: new Date(formData.get("startDate") as string),
-        recurring: formData.get("recurring") === "true",
-      },
+  } else if (action === "addVariantCost") {
+    const variantCost = validateVariantCost(formData);
+    if (variantCost.errors) return invalidForm("variantCost", variantCost.errors);
+
+    const variant = await findVariant(admin, variantCost.data.variant);
+    if (!variant) {
+      return invalidForm("variantCost", { variant: "No variant found with that SKU or ID" });
+    }
+
+    await recordVariantCost(session.shop, {
+      ...variant,
+      unitCost: variantCost.data.unitCost,
+      effectiveFrom: variantCost.data.effectiveFrom,
+      source: "manual",
     });
-  } else if (action === "addManualCost") {
-    await prisma.manualCost.create({
+  } else if (action === "previewCostImport" || action === "applyCostImport") {
+    // The file is re-read and re-matched on import, so the preview can't be tampered with
+    const { rows, invalid } = parseCostCsv((formData.get("csv") as string) || "");
+    const preview = await previewCostImport(admin, rows);
+    preview.invalid = invalid;
+
+    if (action === "previewCostImport") {
+      return json({ success: true, costImportPreview: preview });
+    }
+
+    const target = formData.get("target") === "shopify" ? "shopify" : "app";
+    const result = await applyCostImport(admin, session.shop, preview.matched, target);
+    return json({ success: result.success, costImportResult: result });
+  } else if (action === "addLandedCostRule") {
+    const landedCostRule = validateLandedCostRule(formData);
+    if (landedCostRule.errors) return invalidForm("landedCostRule", landedCostRule.errors);
+
+    await prisma.landedCostRule.create({
       data: {
         shop: session.shop,
-        category: formData.get("category") as string,
-        description: formData.get("description") as string,
-        amount: parseFloat(formData.get("amount") as string),
-        date: new Date(formData.get("date") as string),
+        ...landedCostRule.data,
+        ...(await resolveLandedCostRuleProducts(admin, landedCostRule.data)),
       },
     });
-  } else if (action === "deleteMarketingCost") {
-    await prisma.marketingCost.delete({
-      where: { id: formData.get("id") as string },
-    });
-  } else if (action === "deleteFixedCost") {
-    await prisma.fixedCost.delete({
-      where: { id: formData.get("id") as string },
-    });
-  } else if (action === "deleteManualCost") {
-    await prisma.manualCost.delete({
-      where: { id: formData.get("id") as string },
-    });
+  } else if (DELETE_ACTIONS.has(action as string)) {
+    if (!(await deleteShopRecord(DELETE_ACTIONS.get(action as string)!, session.shop, id))) {
+      return notFound();
+    }
   }
 
   return json({ success: true });
@@ -102,13 +385,46 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
 export default function CostsPage() {
   const data = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
   const submit = useSubmit();
+  const shopify = useAppBridge();
   const navigation = useNavigation();
   const isLoading = navigation.state === "submitting";
 
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Search boxes apply on "Search", so typing doesn't reload the table on every key
+  const [searchInputs, setSearchInputs] = useState<Record<CostTable, string>>({
+    marketing: data.tables.marketing.filters.query,
+    fixed: data.tables.fixed.filters.query,
+    manual: data.tables.manual.filters.query,
+  });
+
   const [showMarketingModal, setShowMarketingModal] = useState(false);
   const [showFixedModal, setShowFixedModal] = useState(false);
   const [showManualModal, setShowManualModal] = useState(false);
+  const [showShippingRuleModal, setShowShippingRuleModal] = useState(false);
+  const [showVariantCostModal, setShowVariantCostModal] = useState(false);
+  const [showLandedCostModal, setShowLandedCostModal] = useState(false);
+  const [showCostCategoryModal, setShowCostCategoryModal] = useState(false);
+
+  // Field errors from the last submission, cleared when its form is closed
+  const [lastActionData, setLastActionData] = useState(actionData);
+  const [formErrors, setFormErrors] = useState<unknown>(null);
+  const marketingErrors = getFieldErrors(formErrors, "marketingCost");
+  const fixedErrors = getFieldErrors(formErrors, "fixedCost");
+  const manualErrors = getFieldErrors(formErrors, "manualCost");
+  const shippingRuleErrors = getFieldErrors(formErrors, "shippingRule");
+  const landedCostErrors = getFieldErrors(formErrors, "landedCostRule");
+  const variantCostErrors = getFieldErrors(formErrors, "variantCost");
+  const costCategoryErrors = getFieldErrors(formErrors, "costCategory");
+
+  // Marketing or manual cost row being edited inline, with its values as entered
+  const [editingRow, setEditingRow] = useState<{
+    type: "Marketing" | "Manual";
+    id: string;
+    values: Record<string, string>;
+  } | null>(null);
 
   // Marketing Cost Form State
   const [marketingPlatform, setMarketingPlatform] = useState("manual");
@@ -121,7 +437,12 @@ export default function CostsPage() {
   const [fixedName, setFixedName] = useState("");
   const [fixedAmount, setFixedAmount] = useState("");
   const [fixedStartDate, setFixedStartDate] = useState(new Date().toISOString().split("T")[0]);
-  const [fixedRecurring, setFixedRecurring] = useState("true");
+  const [fixedFrequency, setFixedFrequency] = useState("monthly");
+  const [fixedIntervalDays, setFixedIntervalDays] = useState("");
+  const [fixedEndDate, setFixedEndDate] = useState("");
+  const [fixedBillingDay, setFixedBillingDay] = useState("");
+  const [fixedRecognition, setFixedRecognition] = useState("spread");
+  const [editingFixedCostId, setEditingFixedCostId] = useState<string | null>(null);
 
   // Manual Cost Form State
   const [manualCategory, setManualCategory] = useState("shipping");
@@ -129,6 +450,79 @@ export default function CostsPage() {
   const [manualAmount, setManualAmount] = useState("");
   const [manualDate, setManualDate] = useState(new Date().toISOString().split("T")[0]);
 
+  // Shipping Rule Form State
+  const [shippingRuleType, setShippingRuleType] = useState("per_order");
+  const [shippingRuleAmount, setShippingRuleAmount] = useState("");
+  const [shippingRuleMinWeight, setShippingRuleMinWeight] = useState("");
+  const [shippingRuleMaxWeight, setShippingRuleMaxWeight] = useState("");
+  const [shippingRuleCountries, setShippingRuleCountries] = useState("");
+
+  // Landed Cost Rule Form State
+  const [landedCostName, setLandedCostName] = useState("");
+  const [landedCostType, setLandedCostType] = useState("freight_per_unit");
+  const [landedCostAmount, setLandedCostAmount] = useState("");
+  const [landedCostScope, setLandedCostScope] = useState("all");
+  const [landedCostTarget, setLandedCostTarget] = useState<{ id: string; title: string } | null>(null);
+
+  // Cost Category Form State
+  const [costCategoryName, setCostCategoryName] = useState("");
+  const [costCategoryGroup, setCostCategoryGroup] = useState("variable");
+  const [costCategoryColor, setCostCategoryColor] = useState(COST_CATEGORY_COLORS[0].value);
+
+  // Custom categories are listed after the built-in ones, by ID
+  const customCategoryOptions = data.costCategories.map((category) => ({ label: category.name, value: category.id }));
+  const fixedCategoryOptions = [...FIXED_COST_CATEGORY_OPTIONS, ...customCategoryOptions];
+  const manualCategoryOptions = [...MANUAL_COST_CATEGORY_OPTIONS, ...customCategoryOptions];
+  const costGroupLabels = Object.fromEntries(COST_GROUP_OPTIONS.map((option) => [option.value, option.label]));
+
+  // Variant Cost Form State
+  const [variantCostVariant, setVariantCostVariant] = useState("");
+  const [variantCostAmount, setVariantCostAmount] = useState("");
+  const [variantCostDate, setVariantCostDate] = useState(new Date().toISOString().split("T")[0]);
+
+  // Cost Import State
+  const [importFileName, setImportFileName] = useState("");
+  const [importCsv, setImportCsv] = useState("");
+  const [importTarget, setImportTarget] = useState("app");
+  const costImportPreview = actionData && "costImportPreview" in actionData
+    ? (actionData.costImportPreview as CostImportPreview)
+    : null;
+  const costImportResult = actionData && "costImportResult" in actionData
+    ? (actionData.costImportResult as Awaited<ReturnType<typeof applyCostImport>>)
+    : null;
+
+  const fixedCostFrequencyLabels: Record<string, string> = {
+    weekly: "Weekly",
+    monthly: "Monthly",
+    quarterly: "Quarterly",
+    annual: "Annual",
+  };
+
+  const describeFixedCostFrequency = (cost: { recurring: boolean; frequency: string; intervalDays: number | null }) => {
+    if (!cost.recurring) return "One-time";
+    if (cost.frequency === "custom") return `Every ${cost.intervalDays} days`;
+    return fixedCostFrequencyLabels[cost.frequency] || cost.frequency;
+  };
+
+  const landedCostTypeLabels: Record<string, string> = {
+    freight_per_unit: "Freight per unit",
+    duty_percent: "Import duty",
+    packaging_per_order: "Packaging per order",
+  };
+
+  const variantCostSourceLabels: Record<string, string> = {
+    manual: "Manual",
+    import: "CSV import",
+    webhook: "Shopify",
+  };
+
+  const shippingRuleTypeLabels: Record<string, string> = {
+    per_order: "Per order",
+    per_item: "Per item",
+    weight: "Weight band",
+    zone: "Destination zone",
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -148,7 +542,11 @@ export default function CostsPage() {
     formData.append("date", marketingDate);
     formData.append("description", marketingDescription);
     submit(formData, { method: "post" });
+  };
+
+  const closeMarketingModal = () => {
     setShowMarketingModal(false);
+    setFormErrors(null);
     // Reset form
     setMarketingPlatform("manual");
     setMarketingAmount("");
@@ -156,22 +554,50 @@ export default function CostsPage() {
     setMarketingDescription("");
   };
 
-  const handleAddFixedCost = () => {
+  const handleSaveFixedCost = () => {
     const formData = new FormData();
-    formData.append("action", "addFixedCost");
+    formData.append("action", editingFixedCostId ? "updateFixedCost" : "addFixedCost");
+    if (editingFixedCostId) formData.append("id", editingFixedCostId);
     formData.append("category", fixedCategory);
     formData.append("name", fixedName);
     formData.append("amount", fixedAmount);
     formData.append("startDate", fixedStartDate);
-    formData.append("recurring", fixedRecurring);
+    formData.append("frequency", fixedFrequency);
+    formData.append("intervalDays", fixedIntervalDays);
+    formData.append("endDate", fixedEndDate);
+    formData.append("billingDay", fixedBillingDay);
+    formData.append("recognition", fixedRecognition);
     submit(formData, { method: "post" });
+  };
+
+  const handleEditFixedCost = (cost: (typeof data.fixedCosts)[number]) => {
+    setEditingFixedCostId(cost.id);
+    setFixedCategory(cost.categoryId || cost.category);
+    setFixedName(cost.name);
+    setFixedAmount(String(cost.amount));
+    setFixedStartDate(cost.startDate.split("T")[0]);
+    setFixedFrequency(cost.recurring ? cost.frequency : "one_time");
+    setFixedIntervalDays(cost.intervalDays ? String(cost.intervalDays) : "");
+    setFixedEndDate(cost.endDate ? cost.endDate.split("T")[0] : "");
+    setFixedBillingDay(cost.billingDay ? String(cost.billingDay) : "");
+    setFixedRecognition(cost.recognition);
+    setShowFixedModal(true);
+  };
+
+  const closeFixedModal = () => {
     setShowFixedModal(false);
+    setEditingFixedCostId(null);
+    setFormErrors(null);
     // Reset form
     setFixedCategory("software");
     setFixedName("");
     setFixedAmount("");
     setFixedStartDate(new Date().toISOString().split("T")[0]);
-    setFixedRecurring("true");
+    setFixedFrequency("monthly");
+    setFixedIntervalDays("");
+    setFixedEndDate("");
+    setFixedBillingDay("");
+    setFixedRecognition("spread");
   };
 
   const handleAddManualCost = () => {
@@ -182,7 +608,11 @@ export default function CostsPage() {
     formData.append("amount", manualAmount);
     formData.append("date", manualDate);
     submit(formData, { method: "post" });
+  };
+
+  const closeManualModal = () => {
     setShowManualModal(false);
+    setFormErrors(null);
     // Reset form
     setManualCategory("shipping");
     setManualDescription("");
@@ -190,6 +620,338 @@ export default function CostsPage() {
     setManualDate(new Date().toISOString().split("T")[0]);
   };
 
+  const handleAddShippingRule = () => {
+    const formData = new FormData();
+    formData.append("action", "addShippingRule");
+    formData.append("type", shippingRuleType);
+    formData.append("amount", shippingRuleAmount);
+    formData.append("minWeight", shippingRuleMinWeight);
+    formData.append("maxWeight", shippingRuleMaxWeight);
+    formData.append("countries", shippingRuleCountries);
+    submit(formData, { method: "post" });
+  };
+
+  const closeShippingRuleModal = () => {
+    setShowShippingRuleModal(false);
+    setFormErrors(null);
+    // Reset form
+    setShippingRuleType("per_order");
+    setShippingRuleAmount("");
+    setShippingRuleMinWeight("");
+    setShippingRuleMaxWeight("");
+    setShippingRuleCountries("");
+  };
+
+  const handleDeleteShippingRule = (id: string) => {
+    if (confirm("Are you sure you want to delete this shipping rule?")) {
+      const formData = new FormData();
+      formData.append("action", "deleteShippingRule");
+      formData.append("id", id);
+      submit(formData, { method: "post" });
+    }
+  };
+
+  const handleChooseLandedCostTarget = async () => {
+    const selection = await shopify.resourcePicker({
+      type: landedCostScope === "collection" ? "collection" : "product",
+      multiple: false,
+    });
+    if (selection && selection.length > 0) {
+      setLandedCostTarget({ id: selection[0].id, title: (selection[0] as any).title });
+    }
+  };
+
+  const handleAddLandedCostRule = () => {
+    const formData = new FormData();
+    formData.append("action", "addLandedCostRule");
+    formData.append("name", landedCostName);
+    formData.append("type", landedCostType);
+    formData.append("amount", landedCostAmount);
+    formData.append("scope", landedCostScope);
+    formData.append("targetId", landedCostTarget?.id || "");
+    formData.append("targetTitle", landedCostTarget?.title || "");
+    submit(formData, { method: "post" });
+  };
+
+  const closeLandedCostModal = () => {
+    setShowLandedCostModal(false);
+    setFormErrors(null);
+    // Reset form
+    setLandedCostName("");
+    setLandedCostType("freight_per_unit");
+    setLandedCostAmount("");
+    setLandedCostScope("all");
+    setLandedCostTarget(null);
+  };
+
+  const handleDeleteLandedCostRule = (id: string) => {
+    if (confirm("Are you sure you want to delete this landed cost rule?")) {
+      const formData = new FormData();
+      formData.append("action", "deleteLandedCostRule");
+      formData.append("id", id);
+      submit(formData, { method: "post" });
+    }
+  };
+
+  const handleAddCostCategory = () => {
+    const formData = new FormData();
+    formData.append("action", "addCostCategory");
+    formData.append("name", costCategoryName);
+    formData.append("group", costCategoryGroup);
+    formData.append("color", costCategoryColor);
+    submit(formData, { method: "post" });
+  };
+
+  const closeCostCategoryModal = () => {
+    setShowCostCategoryModal(false);
+    setFormErrors(null);
+    // Reset form
+    setCostCategoryName("");
+    setCostCategoryGroup("variable");
+    setCostCategoryColor(COST_CATEGORY_COLORS[0].value);
+  };
+
+  const handleDeleteCostCategory = (id: string) => {
+    if (confirm("Are you sure you want to delete this category? Its costs will move to Other.")) {
+      const formData = new FormData();
+      formData.append("action", "deleteCostCategory");
+      formData.append("id", id);
+      submit(formData, { method: "post" });
+    }
+  };
+
+  const renderColorSwatch = (color: string) => (
+    <span
+      style={{
+        display: "inline-block",
+        width: "12px",
+        height: "12px",
+        borderRadius: "50%",
+        backgroundColor: color,
+      }}
+    />
+  );
+
+  const renderCategory = (cost: { id: string; category: string; categoryId: string | null }) => {
+    const customCategory = data.costCategories.find((category) => category.id === cost.categoryId);
+    if (!customCategory) return <Badge key={cost.id}>{cost.category}</Badge>;
+
+    return (
+      <InlineStack key={cost.id} gap="100" blockAlign="center" wrap={false}>
+        {renderColorSwatch(customCategory.color)}
+        <Text as="span">{customCategory.name}</Text>
+      </InlineStack>
+    );
+  };
+
+  const handleAddVariantCost = () => {
+    const formData = new FormData();
+    formData.append("action", "addVariantCost");
+    formData.append("variant", variantCostVariant);
+    formData.append("unitCost", variantCostAmount);
+    formData.append("effectiveFrom", variantCostDate);
+    submit(formData, { method: "post" });
+  };
+
+  const closeVariantCostModal = () => {
+    setShowVariantCostModal(false);
+    setFormErrors(null);
+    // Reset form
+    setVariantCostVariant("");
+    setVariantCostAmount("");
+    setVariantCostDate(new Date().toISOString().split("T")[0]);
+  };
+
+  const handleDeleteVariantCost = (id: string) => {
+    if (confirm("Are you sure you want to delete this unit cost entry?")) {
+      const formData = new FormData();
+      formData.append("action", "deleteVariantCost");
+      formData.append("id", id);
+      submit(formData, { method: "post" });
+    }
+  };
+
+  const handleImportFile = async (files: File[]) => {
+    const file = files[0];
+    if (!file) return;
+
+    const csv = await file.text();
+    setImportFileName(file.name);
+    setImportCsv(csv);
+
+    const formData = new FormData();
+    formData.append("action", "previewCostImport");
+    formData.append("csv", csv);
+    submit(formData, { method: "post" });
+  };
+
+  const handleApplyCostImport = () => {
+    const formData = new FormData();
+    formData.append("action", "applyCostImport");
+    formData.append("csv", importCsv);
+    formData.append("target", importTarget);
+    submit(formData, { method: "post" });
+    setImportFileName("");
+    setImportCsv("");
+  };
+
+  const describeShippingRule = (rule: { type: string; minWeight: number | null; maxWeight: number | null; countries: string | null }) => {
+    if (rule.type === "weight") {
+      return rule.maxWeight !== null
+        ? `${rule.minWeight || 0}g to ${rule.maxWeight}g`
+        : `${rule.minWeight || 0}g and over`;
+    }
+    if (rule.type === "zone") return rule.countries || "-";
+    return "All orders";
+  };
+
+  const startEditingRow = (type: "Marketing" | "Manual", id: string, values: Record<string, string>) => {
+    setEditingRow({ type, id, values });
+  };
+
+  const setEditingValue = (field: string) => (value: string) => {
+    setEditingRow((row) => row && { ...row, values: { ...row.values, [field]: value } });
+  };
+
+  const handleSaveRow = () => {
+    if (!editingRow) return;
+    const formData = new FormData();
+    formData.append("action", `update${editingRow.type}Cost`);
+    formData.append("id", editingRow.id);
+    for (const [field, value] of Object.entries(editingRow.values)) {
+      formData.append(field, value);
+    }
+    submit(formData, { method: "post" });
+  };
+
+  const cancelEditingRow = () => {
+    setEditingRow(null);
+    setFormErrors(null);
+  };
+
+  // Forms stay open until the server accepts them, so field errors can be fixed in place
+  if (actionData !== lastActionData) {
+    setLastActionData(actionData);
+    setFormErrors(actionData);
+    if (actionData?.success) {
+      closeMarketingModal();
+      closeFixedModal();
+      closeManualModal();
+      closeShippingRuleModal();
+      closeLandedCostModal();
+      closeVariantCostModal();
+      closeCostCategoryModal();
+      cancelEditingRow();
+    }
+  }
+
+  const renderRowActions = (type: string, id: string, onEdit: () => void) => (
+    <InlineStack key={id} gap="200" wrap={false}>
+      <Button size="slim" onClick={onEdit}>
+        Edit
+      </Button>
+      <Button size="slim" tone="critical" onClick={() => handleDelete(type, id)}>
+        Delete
+      </Button>
+    </InlineStack>
+  );
+
+  const renderEditingActions = () => (
+    <InlineStack key="actions" gap="200" wrap={false}>
+      <Button size="slim" variant="primary" onClick={handleSaveRow} loading={isLoading}>
+        Save
+      </Button>
+      <Button size="slim" onClick={cancelEditingRow}>
+        Cancel
+      </Button>
+    </InlineStack>
+  );
+
+  const setTableFilter = (table: CostTable, name: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(`${table}${name}`, value);
+    } else {
+      params.delete(`${table}${name}`);
+    }
+    // Changing a filter starts the table over from its first page
+    if (name !== "Page") params.delete(`${table}Page`);
+    setSearchParams(params, { preventScrollReset: true });
+  };
+
+  const hasTableFilters = (table: CostTable) => {
+    const { filters } = data.tables[table];
+    return !!(filters.from || filters.to || filters.type || filters.query);
+  };
+
+  const renderTableFilters = (
+    table: CostTable,
+    typeLabel: string,
+    typeOptions: Array<{ label: string; value: string }>,
+    searchLabel: string
+  ) => {
+    const { filters } = data.tables[table];
+    return (
+      <InlineStack gap="300" blockAlign="end">
+        <div style={{ flex: "1 1 240px" }}>
+          <TextField
+            label={searchLabel}
+            value={searchInputs[table]}
+            onChange={(value) => setSearchInputs((current) => ({ ...current, [table]: value }))}
+            autoComplete="off"
+            clearButton
+            onClearButtonClick={() => {
+              setSearchInputs((current) => ({ ...current, [table]: "" }));
+              setTableFilter(table, "Query", "");
+            }}
+            connectedRight={
+              <Button onClick={() => setTableFilter(table, "Query", searchInputs[table].trim())}>
+                Search
+              </Button>
+            }
+          />
+        </div>
+        <Select
+          label={typeLabel}
+          options={[{ label: "All", value: "" }, ...typeOptions]}
+          value={filters.type}
+          onChange={(value) => setTableFilter(table, "Type", value)}
+        />
+        <TextField
+          label="From"
+          type="date"
+          value={filters.from}
+          onChange={(value) => setTableFilter(table, "From", value)}
+          autoComplete="off"
+        />
+        <TextField
+          label="To"
+          type="date"
+          value={filters.to}
+          onChange={(value) => setTableFilter(table, "To", value)}
+          autoComplete="off"
+        />
+      </InlineStack>
+    );
+  };
+
+  const renderTablePagination = (table: CostTable) => {
+    const { page, pageCount, count } = data.tables[table];
+    if (pageCount <= 1) return null;
+
+    return (
+      <InlineStack align="center">
+        <Pagination
+          hasPrevious={page > 1}
+          onPrevious={() => setTableFilter(table, "Page", String(page - 1))}
+          hasNext={page < pageCount}
+          onNext={() => setTableFilter(table, "Page", String(page + 1))}
+          label={`Page ${page} of ${pageCount} (${count} entries)`}
+        />
+      </InlineStack>
+    );
+  };
+
   const handleDelete = (type: string, id: string) => {
     if (confirm("Are you sure you want to delete this cost?")) {
       const formData = new FormData();
@@ -205,6 +967,12 @@ export default function CostsPage() {
       subtitle="Add and manage your business costs"
     >
       <BlockStack gap="500">
+        {actionData && "error" in actionData && (
+          <Banner tone="critical">
+            <p>{String(actionData.error)}</p>
+          </Banner>
+        )}
+
         {/* Marketing Costs */}
         <Card>
           <BlockStack gap="400">
@@ -217,30 +985,78 @@ export default function CostsPage() {
               </Button>
             </InlineStack>
             
+            {renderTableFilters("marketing", "Platform", MARKETING_PLATFORM_OPTIONS, "Search descriptions")}
+
             {data.marketingCosts.length > 0 ? (
               <DataTable
                 columnContentTypes={["text", "text", "numeric", "text", "text"]}
+                showTotalsInFooter
+                totals={["", "", formatCurrency(data.tables.marketing.total), "", ""]}
+                totalsName={{ singular: "Total", plural: "Total" }}
                 headings={["Date", "Platform", "Amount", "Description", "Actions"]}
-                rows={data.marketingCosts.map((cost) => [
+                rows={data.marketingCosts.map((cost) => editingRow?.type === "Marketing" && editingRow.id === cost.id ? [
+                  <TextField
+                    key="date"
+                    label="Date"
+                    labelHidden
+                    type="date"
+                    value={editingRow.values.date}
+                    onChange={setEditingValue("date")}
+                    error={marketingErrors.date}
+                    autoComplete="off"
+                  />,
+                  <Select
+                    key="platform"
+                    label="Platform"
+                    labelHidden
+                    options={MARKETING_PLATFORM_OPTIONS}
+                    value={editingRow.values.platform}
+                    onChange={setEditingValue("platform")}
+                    error={marketingErrors.platform}
+                  />,
+                  <TextField
+                    key="amount"
+                    label="Amount"
+                    labelHidden
+                    type="number"
+                    value={editingRow.values.amount}
+                    onChange={setEditingValue("amount")}
+                    error={marketingErrors.amount}
+                    autoComplete="off"
+                    prefix="$"
+                  />,
+                  <TextField
+                    key="description"
+                    label="Description"
+                    labelHidden
+                    value={editingRow.values.description}
+                    onChange={setEditingValue("description")}
+                    error={marketingErrors.description}
+                    autoComplete="off"
+                  />,
+                  renderEditingActions(),
+                ] : [
                   formatDate(cost.date),
                   <Badge key={cost.id}>{cost.platform}</Badge>,
                   formatCurrency(cost.amount),
                   cost.description || "-",
-                  <Button
-                    key={cost.id}
-                    size="slim"
-                    tone="critical"
-                    onClick={() => handleDelete("Marketing", cost.id)}
-                  >
-                    Delete
-                  </Button>,
+                  renderRowActions("Marketing", cost.id, () => startEditingRow("Marketing", cost.id, {
+                    date: cost.date.split("T")[0],
+                    platform: cost.platform,
+                    amount: String(cost.amount),
+                    description: cost.description || "",
+                  })),
                 ])}
               />
             ) : (
               <Text as="p" tone="subdued">
-                No marketing costs added yet. Click "Add Marketing Cost" to get started.
+                {hasTableFilters("marketing")
+                  ? "No marketing costs match these filters."
+                  : 'No marketing costs added yet. Click "Add Marketing Cost" to get started.'}
               </Text>
             )}
+
+            {renderTablePagination("marketing")}
           </BlockStack>
         </Card>
 
@@ -256,31 +1072,34 @@ export default function CostsPage() {
               </Button>
             </InlineStack>
             
+            {renderTableFilters("fixed", "Category", fixedCategoryOptions, "Search names")}
+
             {data.fixedCosts.length > 0 ? (
               <DataTable
-                columnContentTypes={["text", "text", "text", "numeric", "text", "text"]}
-                headings={["Category", "Name", "Start Date", "Amount", "Type", "Actions"]}
+                columnContentTypes={["text", "text", "text", "text", "numeric", "text", "text"]}
+                showTotalsInFooter
+                totals={["", "", "", "", formatCurrency(data.tables.fixed.total), "", ""]}
+                totalsName={{ singular: "Total", plural: "Total" }}
+                headings={["Category", "Name", "Start Date", "End Date", "Amount", "Frequency", "Actions"]}
                 rows={data.fixedCosts.map((cost) => [
-                  <Badge key={cost.id}>{cost.category}</Badge>,
+                  renderCategory(cost),
                   cost.name,
                   formatDate(cost.startDate),
+                  cost.endDate ? formatDate(cost.endDate) : "-",
                   formatCurrency(cost.amount),
-                  cost.recurring ? "Monthly" : "One-time",
-                  <Button
-                    key={cost.id}
-                    size="slim"
-                    tone="critical"
-                    onClick={() => handleDelete("Fixed", cost.id)}
-                  >
-                    Delete
-                  </Button>,
+                  describeFixedCostFrequency(cost),
+                  renderRowActions("Fixed", cost.id, () => handleEditFixedCost(cost)),
                 ])}
               />
             ) : (
               <Text as="p" tone="subdued">
-                No fixed costs added yet. Click "Add Fixed Cost" to get started.
+                {hasTableFilters("fixed")
+                  ? "No fixed costs match these filters."
+                  : 'No fixed costs added yet. Click "Add Fixed Cost" to get started.'}
               </Text>
             )}
+
+            {renderTablePagination("fixed")}
           </BlockStack>
         </Card>
 
@@ -296,20 +1115,152 @@ export default function CostsPage() {
               </Button>
             </InlineStack>
             
+            {renderTableFilters("manual", "Category", manualCategoryOptions, "Search descriptions")}
+
             {data.manualCosts.length > 0 ? (
               <DataTable
                 columnContentTypes={["text", "text", "text", "numeric", "text"]}
+                showTotalsInFooter
+                totals={["", "", "", formatCurrency(data.tables.manual.total), ""]}
+                totalsName={{ singular: "Total", plural: "Total" }}
                 headings={["Date", "Category", "Description", "Amount", "Actions"]}
-                rows={data.manualCosts.map((cost) => [
+                rows={data.manualCosts.map((cost) => editingRow?.type === "Manual" && editingRow.id === cost.id ? [
+                  <TextField
+                    key="date"
+                    label="Date"
+                    labelHidden
+                    type="date"
+                    value={editingRow.values.date}
+                    onChange={setEditingValue("date")}
+                    error={manualErrors.date}
+                    autoComplete="off"
+                  />,
+                  <Select
+                    key="category"
+                    label="Category"
+                    labelHidden
+                    options={manualCategoryOptions}
+                    value={editingRow.values.category}
+                    onChange={setEditingValue("category")}
+                    error={manualErrors.category}
+                  />,
+                  <TextField
+                    key="description"
+                    label="Description"
+                    labelHidden
+                    value={editingRow.values.description}
+                    onChange={setEditingValue("description")}
+                    error={manualErrors.description}
+                    autoComplete="off"
+                  />,
+                  <TextField
+                    key="amount"
+                    label="Amount"
+                    labelHidden
+                    type="number"
+                    value={editingRow.values.amount}
+                    onChange={setEditingValue("amount")}
+                    error={manualErrors.amount}
+                    autoComplete="off"
+                    prefix="$"
+                  />,
+                  renderEditingActions(),
+                ] : [
                   formatDate(cost.date),
-                  <Badge key={cost.id}>{cost.category}</Badge>,
+                  renderCategory(cost),
                   cost.description,
                   formatCurrency(cost.amount),
+                  renderRowActions("Manual", cost.id, () => startEditingRow("Manual", cost.id, {
+                    date: cost.date.split("T")[0],
+                    category: cost.categoryId || cost.category,
+                    description: cost.description,
+                    amount: String(cost.amount),
+                  })),
+                ])}
+              />
+            ) : (
+              <Text as="p" tone="subdued">
+                {hasTableFilters("manual")
+                  ? "No manual costs match these filters."
+                  : 'No manual costs added yet. Click "Add Manual Cost" to get started.'}
+              </Text>
+            )}
+
+            {renderTablePagination("manual")}
+          </BlockStack>
+        </Card>
+
+        {/* Cost Categories */}
+        <Card>
+          <BlockStack gap="400">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                Cost Categories
+              </Text>
+              <Button onClick={() => setShowCostCategoryModal(true)}>
+                Add Category
+              </Button>
+            </InlineStack>
+            <Text as="p" variant="bodySm" tone="subdued">
+              Your own categories for fixed and manual costs, like 3PL fees or an agency retainer. Their costs show as separate line items in the profit tier you choose.
+            </Text>
+
+            {data.costCategories.length > 0 ? (
+              <DataTable
+                columnContentTypes={["text", "text", "text"]}
+                headings={["Name", "Counts In", "Actions"]}
+                rows={data.costCategories.map((category) => [
+                  <InlineStack key={category.id} gap="100" blockAlign="center" wrap={false}>
+                    {renderColorSwatch(category.color)}
+                    <Text as="span">{category.name}</Text>
+                  </InlineStack>,
+                  costGroupLabels[category.group] || category.group,
+                  <Button
+                    key={category.id}
+                    size="slim"
+                    tone="critical"
+                    onClick={() => handleDeleteCostCategory(category.id)}
+                  >
+                    Delete
+                  </Button>,
+                ])}
+              />
+            ) : (
+              <Text as="p" tone="subdued">
+                No custom categories yet. Costs use the built-in categories.
+              </Text>
+            )}
+          </BlockStack>
+        </Card>
+
+        {/* Shipping Cost Rules */}
+        <Card>
+          <BlockStack gap="400">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                Shipping Cost Rules
+              </Text>
+              <Button onClick={() => setShowShippingRuleModal(true)}>
+                Add Shipping Rule
+              </Button>
+            </InlineStack>
+            <Text as="p" tone="subdued">
+              Orders with Shopify Shipping labels use the actual label cost. Other orders are costed with these rules: per order and per item rules always apply, plus the first matching weight band and destination zone.
+            </Text>
+
+            {data.shippingRules.length > 0 ? (
+              <DataTable
+                columnContentTypes={["text", "text", "numeric", "text"]}
+                headings={["Type", "Applies To", "Amount", "Actions"]}
+                rows={data.shippingRules.map((rule) => [
+                  <Badge key={rule.id}>{shippingRuleTypeLabels[rule.type] || rule.type}</Badge>,
+                  describeShippingRule(rule),
+                  rule.type === "per_item" ? `${formatCurrency(rule.amount)} / item` : formatCurrency(rule.amount),
                   <Button
-                    key={cost.id}
+                    key={rule.id}
                     size="slim"
                     tone="critical"
-                    onClick={() => handleDelete("Manual", cost.id)}
+                    onClick={() => handleDeleteShippingRule(rule.id)}
                   >
                     Delete
                   </Button>,
@@ -317,7 +1268,199 @@ export default function CostsPage() {
               />
             ) : (
               <Text as="p" tone="subdued">
-                No manual costs added yet. Click "Add Manual Cost" to get started.
+                No shipping rules added yet. Without labels or rules, shipping costs only include manual shipping costs.
+              </Text>
+            )}
+          </BlockStack>
+        </Card>
+
+        {/* Landed Cost Rules */}
+        <Card>
+          <BlockStack gap="400">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                Landed Cost Rules
+              </Text>
+              <Button onClick={() => setShowLandedCostModal(true)}>
+                Add Landed Cost
+              </Button>
+            </InlineStack>
+            <Text as="p" tone="subdued">
+              Freight, import duties and packaging added to COGS on top of each product's unit cost. Rules can apply to every product, one product or a collection.
+            </Text>
+
+            {data.landedCostRules.length > 0 ? (
+              <DataTable
+                columnContentTypes={["text", "text", "text", "numeric", "text"]}
+                headings={["Name", "Type", "Applies To", "Amount", "Actions"]}
+                rows={data.landedCostRules.map((rule) => [
+                  rule.name,
+                  <Badge key={rule.id}>{landedCostTypeLabels[rule.type] || rule.type}</Badge>,
+                  rule.scope === "all" ? "All products" : rule.targetTitle || rule.targetId || "-",
+                  rule.type === "duty_percent"
+                    ? `${rule.amount}% of product cost`
+                    : rule.type === "freight_per_unit"
+                      ? `${formatCurrency(rule.amount)} / unit`
+                      : `${formatCurrency(rule.amount)} / order`,
+                  <Button
+                    key={rule.id}
+                    size="slim"
+                    tone="critical"
+                    onClick={() => handleDeleteLandedCostRule(rule.id)}
+                  >
+                    Delete
+                  </Button>,
+                ])}
+              />
+            ) : (
+              <Text as="p" tone="subdued">
+                No landed cost rules added yet. COGS only includes unit costs and manual COGS.
+              </Text>
+            )}
+          </BlockStack>
+        </Card>
+
+        {/* Bulk Cost Import */}
+        <Card>
+          <BlockStack gap="400">
+            <Text as="h2" variant="headingMd">
+              Import Unit Costs
+            </Text>
+            <Text as="p" tone="subdued">
+              Upload a CSV with a sku or variant_id column and a unit_cost column. Optional columns: effective_date (YYYY-MM-DD), freight and duty (per unit). Rows without an effective date replace the cost from Shopify and apply from now on, and to earlier orders without a cost you entered.
+            </Text>
+
+            {costImportResult && (
+              <Banner
+                tone={costImportResult.errors.length ? "warning" : "success"}
+                title={`Imported ${costImportResult.imported} unit cost${costImportResult.imported === 1 ? "" : "s"}`}
+              >
+                {costImportResult.errors.map((error) => (
+                  <p key={error.line}>Line {error.line}: {error.error}</p>
+                ))}
+              </Banner>
+            )}
+
+            <DropZone
+              accept=".csv,text/csv"
+              type="file"
+              allowMultiple={false}
+              onDrop={(files) => handleImportFile(files)}
+            >
+              {importFileName ? (
+                <div style={{ padding: "16px" }}>
+                  <Text as="p" alignment="center">{importFileName}</Text>
+                </div>
+              ) : (
+                <DropZone.FileUpload actionHint="Accepts .csv" />
+              )}
+            </DropZone>
+
+            {costImportPreview && importCsv && (
+              <BlockStack gap="400">
+                <InlineStack gap="200">
+                  <Badge tone="success">{`${costImportPreview.matched.length} matched`}</Badge>
+                  <Badge tone={costImportPreview.unmatched.length ? "warning" : undefined}>
+                    {`${costImportPreview.unmatched.length} not found`}
+                  </Badge>
+                  <Badge tone={costImportPreview.invalid.length ? "critical" : undefined}>
+                    {`${costImportPreview.invalid.length} invalid`}
+                  </Badge>
+                </InlineStack>
+
+                {costImportPreview.matched.length > 0 && (
+                  <DataTable
+                    columnContentTypes={["text", "text", "numeric", "numeric", "numeric", "numeric", "text"]}
+                    headings={["Variant", "SKU", "Current Cost", "New Cost", "Freight", "Duty", "Effective From"]}
+                    rows={costImportPreview.matched.map((row) => [
+                      row.title,
+                      row.sku || "-",
+                      row.currentCost !== null ? formatCurrency(row.currentCost) : "-",
+                      formatCurrency(row.unitCost),
+                      row.freightCost !== undefined ? formatCurrency(row.freightCost) : "Unchanged",
+                      row.dutyCost !== undefined ? formatCurrency(row.dutyCost) : "Unchanged",
+                      row.effectiveDate || "Now",
+                    ])}
+                  />
+                )}
+
+                {(costImportPreview.unmatched.length > 0 || costImportPreview.invalid.length > 0) && (
+                  <Banner tone="warning" title="These rows will be skipped">
+                    {costImportPreview.invalid.map((row) => (
+                      <p key={`invalid-${row.line}`}>Line {row.line}: {row.error}</p>
+                    ))}
+                    {costImportPreview.unmatched.map((row) => (
+                      <p key={`unmatched-${row.line}`}>
+                        Line {row.line}: no variant found for {row.variantId || row.sku}
+                      </p>
+                    ))}
+                  </Banner>
+                )}
+
+                <InlineStack align="space-between" blockAlign="end">
+                  <div style={{ minWidth: "280px" }}>
+                    <Select
+                      label="Save costs to"
+                      options={[
+                        { label: "This app only", value: "app" },
+                        { label: "This app and Shopify (cost per item)", value: "shopify" },
+                      ]}
+                      value={importTarget}
+                      onChange={setImportTarget}
+                      helpText="Freight and duty are always kept in this app"
+                    />
+                  </div>
+                  <Button
+                    variant="primary"
+                    onClick={handleApplyCostImport}
+                    disabled={costImportPreview.matched.length === 0}
+                    loading={isLoading}
+                  >
+                    {`Import ${costImportPreview.matched.length} cost${costImportPreview.matched.length === 1 ? "" : "s"}`}
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            )}
+          </BlockStack>
+        </Card>
+
+        {/* Unit Cost History */}
+        <Card>
+          <BlockStack gap="400">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                Unit Cost History
+              </Text>
+              <Button onClick={() => setShowVariantCostModal(true)}>
+                Add Backdated Cost
+              </Button>
+            </InlineStack>
+            <Text as="p" tone="subdued">
+              COGS for each order uses the unit cost in effect when it was placed. Cost changes in Shopify are recorded automatically; add a backdated cost to correct earlier periods.
+            </Text>
+
+            {data.variantCosts.length > 0 ? (
+              <DataTable
+                columnContentTypes={["text", "text", "numeric", "text", "text"]}
+                headings={["Effective From", "Variant", "Landed Cost", "Source", "Actions"]}
+                rows={data.variantCosts.map((entry) => [
+                  formatDate(entry.effectiveFrom),
+                  entry.sku || entry.variantId.replace("gid://shopify/ProductVariant/", ""),
+                  formatCurrency(entry.unitCost + entry.freightCost + entry.dutyCost),
+                  <Badge key={entry.id}>{variantCostSourceLabels[entry.source] || entry.source}</Badge>,
+                  <Button
+                    key={entry.id}
+                    size="slim"
+                    tone="critical"
+                    onClick={() => handleDeleteVariantCost(entry.id)}
+                  >
+                    Delete
+                  </Button>,
+                ])}
+              />
+            ) : (
+              <Text as="p" tone="subdued">
+                No unit cost changes recorded yet. Until a cost changes, orders use the cost each variant had when the app was installed.
               </Text>
             )}
           </BlockStack>
@@ -327,7 +1470,7 @@ export default function CostsPage() {
       {/* Marketing Cost Modal */}
       <Modal
         open={showMarketingModal}
-        onClose={() => setShowMarketingModal(false)}
+        onClose={closeMarketingModal}
         title="Add Marketing Cost"
         primaryAction={{
           content: "Add Cost",
@@ -337,7 +1480,7 @@ export default function CostsPage() {
         secondaryActions={[
           {
             content: "Cancel",
-            onAction: () => setShowMarketingModal(false),
+            onAction: closeMarketingModal,
           },
         ]}
       >
@@ -345,21 +1488,17 @@ export default function CostsPage() {
           <FormLayout>
             <Select
               label="Platform"
-              options={[
-                { label: "Manual", value: "manual" },
-                { label: "Facebook Ads", value: "facebook" },
-                { label: "Google Ads", value: "google" },
-                { label: "TikTok Ads", value: "tiktok" },
-                { label: "Influencer", value: "influencer" },
-              ]}
+              options={MARKETING_PLATFORM_OPTIONS}
               value={marketingPlatform}
               onChange={setMarketingPlatform}
+              error={marketingErrors.platform}
             />
             <TextField
               label="Amount"
               type="number"
               value={marketingAmount}
               onChange={setMarketingAmount}
+              error={marketingErrors.amount}
               autoComplete="off"
               prefix="$"
             />
@@ -368,12 +1507,14 @@ export default function CostsPage() {
               type="date"
               value={marketingDate}
               onChange={setMarketingDate}
+              error={marketingErrors.date}
               autoComplete="off"
             />
             <TextField
               label="Description (optional)"
               value={marketingDescription}
               onChange={setMarketingDescription}
+              error={marketingErrors.description}
               autoComplete="off"
               multiline={2}
             />
@@ -384,17 +1525,17 @@ export default function CostsPage() {
       {/* Fixed Cost Modal */}
       <Modal
         open={showFixedModal}
-        onClose={() => setShowFixedModal(false)}
-        title="Add Fixed Cost"
+        onClose={closeFixedModal}
+        title={editingFixedCostId ? "Edit Fixed Cost" : "Add Fixed Cost"}
         primaryAction={{
-          content: "Add Cost",
-          onAction: handleAddFixedCost,
+          content: editingFixedCostId ? "Save Cost" : "Add Cost",
+          onAction: handleSaveFixedCost,
           loading: isLoading,
         }}
         secondaryActions={[
           {
             content: "Cancel",
-            onAction: () => setShowFixedModal(false),
+            onAction: closeFixedModal,
           },
         ]}
       >
@@ -402,19 +1543,16 @@ export default function CostsPage() {
           <FormLayout>
             <Select
               label="Category"
-              options={[
-                { label: "Software", value: "software" },
-                { label: "Rent", value: "rent" },
-                { label: "Salary", value: "salary" },
-                { label: "Other", value: "other" },
-              ]}
+              options={fixedCategoryOptions}
               value={fixedCategory}
               onChange={setFixedCategory}
+              error={fixedErrors.category}
             />
             <TextField
               label="Name"
               value={fixedName}
               onChange={setFixedName}
+              error={fixedErrors.name}
               autoComplete="off"
               placeholder="e.g., Shopify subscription"
             />
@@ -423,6 +1561,7 @@ export default function CostsPage() {
               type="number"
               value={fixedAmount}
               onChange={setFixedAmount}
+              error={fixedErrors.amount}
               autoComplete="off"
               prefix="$"
             />
@@ -431,17 +1570,71 @@ export default function CostsPage() {
               type="date"
               value={fixedStartDate}
               onChange={setFixedStartDate}
+              error={fixedErrors.startDate}
               autoComplete="off"
             />
             <Select
-              label="Type"
+              label="Frequency"
               options={[
-                { label: "Monthly Recurring", value: "true" },
-                { label: "One-time", value: "false" },
+                { label: "One-time", value: "one_time" },
+                { label: "Weekly", value: "weekly" },
+                { label: "Monthly", value: "monthly" },
+                { label: "Quarterly", value: "quarterly" },
+                { label: "Annual", value: "annual" },
+                { label: "Every N days", value: "custom" },
               ]}
-              value={fixedRecurring}
-              onChange={setFixedRecurring}
+              value={fixedFrequency}
+              onChange={setFixedFrequency}
+              error={fixedErrors.frequency}
             />
+            {fixedFrequency === "custom" && (
+              <TextField
+                label="Days between charges"
+                type="number"
+                value={fixedIntervalDays}
+                onChange={setFixedIntervalDays}
+                error={fixedErrors.intervalDays}
+                autoComplete="off"
+                suffix="days"
+              />
+            )}
+            {fixedFrequency !== "one_time" && (
+              <TextField
+                label="End Date (optional)"
+                type="date"
+                value={fixedEndDate}
+                onChange={setFixedEndDate}
+                error={fixedErrors.endDate}
+                autoComplete="off"
+                helpText="Last day the cost applies. Leave blank if it's ongoing."
+              />
+            )}
+            {["monthly", "quarterly", "annual"].includes(fixedFrequency) && (
+              <TextField
+                label="Billing day (optional)"
+                type="number"
+                value={fixedBillingDay}
+                onChange={setFixedBillingDay}
+                error={fixedErrors.billingDay}
+                autoComplete="off"
+                helpText="Day of the month you're charged. Defaults to the start date's day; short months use their last day."
+              />
+            )}
+            {fixedFrequency !== "one_time" && (
+              <Select
+                label="Accounting"
+                options={[
+                  { label: "Spread evenly over each day", value: "spread" },
+                  { label: "Recognize when charged", value: "incurred" },
+                ]}
+                value={fixedRecognition}
+                onChange={setFixedRecognition}
+                error={fixedErrors.recognition}
+                helpText={fixedRecognition === "spread"
+                  ? "Each day carries its share of the charge for its billing period"
+                  : "The full amount counts on each billing date"}
+              />
+            )}
           </FormLayout>
         </Modal.Section>
       </Modal>
@@ -449,7 +1642,7 @@ export default function CostsPage() {
       {/* Manual Cost Modal */}
       <Modal
         open={showManualModal}
-        onClose={() => setShowManualModal(false)}
+        onClose={closeManualModal}
         title="Add Manual Cost"
         primaryAction={{
           content: "Add Cost",
@@ -459,7 +1652,7 @@ export default function CostsPage() {
         secondaryActions={[
           {
             content: "Cancel",
-            onAction: () => setShowManualModal(false),
+            onAction: closeManualModal,
           },
         ]}
       >
@@ -467,18 +1660,16 @@ export default function CostsPage() {
           <FormLayout>
             <Select
               label="Category"
-              options={[
-                { label: "Shipping", value: "shipping" },
-                { label: "Cost of Goods Sold (COGS)", value: "cogs" },
-                { label: "Other", value: "other" },
-              ]}
+              options={manualCategoryOptions}
               value={manualCategory}
               onChange={setManualCategory}
+              error={manualErrors.category}
             />
             <TextField
               label="Description"
               value={manualDescription}
               onChange={setManualDescription}
+              error={manualErrors.description}
               autoComplete="off"
               placeholder="e.g., Extra shipping labels"
             />
@@ -487,6 +1678,7 @@ export default function CostsPage() {
               type="number"
               value={manualAmount}
               onChange={setManualAmount}
+              error={manualErrors.amount}
               autoComplete="off"
               prefix="$"
             />
@@ -495,7 +1687,261 @@ export default function CostsPage() {
               type="date"
               value={manualDate}
               onChange={setManualDate}
+              error={manualErrors.date}
+              autoComplete="off"
+            />
+          </FormLayout>
+        </Modal.Section>
+      </Modal>
+
+      {/* Cost Category Modal */}
+      <Modal
+        open={showCostCategoryModal}
+        onClose={closeCostCategoryModal}
+        title="Add Cost Category"
+        primaryAction={{
+          content: "Add Category",
+          onAction: handleAddCostCategory,
+          loading: isLoading,
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: closeCostCategoryModal,
+          },
+        ]}
+      >
+        <Modal.Section>
+          <FormLayout>
+            <TextField
+              label="Name"
+              value={costCategoryName}
+              onChange={setCostCategoryName}
+              error={costCategoryErrors.name}
+              autoComplete="off"
+              placeholder="e.g., 3PL fees"
+            />
+            <Select
+              label="Counts in"
+              options={COST_GROUP_OPTIONS}
+              value={costCategoryGroup}
+              onChange={setCostCategoryGroup}
+              error={costCategoryErrors.group}
+              helpText="Decides which profit the costs come out of, whether they're entered as fixed or manual costs"
+            />
+            <Select
+              label="Color"
+              options={COST_CATEGORY_COLORS}
+              value={costCategoryColor}
+              onChange={setCostCategoryColor}
+              error={costCategoryErrors.color}
+            />
+          </FormLayout>
+        </Modal.Section>
+      </Modal>
+
+      {/* Shipping Rule Modal */}
+      <Modal
+        open={showShippingRuleModal}
+        onClose={closeShippingRuleModal}
+        title="Add Shipping Rule"
+        primaryAction={{
+          content: "Add Rule",
+          onAction: handleAddShippingRule,
+          loading: isLoading,
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: closeShippingRuleModal,
+          },
+        ]}
+      >
+        <Modal.Section>
+          <FormLayout>
+            <Select
+              label="Type"
+              options={[
+                { label: "Per order", value: "per_order" },
+                { label: "Per item", value: "per_item" },
+                { label: "Weight band", value: "weight" },
+                { label: "Destination zone", value: "zone" },
+              ]}
+              value={shippingRuleType}
+              onChange={setShippingRuleType}
+              error={shippingRuleErrors.type}
+            />
+            <TextField
+              label={shippingRuleType === "per_item" ? "Amount per item" : "Amount"}
+              type="number"
+              value={shippingRuleAmount}
+              onChange={setShippingRuleAmount}
+              error={shippingRuleErrors.amount}
+              autoComplete="off"
+              prefix="$"
+            />
+            {shippingRuleType === "weight" && (
+              <FormLayout.Group>
+                <TextField
+                  label="From weight"
+                  type="number"
+                  value={shippingRuleMinWeight}
+                  onChange={setShippingRuleMinWeight}
+                  error={shippingRuleErrors.minWeight}
+                  autoComplete="off"
+                  suffix="g"
+                />
+                <TextField
+                  label="Up to weight"
+                  type="number"
+                  value={shippingRuleMaxWeight}
+                  onChange={setShippingRuleMaxWeight}
+                  error={shippingRuleErrors.maxWeight}
+                  autoComplete="off"
+                  suffix="g"
+                  helpText="Leave blank for no upper limit"
+                />
+              </FormLayout.Group>
+            )}
+            {shippingRuleType === "zone" && (
+              <TextField
+                label="Countries"
+                value={shippingRuleCountries}
+                onChange={setShippingRuleCountries}
+                error={shippingRuleErrors.countries}
+                autoComplete="off"
+                placeholder="e.g., CA, MX"
+                helpText="Two-letter country codes, separated by commas"
+              />
+            )}
+          </FormLayout>
+        </Modal.Section>
+      </Modal>
+
+      {/* Landed Cost Rule Modal */}
+      <Modal
+        open={showLandedCostModal}
+        onClose={closeLandedCostModal}
+        title="Add Landed Cost"
+        primaryAction={{
+          content: "Add Rule",
+          onAction: handleAddLandedCostRule,
+          loading: isLoading,
+          disabled: landedCostScope !== "all" && !landedCostTarget,
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: closeLandedCostModal,
+          },
+        ]}
+      >
+        <Modal.Section>
+          <FormLayout>
+            <TextField
+              label="Name"
+              value={landedCostName}
+              onChange={setLandedCostName}
+              error={landedCostErrors.name}
+              autoComplete="off"
+              placeholder="e.g., Sea freight from supplier"
+            />
+            <Select
+              label="Type"
+              options={[
+                { label: "Inbound freight per unit", value: "freight_per_unit" },
+                { label: "Import duty (% of product cost)", value: "duty_percent" },
+                { label: "Packaging per order", value: "packaging_per_order" },
+              ]}
+              value={landedCostType}
+              onChange={setLandedCostType}
+              error={landedCostErrors.type}
+            />
+            <TextField
+              label={landedCostType === "duty_percent" ? "Duty rate" : "Amount"}
+              type="number"
+              value={landedCostAmount}
+              onChange={setLandedCostAmount}
+              error={landedCostErrors.amount}
+              autoComplete="off"
+              prefix={landedCostType === "duty_percent" ? undefined : "$"}
+              suffix={landedCostType === "duty_percent" ? "%" : undefined}
+            />
+            <Select
+              label="Applies to"
+              options={[
+                { label: "All products", value: "all" },
+                { label: "One product", value: "product" },
+                { label: "A collection", value: "collection" },
+              ]}
+              value={landedCostScope}
+              onChange={(value) => {
+                setLandedCostScope(value);
+                setLandedCostTarget(null);
+              }}
+              error={landedCostErrors.scope}
+              helpText={landedCostType === "packaging_per_order"
+                ? "Charged once for each order containing a matching product"
+                : undefined}
+            />
+            {landedCostScope !== "all" && (
+              <InlineStack gap="200" blockAlign="center">
+                <Button onClick={handleChooseLandedCostTarget}>
+                  {landedCostScope === "collection" ? "Choose collection" : "Choose product"}
+                </Button>
+                <Text as="span" tone={landedCostErrors.targetId && !landedCostTarget ? "critical" : "subdued"}>
+                  {landedCostTarget?.title || landedCostErrors.targetId || "Nothing selected"}
+                </Text>
+              </InlineStack>
+            )}
+          </FormLayout>
+        </Modal.Section>
+      </Modal>
+
+      {/* Variant Cost Modal */}
+      <Modal
+        open={showVariantCostModal}
+        onClose={closeVariantCostModal}
+        title="Add Backdated Cost"
+        primaryAction={{
+          content: "Add Cost",
+          onAction: handleAddVariantCost,
+          loading: isLoading,
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: closeVariantCostModal,
+          },
+        ]}
+      >
+        <Modal.Section>
+          <FormLayout>
+            <TextField
+              label="Variant"
+              value={variantCostVariant}
+              onChange={setVariantCostVariant}
+              error={variantCostErrors.variant}
+              autoComplete="off"
+              placeholder="SKU or variant ID"
+            />
+            <TextField
+              label="Unit cost"
+              type="number"
+              value={variantCostAmount}
+              onChange={setVariantCostAmount}
+              error={variantCostErrors.unitCost}
+              autoComplete="off"
+              prefix="$"
+            />
+            <TextField
+              label="Effective from"
+              type="date"
+              value={variantCostDate}
+              onChange={setVariantCostDate}
+              error={variantCostErrors.effectiveFrom}
               autoComplete="off"
+              helpText="Orders placed on or after this date use this cost, until the next change"
             />
           </FormLayout>
         </Modal.Section>
@@ -0,0 +1,301 @@
+import { Fragment, useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useNavigate } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Banner,
+  Select,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { getDateRangeForPeriod, getShopTimezone } from "../utils/shopify-data";
+import { getAdPerformance } from "../utils/database";
+import { buildCampaignPerformance } from "../utils/campaign-performance";
+import type { CampaignPerformance, CampaignPerformanceRow } from "../utils/campaign-performance";
+import { getAdAccountPlatform } from "../utils/ad-platforms";
+import { isLedgerCovering } from "../utils/order-ledger";
+import { loadMetricsContext, loadPeriodMetrics } from "../utils/period-metrics";
+
+const PERIOD_OPTIONS = [
+  { label: "Today", value: "today" },
+  { label: "Yesterday", value: "yesterday" },
+  { label: "Last 7 days", value: "last7days" },
+  { label: "Last 30 days", value: "last30days" },
+  { label: "Last 60 days", value: "last60days" },
+  { label: "Last 90 days", value: "last90days" },
+  { label: "This month", value: "thisMonth" },
+  { label: "Last month", value: "lastMonth" },
+];
+
+type SortKey = "name" | "spend" | "impressions" | "clicks" | "purchases" | "purchaseValue" | "roas" | "contribution" | "contributionMargin";
+
+const COLUMNS: Array<{ key: SortKey; label: string; numeric: boolean }> = [
+  { key: "name", label: "Campaign", numeric: false },
+  { key: "spend", label: "Spend", numeric: true },
+  { key: "impressions", label: "Impressions", numeric: true },
+  { key: "clicks", label: "Clicks", numeric: true },
+  { key: "purchases", label: "Purchases", numeric: true },
+  { key: "purchaseValue", label: "Purchase Value", numeric: true },
+  { key: "roas", label: "Platform ROAS", numeric: true },
+  { key: "contribution", label: "Contribution", numeric: true },
+  { key: "contributionMargin", label: "Contribution Margin", numeric: true },
+];
+
+const EMPTY_SUMMARY = {
+  adSpend: 0,
+  purchaseValue: 0,
+  platformRoas: 0,
+  netRevenue: 0,
+  marketingCosts: 0,
+  blendedRoas: 0,
+  grossMargin: 0,
+  contributionProfit: 0,
+  contributionMargin: 0,
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const period = url.searchParams.get("period") || "last30days";
+
+  const shopTimezone = await getShopTimezone(admin);
+  const { startDate, endDate } = getDateRangeForPeriod(period, shopTimezone);
+
+  try {
+    // Same pipeline as the dashboard: the ledger once it covers the period, live queries until then
+    const useLedger = await isLedgerCovering(session.shop, startDate);
+    const context = await loadMetricsContext(admin, session.shop, useLedger);
+    const { metrics } = await loadPeriodMetrics(admin, session.shop, { startDate, endDate }, context);
+
+    const campaigns = buildCampaignPerformance(
+      await getAdPerformance(session.shop, startDate, endDate),
+      metrics.grossMargin
+    );
+    const adSpend = campaigns.reduce((sum, campaign) => sum + campaign.spend, 0);
+    const purchaseValue = campaigns.reduce((sum, campaign) => sum + campaign.purchaseValue, 0);
+
+    return json({
+      campaigns,
+      summary: {
+        adSpend,
+        purchaseValue,
+        platformRoas: adSpend > 0 ? purchaseValue / adSpend : 0,
+        netRevenue: metrics.netRevenue,
+        marketingCosts: metrics.marketingCosts,
+        blendedRoas: metrics.marketingCosts > 0 ? metrics.netRevenue / metrics.marketingCosts : 0,
+        grossMargin: metrics.grossMargin,
+        contributionProfit: metrics.contributionProfit,
+        contributionMargin: metrics.contributionMargin,
+      },
+      period,
+    });
+  } catch (error) {
+    console.error("Error building marketing report:", error);
+    return json({
+      campaigns: [] as CampaignPerformance[],
+      summary: EMPTY_SUMMARY,
+      period,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+export default function MarketingPage() {
+  const data = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+  const { campaigns, summary, period } = data;
+  const error = "error" in data ? String(data.error) : null;
+
+  const [sortKey, setSortKey] = useState<SortKey>("spend");
+  const [sortDirection, setSortDirection] = useState<"ascending" | "descending">("descending");
+  const [expandedCampaigns, setExpandedCampaigns] = useState<string[]>([]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const formatNumber = (value: number) => {
+    return new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(value);
+  };
+
+  const sortRows = <T extends CampaignPerformanceRow>(rows: T[]): T[] => {
+    return [...rows].sort((a, b) => {
+      const result = sortKey === "name"
+        ? a.name.localeCompare(b.name)
+        : a[sortKey] - b[sortKey];
+      return sortDirection === "ascending" ? result : -result;
+    });
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "ascending" ? "descending" : "ascending");
+    } else {
+      setSortKey(key);
+      setSortDirection(key === "name" ? "ascending" : "descending");
+    }
+  };
+
+  const toggleCampaign = (id: string) => {
+    setExpandedCampaigns((current) =>
+      current.includes(id) ? current.filter((campaignId) => campaignId !== id) : [...current, id]
+    );
+  };
+
+  const cellStyle = (numeric: boolean) => ({
+    padding: "12px",
+    textAlign: numeric ? ("right" as const) : ("left" as const),
+    borderBottom: "1px solid #e1e3e5",
+    whiteSpace: "nowrap" as const,
+  });
+
+  const renderValues = (row: CampaignPerformanceRow) => (
+    <>
+      <td style={cellStyle(true)}>{formatCurrency(row.spend)}</td>
+      <td style={cellStyle(true)}>{formatNumber(row.impressions)}</td>
+      <td style={cellStyle(true)}>{formatNumber(row.clicks)}</td>
+      <td style={cellStyle(true)}>{formatNumber(row.purchases)}</td>
+      <td style={cellStyle(true)}>{formatCurrency(row.purchaseValue)}</td>
+      <td style={cellStyle(true)}>{row.roas.toFixed(2)}x</td>
+      <td style={cellStyle(true)}>{formatCurrency(row.contribution)}</td>
+      <td style={cellStyle(true)}>{row.contributionMargin.toFixed(1)}%</td>
+    </>
+  );
+
+  const summaryCards = [
+    { label: "Ad Spend", value: formatCurrency(summary.adSpend), detail: "Synced campaigns" },
+    { label: "Platform ROAS", value: `${summary.platformRoas.toFixed(2)}x`, detail: `${formatCurrency(summary.purchaseValue)} reported purchase value` },
+    { label: "Blended ROAS", value: `${summary.blendedRoas.toFixed(2)}x`, detail: `${formatCurrency(summary.netRevenue)} net revenue over ${formatCurrency(summary.marketingCosts)} marketing costs` },
+    { label: "Blended Contribution Margin", value: `${summary.contributionMargin.toFixed(1)}%`, detail: `${formatCurrency(summary.contributionProfit)} contribution profit` },
+  ];
+
+  return (
+    <Page
+      title="Marketing"
+      subtitle="Spend, platform-reported results and contribution by campaign and ad set"
+    >
+      <BlockStack gap="500">
+        {error && (
+          <Banner tone="critical" title="Couldn't load marketing data">
+            <p>{error}</p>
+          </Banner>
+        )}
+
+        <Layout>
+          {summaryCards.map((card) => (
+            <Layout.Section key={card.label} variant="oneThird">
+              <Card>
+                <BlockStack gap="200">
+                  <Text as="h3" variant="headingSm" tone="subdued">
+                    {card.label}
+                  </Text>
+                  <Text as="p" variant="headingLg">
+                    {card.value}
+                  </Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {card.detail}
+                  </Text>
+                </BlockStack>
+              </Card>
+            </Layout.Section>
+          ))}
+        </Layout>
+
+        <Card>
+          <BlockStack gap="400">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                Campaigns
+              </Text>
+              <div style={{ minWidth: "180px" }}>
+                <Select
+                  label="Period"
+                  labelHidden
+                  options={PERIOD_OPTIONS}
+                  value={period}
+                  onChange={(value) => navigate(`/app/marketing?period=${value}`)}
+                />
+              </div>
+            </InlineStack>
+            <Text as="p" variant="bodySm" tone="subdued">
+              {`Purchases and purchase value are as reported by each platform. Contribution applies your ${summary.grossMargin.toFixed(1)}% gross margin for the period to purchase value, less spend. Click a campaign to see its ad sets.`}
+            </Text>
+
+            {campaigns.length > 0 ? (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      {COLUMNS.map((column) => (
+                        <th key={column.key} style={cellStyle(column.numeric)}>
+                          <Button variant="plain" onClick={() => handleSort(column.key)}>
+                            {`${column.label}${sortKey === column.key ? (sortDirection === "ascending" ? " ↑" : " ↓") : ""}`}
+                          </Button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortRows(campaigns).map((campaign) => {
+                      const expanded = expandedCampaigns.includes(campaign.id);
+                      return (
+                        <Fragment key={campaign.id}>
+                          <tr>
+                            <td style={cellStyle(false)}>
+                              <InlineStack gap="200" blockAlign="center" wrap={false}>
+                                {campaign.adSets.length > 0 ? (
+                                  <Button
+                                    variant="plain"
+                                    disclosure={expanded ? "up" : "down"}
+                                    onClick={() => toggleCampaign(campaign.id)}
+                                  >
+                                    {campaign.name}
+                                  </Button>
+                                ) : (
+                                  <Text as="span" variant="bodyMd">
+                                    {campaign.name}
+                                  </Text>
+                                )}
+                                <Badge>{getAdAccountPlatform(campaign.platform)?.label || campaign.platform}</Badge>
+                              </InlineStack>
+                            </td>
+                            {renderValues(campaign)}
+                          </tr>
+                          {expanded && sortRows(campaign.adSets).map((adSet) => (
+                            <tr key={adSet.id} style={{ backgroundColor: "#f6f6f7" }}>
+                              <td style={{ ...cellStyle(false), paddingLeft: "32px" }}>
+                                <Text as="span" variant="bodyMd">
+                                  {adSet.name}
+                                </Text>
+                              </td>
+                              {renderValues(adSet)}
+                            </tr>
+                          ))}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <Text as="p" tone="subdued">
+                No campaign data for this period. Campaign results sync from connected Facebook and Google Ads accounts.
+              </Text>
+            )}
+          </BlockStack>
+        </Card>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -0,0 +1,276 @@
+import { Fragment, useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useNavigate } from "@remix-run/react";
+import {
+  Page,
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Banner,
+  Select,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  fetchOrdersData,
+  fetchProductCosts,
+  fetchProductSales,
+  getDateRangeForPeriod,
+  getShopCountry,
+  getShopTimezone,
+} from "../utils/shopify-data";
+import { getPaymentGatewayFees, getSettings, getShippingCostRules } from "../utils/database";
+import { estimateTransactionFees } from "../utils/profit-calculator";
+import { buildProductProfitability } from "../utils/product-profitability";
+import type { ProductProfitability, ProfitabilityRow } from "../utils/product-profitability";
+import {
+  getLedgerProductCosts,
+  getLedgerProductSales,
+  getLedgerSalesData,
+  isLedgerCovering,
+} from "../utils/order-ledger";
+import { loadCostHistory } from "../utils/cost-history";
+
+const PERIOD_OPTIONS = [
+  { label: "Today", value: "today" },
+  { label: "Yesterday", value: "yesterday" },
+  { label: "Last 7 days", value: "last7days" },
+  { label: "Last 30 days", value: "last30days" },
+  { label: "Last 60 days", value: "last60days" },
+  { label: "Last 90 days", value: "last90days" },
+  { label: "This month", value: "thisMonth" },
+  { label: "Last month", value: "lastMonth" },
+];
+
+type SortKey = "title" | "unitsSold" | "revenue" | "cogs" | "fees" | "shipping" | "grossProfit" | "margin";
+
+const COLUMNS: Array<{ key: SortKey; label: string; numeric: boolean }> = [
+  { key: "title", label: "Product", numeric: false },
+  { key: "unitsSold", label: "Units Sold", numeric: true },
+  { key: "revenue", label: "Revenue", numeric: true },
+  { key: "cogs", label: "COGS", numeric: true },
+  { key: "fees", label: "Fees", numeric: true },
+  { key: "shipping", label: "Shipping", numeric: true },
+  { key: "grossProfit", label: "Gross Profit", numeric: true },
+  { key: "margin", label: "Margin", numeric: true },
+];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const period = url.searchParams.get("period") || "last30days";
+
+  const shopTimezone = await getShopTimezone(admin);
+  const { startDate, endDate } = getDateRangeForPeriod(period, shopTimezone);
+
+  try {
+    const settings = await getSettings(session.shop);
+    const profitSettings = { ...settings, gatewayFees: await getPaymentGatewayFees(session.shop) };
+    const shippingRules = await getShippingCostRules(session.shop);
+    const shopCountry = await getShopCountry(admin);
+    const costLookup = await loadCostHistory(session.shop);
+
+    // Same data sources as the dashboard: the ledger once it covers the period, live queries until then
+    const useLedger = await isLedgerCovering(session.shop, startDate);
+
+    const lines = useLedger
+      ? await getLedgerProductSales(session.shop, startDate, endDate, costLookup)
+      : await fetchProductSales(admin, startDate, endDate, costLookup);
+    const salesData = useLedger
+      ? await getLedgerSalesData(session.shop, startDate, endDate, settings.revenueDefinition, shopCountry)
+      : await fetchOrdersData(admin, startDate, endDate, settings.revenueDefinition, shopCountry);
+    const { shippingCosts } = useLedger
+      ? await getLedgerProductCosts(session.shop, startDate, endDate, shippingRules, costLookup)
+      : await fetchProductCosts(admin, startDate, endDate, shippingRules, costLookup);
+
+    const transactionFees = salesData.transactionFees
+      + estimateTransactionFees(salesData.chargesWithoutFees, profitSettings);
+
+    const products = buildProductProfitability(lines, { transactionFees, shippingCosts });
+
+    return json({ products, period });
+  } catch (error) {
+    console.error("Error building product report:", error);
+    return json({
+      products: [] as ProductProfitability[],
+      period,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+export default function ProductsPage() {
+  const data = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+  const { products, period } = data;
+  const error = "error" in data ? String(data.error) : null;
+
+  const [sortKey, setSortKey] = useState<SortKey>("grossProfit");
+  const [sortDirection, setSortDirection] = useState<"ascending" | "descending">("descending");
+  const [expandedProducts, setExpandedProducts] = useState<string[]>([]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const sortRows = <T extends ProfitabilityRow>(rows: T[]): T[] => {
+    return [...rows].sort((a, b) => {
+      const result = sortKey === "title"
+        ? a.title.localeCompare(b.title)
+        : a[sortKey] - b[sortKey];
+      return sortDirection === "ascending" ? result : -result;
+    });
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "ascending" ? "descending" : "ascending");
+    } else {
+      setSortKey(key);
+      setSortDirection(key === "title" ? "ascending" : "descending");
+    }
+  };
+
+  const toggleProduct = (id: string) => {
+    setExpandedProducts((current) =>
+      current.includes(id) ? current.filter((productId) => productId !== id) : [...current, id]
+    );
+  };
+
+  const missingCostCount = products
+    .flatMap((product) => product.variants)
+    .filter((variant) => variant.missingCost).length;
+
+  const cellStyle = (numeric: boolean) => ({
+    padding: "12px",
+    textAlign: numeric ? ("right" as const) : ("left" as const),
+    borderBottom: "1px solid #e1e3e5",
+    whiteSpace: "nowrap" as const,
+  });
+
+  const renderValues = (row: ProfitabilityRow) => (
+    <>
+      <td style={cellStyle(true)}>{row.unitsSold}</td>
+      <td style={cellStyle(true)}>{formatCurrency(row.revenue)}</td>
+      <td style={cellStyle(true)}>{formatCurrency(row.cogs)}</td>
+      <td style={cellStyle(true)}>{formatCurrency(row.fees)}</td>
+      <td style={cellStyle(true)}>{formatCurrency(row.shipping)}</td>
+      <td style={cellStyle(true)}>{formatCurrency(row.grossProfit)}</td>
+      <td style={cellStyle(true)}>{row.margin.toFixed(1)}%</td>
+    </>
+  );
+
+  return (
+    <Page
+      title="Product Profitability"
+      subtitle="Units, revenue, costs and gross profit by product and variant"
+    >
+      <BlockStack gap="500">
+        {error && (
+          <Banner tone="critical" title="Couldn't load product data">
+            <p>{error}</p>
+          </Banner>
+        )}
+
+        {missingCostCount > 0 && (
+          <Banner tone="warning" title={`${missingCostCount} variant${missingCostCount === 1 ? "" : "s"} sold without a unit cost`}>
+            <p>
+              Their COGS counts as zero, so gross profit is overstated. Set a cost per item on these variants in Shopify.
+            </p>
+          </Banner>
+        )}
+
+        <Card>
+          <BlockStack gap="400">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                Products
+              </Text>
+              <div style={{ minWidth: "180px" }}>
+                <Select
+                  label="Period"
+                  labelHidden
+                  options={PERIOD_OPTIONS}
+                  value={period}
+                  onChange={(value) => navigate(`/app/products?period=${value}`)}
+                />
+              </div>
+            </InlineStack>
+            <Text as="p" variant="bodySm" tone="subdued">
+              Transaction fees are allocated by share of revenue and shipping costs by share of shipped units. Click a product to see its variants.
+            </Text>
+
+            {products.length > 0 ? (
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      {COLUMNS.map((column) => (
+                        <th key={column.key} style={cellStyle(column.numeric)}>
+                          <Button variant="plain" onClick={() => handleSort(column.key)}>
+                            {`${column.label}${sortKey === column.key ? (sortDirection === "ascending" ? " ↑" : " ↓") : ""}`}
+                          </Button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortRows(products).map((product) => {
+                      const expanded = expandedProducts.includes(product.id);
+                      return (
+                        <Fragment key={product.id}>
+                          <tr>
+                            <td style={cellStyle(false)}>
+                              <InlineStack gap="200" blockAlign="center" wrap={false}>
+                                <Button
+                                  variant="plain"
+                                  disclosure={expanded ? "up" : "down"}
+                                  onClick={() => toggleProduct(product.id)}
+                                >
+                                  {product.title}
+                                </Button>
+                                {product.missingCost && <Badge tone="warning">Missing cost</Badge>}
+                              </InlineStack>
+                            </td>
+                            {renderValues(product)}
+                          </tr>
+                          {expanded && sortRows(product.variants).map((variant) => (
+                            <tr key={variant.id} style={{ backgroundColor: "#f6f6f7" }}>
+                              <td style={{ ...cellStyle(false), paddingLeft: "32px" }}>
+                                <InlineStack gap="200" blockAlign="center" wrap={false}>
+                                  <Text as="span" variant="bodyMd">
+                                    {variant.title}
+                                  </Text>
+                                  <Text as="span" variant="bodySm" tone="subdued">
+                                    {variant.sku || "No SKU"}
+                                  </Text>
+                                  {variant.missingCost && <Badge tone="warning">No unit cost</Badge>}
+                                </InlineStack>
+                              </td>
+                              {renderValues(variant)}
+                            </tr>
+                          ))}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <Text as="p" tone="subdued">
+                No products sold in this period.
+              </Text>
+            )}
+          </BlockStack>
+        </Card>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData, useSubmit, useNavigation } from "@remix-run/react";
+import { useActionData, useLoaderData, useSubmit, useNavigation } from "@remix-run/react";
 import {
   Page,
   Layout,
@@ -13,35 +13,55 @@ import {
   TextField,
   FormLayout,
   Badge,
+  Select,
+  Modal,
+  ChoiceList,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
-import { getSettings, prisma } from "../utils/database";
+import {
+  getMetricTargets,
+  getPaymentGatewayFees,
+  getSettings,
+  prisma,
+  saveMetricTargets,
+  savePaymentGatewayFee,
+  saveSettings,
+} from "../utils/database";
+import { syncAdPlatform } from "../utils/ad-connector";
+import { createOAuthState } from "../utils/oauth-state";
+import { AD_PLATFORM_CONNECTORS } from "../utils/ad-platform-sync";
+import {
+  AD_PLATFORM_CONNECTIONS,
+  SUBSCRIPTION_TOOLS,
+  getAdAccountPlatform,
+  getAdPlatformConnection,
+  getSelectedAdAccountIds,
+} from "../utils/ad-platforms";
+import type { AdAccountPlatformKey, AdPlatformConnection, SubscriptionTool } from "../utils/ad-platforms";
+import { fetchRecentPaymentGateways } from "../utils/shopify-data";
+import { removeSubscriptionPlan, saveSubscriptionPlan } from "../utils/subscription-costs";
+import type { SubscriptionPlan } from "../utils/subscription-costs";
+import {
+  getFieldErrors,
+  validateGatewayFees,
+  validateSettings,
+  validateSubscriptionTool,
+  validateTargets,
+} from "../utils/validation";
+import type { GatewayFeeField } from "../utils/validation";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const settings = await getSettings(session.shop);
 
-  // Get or create metric targets
-  let targets = await prisma.metricTargets.findUnique({
-    where: { shop: session.shop },
-  });
+  // List every gateway seen on recent orders, plus any with a saved schedule
+  const gatewayFees = await getPaymentGatewayFees(session.shop);
+  const recentGateways = await fetchRecentPaymentGateways(admin);
+  const gateways = Array.from(
+    new Set([...recentGateways, ...gatewayFees.map((fee) => fee.gateway)])
+  ).sort();
 
-  if (!targets) {
-    targets = await prisma.metricTargets.create({
-      data: {
-        shop: session.shop,
-        grossProfit: null,
-        contributionProfit: null,
-        netProfit: null,
-        totalSales: null,
-        newCustomerRevenue: null,
-        returnCustomerRevenue: null,
-        variableCosts: null,
-        marketingCosts: null,
-        fixedCosts: null,
-      },
-    });
-  }
+  const targets = await getMetricTargets(session.shop);
 
   // Get Facebook integration status
   const facebookIntegration = await prisma.integration.findFirst({
@@ -59,7 +79,31 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     },
   });
 
-  return json({ settings, targets, facebookIntegration, googleIntegration });
+  // Get status of the other OAuth ad platforms
+  const adPlatformIntegrations = await prisma.integration.findMany({
+    where: {
+      shop: session.shop,
+      platform: { in: AD_PLATFORM_CONNECTIONS.map((connection) => connection.integrationPlatform) },
+    },
+  });
+
+  const subscriptionIntegrations = await prisma.integration.findMany({
+    where: {
+      shop: session.shop,
+      platform: { in: SUBSCRIPTION_TOOLS.map((tool) => tool.key) },
+    },
+  });
+
+  return json({
+    settings,
+    targets,
+    gateways,
+    gatewayFees,
+    facebookIntegration,
+    googleIntegration,
+    adPlatformIntegrations,
+    subscriptionIntegrations,
+  });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -68,88 +112,41 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const action = formData.get("action");
 
   if (action === "updateSettings") {
-    const transactionFeePercent = parseFloat(formData.get("transactionFeePercent") as string);
-
-    await prisma.settings.upsert({
-      where: { shop: session.shop },
-      update: {
-        transactionFeePercent,
-      },
-      create: {
-        shop: session.shop,
-        transactionFeePercent,
-        currency: "USD",
-      },
-    });
+    const settings = validateSettings(formData);
+    if (settings.errors) {
+      return json({ success: false, form: "settings", errors: settings.errors }, { status: 400 });
+    }
+
+    await saveSettings(session.shop, settings.data);
+  } else if (action === "updateGatewayFees") {
+    const gatewayFees = validateGatewayFees(formData);
+    if (gatewayFees.errors) {
+      return json({ success: false, form: "gatewayFees", errors: gatewayFees.errors }, { status: 400 });
+    }
+
+    // Clearing every field removes the schedule, so the default percentage applies again
+    for (const { gateway, rates } of gatewayFees.data) {
+      await savePaymentGatewayFee(session.shop, gateway, rates);
+    }
   } else if (action === "updateTargets") {
-    // Helper to parse float safely
-    const safeParseFloat = (value: string | null): number | null => {
-      if (!value || value === "") return null;
-      const parsed = parseFloat(value);
-      return isNaN(parsed) ? null : parsed;
-    };
-    
-    const targetData = {
-      grossProfit: safeParseFloat(formData.get("grossProfit") as string),
-      contributionProfit: safeParseFloat(formData.get("contributionProfit") as string),
-      netProfit: safeParseFloat(formData.get("netProfit") as string),
-      totalSales: safeParseFloat(formData.get("totalSales") as string),
-      newCustomerRevenue: safeParseFloat(formData.get("newCustomerRevenue") as string),
-      returnCustomerRevenue: safeParseFloat(formData.get("returnCustomerRevenue") as string),
-      variableCosts: safeParseFloat(formData.get("variableCosts") as string),
-      marketingCosts: safeParseFloat(formData.get("marketingCosts") as string),
-      fixedCosts: safeParseFloat(formData.get("fixedCosts") as string),
-    };
-    
-    console.log("Saving targets to database:", targetData);
-    
-    await prisma.metricTargets.upsert({
-      where: { shop: session.shop },
-      update: targetData,
-      create: {
-        shop: session.shop,
-        ...targetData,
-      },
-    });
-  } else if (action === "updateFacebookAccount") {
-    // Handle Facebook account updates
-    const credentials = formData.get("credentials") as string;
-    
-    try {
-      await prisma.integration.update({
-        where: {
-          shop_platform: {
-            shop: session.shop,
-            platform: "facebook_ads",
-          },
-        },
-        data: {
-          credentials: credentials,
-        },
-      });
-      return json({ success: true });
-    } catch (error) {
-      console.error("Error updating Facebook account:", error);
-      return json({ success: false }, { status: 500 });
+    const targets = validateTargets(formData);
+    if (targets.errors) {
+      return json({ success: false, form: "targets", errors: targets.errors }, { status: 400 });
     }
+
+    console.log("Saving targets to database:", targets.data);
+    await saveMetricTargets(session.shop, targets.data);
   } else if (action === "resyncFacebookData") {
-    // Re-sync Facebook data with daily breakdown
+    // Re-sync Facebook data with daily breakdown. The sync replaces every day in the
+    // range once it holds the sync lock, so stored spend is never cleared up front.
     try {
-      // Delete existing Facebook marketing costs
-      await prisma.marketingCost.deleteMany({
-        where: {
-          shop: session.shop,
-          platform: "facebook",
-        },
-      });
-      
-      console.log(`[Re-sync] Deleted old Facebook marketing costs for ${session.shop}`);
-      
       // Trigger historical sync (will be imported) - sync 365 days to get all data
       const { syncFacebookHistoricalData } = await import("../utils/facebook-ads");
       const result = await syncFacebookHistoricalData(session.shop, 365);
       
-      if (result.success) {
+      if (result.skipped) {
+        return json({ success: true, message: "A sync is already running, the re-sync will follow it" });
+      } else if (result.success) {
         console.log(`[Re-sync] Successfully synced $${result.totalAmount} for ${session.shop}`);
         return json({ success: true, message: `Re-synced $${result.totalAmount.toFixed(2)} from last 90 days` });
       } else {
@@ -180,6 +177,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           platform: "facebook",
         },
       });
+      await prisma.adPerformance.deleteMany({
+        where: {
+          shop: session.shop,
+          platform: "facebook",
+        },
+      });
       
       console.log(`[Disconnect] Facebook disconnected for ${session.shop}`);
       return json({ success: true, message: "Facebook Ads disconnected" });
@@ -188,23 +191,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return json({ success: false, error: "Failed to disconnect" }, { status: 500 });
     }
   } else if (action === "resyncGoogleData") {
-    // Re-sync Google Ads data
+    // Re-sync Google Ads data. Like Facebook, the sync replaces the range itself.
     try {
-      // Delete existing Google marketing costs
-      await prisma.marketingCost.deleteMany({
-        where: {
-          shop: session.shop,
-          platform: "google",
-        },
-      });
-      
-      console.log(`[Re-sync] Deleted old Google marketing costs for ${session.shop}`);
-      
       // Trigger historical sync - sync 365 days to get all data
       const { syncGoogleHistoricalData } = await import("../utils/google-ads");
       const result = await syncGoogleHistoricalData(session.shop, 365);
       
-      if (result.success) {
+      if (result.skipped) {
+        return json({ success: true, message: "A sync is already running, the re-sync will follow it" });
+      } else if (result.success) {
         console.log(`[Re-sync] Successfully synced $${result.totalAmount} for ${session.shop}`);
         return json({ success: true, message: `Re-synced $${result.totalAmount.toFixed(2)} from last 365 days` });
       } else {
@@ -235,6 +230,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           platform: "google",
         },
       });
+      await prisma.adPerformance.deleteMany({
+        where: {
+          shop: session.shop,
+          platform: "google",
+        },
+      });
       
       console.log(`[Disconnect] Google Ads disconnected for ${session.shop}`);
       return json({ success: true, message: "Google Ads disconnected" });
@@ -242,37 +243,348 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       console.error("Error disconnecting Google Ads:", error);
       return json({ success: false, error: "Failed to disconnect" }, { status: 500 });
     }
+  } else if (action === "selectAdAccounts") {
+    // Choose the ad accounts a platform's spend is synced from
+    const platform = getAdAccountPlatform(formData.get("platform"));
+    const adAccountIds = formData.getAll("adAccountIds").map(String);
+
+    if (adAccountIds.length === 0) {
+      return json({ success: false, error: "Select at least one ad account" }, { status: 400 });
+    }
+
+    try {
+      const integration = platform && await prisma.integration.findFirst({
+        where: {
+          shop: session.shop,
+          platform: platform.integrationPlatform,
+        },
+      });
+      const credentials = integration?.credentials ? JSON.parse(integration.credentials) : null;
+      const knownIds = new Set((credentials?.adAccounts || []).map((account: any) => account.id));
+
+      if (!platform || !integration || !adAccountIds.every((id) => knownIds.has(id))) {
+        return json({ success: false, error: "Ad account not found" }, { status: 404 });
+      }
+
+      const previousIds = getSelectedAdAccountIds(credentials);
+      const updatedCredentials = { ...credentials, selectedAdAccountIds: adAccountIds };
+      delete updatedCredentials.selectedAdAccountId;
+
+      await prisma.integration.update({
+        where: { id: integration.id },
+        data: { credentials: JSON.stringify(updatedCredentials) },
+      });
+
+      // Spend from deselected accounts no longer counts
+      const removedIds = previousIds.filter((id) => !adAccountIds.includes(id));
+      if (removedIds.length > 0) {
+        await prisma.marketingCost.deleteMany({
+          where: {
+            shop: session.shop,
+            platform: platform.key,
+            accountId: { in: removedIds },
+          },
+        });
+        await prisma.adPerformance.deleteMany({
+          where: {
+            shop: session.shop,
+            platform: platform.key,
+            accountId: { in: removedIds },
+          },
+        });
+      }
+
+      // Newly selected accounts need their history
+      if (adAccountIds.some((id) => !previousIds.includes(id))) {
+        syncAdPlatform(AD_PLATFORM_CONNECTORS[platform.key], session.shop, 365).catch(error => {
+          console.error(`${platform.label} background sync failed:`, error);
+        });
+      }
+
+      return json({ success: true });
+    } catch (error) {
+      console.error("Error updating ad accounts:", error);
+      return json({ success: false }, { status: 500 });
+    }
+  } else if (action === "connectAdPlatform") {
+    const connection = getAdAccountPlatform(formData.get("platform"));
+    if (!connection) {
+      return json({ success: false, error: "Unknown ad platform" }, { status: 404 });
+    }
+
+    // The callback route can't authenticate the shop, so it trusts only a state signed here
+    const authorizationUrl = AD_PLATFORM_CONNECTORS[connection.key].authorizationUrl?.(
+      createOAuthState(session.shop)
+    );
+    if (!authorizationUrl) {
+      console.error(`[Connect] ${connection.label} app credentials not configured`);
+      return json(
+        { success: false, platform: connection.key, error: `${connection.label} credentials not configured` },
+        { status: 500 }
+      );
+    }
+
+    return json({ success: true, authorizationUrl });
+  } else if (action === "resyncAdPlatform") {
+    const connection = getAdPlatformConnection(formData.get("platform"));
+    if (!connection) {
+      return json({ success: false, error: "Unknown ad platform" }, { status: 404 });
+    }
+
+    try {
+      const result = await syncAdPlatform(AD_PLATFORM_CONNECTORS[connection.key], session.shop, 365);
+
+      if (result.skipped) {
+        return json({ success: true, message: "A sync is already running, the re-sync will follow it" });
+      } else if (result.success) {
+        console.log(`[Re-sync] Successfully synced $${result.totalAmount} for ${session.shop}`);
+        return json({ success: true, message: `Re-synced $${result.totalAmount.toFixed(2)} from last 365 days` });
+      } else {
+        console.error(`[Re-sync] Failed:`, result.error);
+        return json({ success: false, error: result.error }, { status: 500 });
+      }
+    } catch (error) {
+      console.error(`Error re-syncing ${connection.label} data:`, error);
+      return json({ success: false, error: "Failed to re-sync" }, { status: 500 });
+    }
+  } else if (action === "disconnectAdPlatform") {
+    const connection = getAdPlatformConnection(formData.get("platform"));
+    if (!connection) {
+      return json({ success: false, error: "Unknown ad platform" }, { status: 404 });
+    }
+
+    try {
+      await prisma.integration.deleteMany({
+        where: {
+          shop: session.shop,
+          platform: connection.integrationPlatform,
+        },
+      });
+
+      // Synced spend always has an account; costs entered by hand on the Costs page don't
+      await prisma.marketingCost.deleteMany({
+        where: {
+          shop: session.shop,
+          platform: connection.key,
+          accountId: { not: "" },
+        },
+      });
+      await prisma.adPerformance.deleteMany({
+        where: {
+          shop: session.shop,
+          platform: connection.key,
+        },
+      });
+
+      console.log(`[Disconnect] ${connection.label} disconnected for ${session.shop}`);
+      return json({ success: true, message: `${connection.label} disconnected` });
+    } catch (error) {
+      console.error(`Error disconnecting ${connection.label}:`, error);
+      return json({ success: false, error: "Failed to disconnect" }, { status: 500 });
+    }
+  } else if (action === "saveSubscriptionTool") {
+    const subscription = validateSubscriptionTool(formData);
+    if (subscription.errors) {
+      return json({ success: false, form: "subscriptionTool", errors: subscription.errors }, { status: 400 });
+    }
+
+    const { tool, ...plan } = subscription.data;
+    await saveSubscriptionPlan(session.shop, tool, plan);
+    return json({ success: true });
+  } else if (action === "removeSubscriptionTool") {
+    if (!(await removeSubscriptionPlan(session.shop, formData.get("tool") as string))) {
+      return json({ success: false, error: "Subscription not found" }, { status: 404 });
+    }
+    return json({ success: true });
   }
 
   return json({ success: true });
 };
 
 export default function SettingsPage() {
-  const { settings, targets, facebookIntegration, googleIntegration } = useLoaderData<typeof loader>();
+  const {
+    settings,
+    targets,
+    gateways,
+    gatewayFees,
+    facebookIntegration,
+    googleIntegration,
+    adPlatformIntegrations,
+    subscriptionIntegrations,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
   const submit = useSubmit();
   const navigation = useNavigation();
   const isLoading = navigation.state === "submitting";
+  const settingsErrors = getFieldErrors(actionData, "settings");
+  const gatewayFeeErrors = getFieldErrors(actionData, "gatewayFees");
+  const targetErrors = getFieldErrors(actionData, "targets");
+  const connectError =
+    actionData && "platform" in actionData && "error" in actionData
+      ? { platform: actionData.platform, error: String(actionData.error) }
+      : null;
   
   // Get error from URL if present
   const urlParams = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
   const errorType = urlParams?.get('error');
   const errorMessage = urlParams?.get('msg');
   
-  // Get shop from URL (Shopify passes it in embedded apps)
-  const shopDomain = typeof window !== 'undefined' 
-    ? new URLSearchParams(window.location.search).get('shop') || 'adspendcalculator.myshopify.com'
-    : 'adspendcalculator.myshopify.com';
-  
-  // Parse Facebook credentials to get ad accounts
-  const facebookCredentials = facebookIntegration?.credentials 
-    ? JSON.parse(facebookIntegration.credentials) 
-    : null;
-  const adAccounts = facebookCredentials?.adAccounts || [];
-  const selectedAdAccountId = facebookCredentials?.selectedAdAccountId;
+  // Last successful sync, plus the error when the latest attempt failed
+  const renderSyncStatus = (
+    integration: { lastSync: string | null; syncStatus: string; syncError: string | null } | null
+  ) => (
+    <>
+      {integration?.lastSync && (
+        <Text as="p" variant="bodySm" tone="subdued">
+          Last synced: {new Date(integration.lastSync).toLocaleString()}
+        </Text>
+      )}
+      {integration?.syncStatus === "error" && (
+        <Text as="p" variant="bodySm" tone="critical">
+          Last sync failed: {integration.syncError || "Unknown error"}
+        </Text>
+      )}
+    </>
+  );
+
+  // Ticking an account starts syncing its history, unticking removes its spend
+  const renderAdAccountPicker = (
+    platform: AdAccountPlatformKey,
+    integration: { isActive: boolean; credentials: string | null } | null | undefined
+  ) => {
+    const credentials = integration?.credentials ? JSON.parse(integration.credentials) : null;
+    const platformAdAccounts = credentials?.adAccounts || [];
+    if (!integration?.isActive || platformAdAccounts.length === 0) return null;
+
+    return (
+      <ChoiceList
+        title="Ad accounts"
+        allowMultiple
+        choices={platformAdAccounts.map((account: any) => ({
+          label: account.currency ? `${account.name} (${account.currency})` : account.name,
+          value: account.id,
+          helpText: account.managerName ? `Managed by ${account.managerName}` : undefined,
+        }))}
+        selected={getSelectedAdAccountIds(credentials)}
+        onChange={(selected) => {
+          // At least one account stays selected while connected
+          if (selected.length === 0) return;
+
+          const formData = new FormData();
+          formData.append('action', 'selectAdAccounts');
+          formData.append('platform', platform);
+          selected.forEach((adAccountId) => formData.append('adAccountIds', adAccountId));
+          submit(formData, { method: 'post' });
+        }}
+      />
+    );
+  };
+
+  const renderAdPlatformCard = (connection: AdPlatformConnection) => {
+    const integration = adPlatformIntegrations.find(
+      (candidate) => candidate.platform === connection.integrationPlatform
+    );
+
+    return (
+      <Card key={connection.key}>
+        <BlockStack gap="400">
+          <InlineStack gap="300" blockAlign="center">
+            <div style={{
+              width: '56px',
+              height: '56px',
+              borderRadius: '12px',
+              backgroundColor: connection.color,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              color: connection.textColor || 'white',
+              fontSize: '28px',
+              fontWeight: 'bold',
+              flexShrink: 0
+            }}>
+              {connection.initial}
+            </div>
+            <BlockStack gap="100">
+              <Text as="h3" variant="headingMd">
+                {connection.label}
+              </Text>
+              <Text as="p" variant="bodySm" tone="subdued">
+                Sync ad spend automatically
+              </Text>
+            </BlockStack>
+          </InlineStack>
+
+          {integration?.isActive ? (
+            <BlockStack gap="200">
+              <Badge tone="success">Connected</Badge>
+              <InlineStack gap="200">
+                <Button
+                  size="slim"
+                  onClick={() => {
+                    if (confirm(`Re-sync all ${connection.label} data?`)) {
+                      submit({ action: 'resyncAdPlatform', platform: connection.key }, { method: 'post' });
+                    }
+                  }}
+                >
+                  Re-sync Data
+                </Button>
+                <Button
+                  size="slim"
+                  tone="critical"
+                  onClick={() => {
+                    if (confirm(`Disconnect ${connection.label}?`)) {
+                      submit({ action: 'disconnectAdPlatform', platform: connection.key }, { method: 'post' });
+                    }
+                  }}
+                >
+                  Disconnect
+                </Button>
+              </InlineStack>
+              {renderSyncStatus(integration)}
+            </BlockStack>
+          ) : (
+            <BlockStack gap="200">
+              <Button
+                fullWidth
+                onClick={() => submit({ action: 'connectAdPlatform', platform: connection.key }, { method: 'post' })}
+              >
+                Connect
+              </Button>
+              {connectError?.platform === connection.key && (
+                <Text variant="bodySm" tone="critical" as="p">
+                  ⚠️ {connectError.error}
+                </Text>
+              )}
+            </BlockStack>
+          )}
+
+          {renderAdAccountPicker(connection.key, integration)}
+        </BlockStack>
+      </Card>
+    );
+  };
 
   const [transactionFeePercent, setTransactionFeePercent] = useState(
     settings.transactionFeePercent.toString()
   );
+  const [refundAttribution, setRefundAttribution] = useState(settings.refundAttribution);
+  const [revenueDefinition, setRevenueDefinition] = useState(settings.revenueDefinition);
+  const [gatewayFeeValues, setGatewayFeeValues] = useState<Record<string, Record<GatewayFeeField, string>>>(() =>
+    Object.fromEntries(
+      gateways.map((gateway) => {
+        const saved = gatewayFees.find((fee) => fee.gateway === gateway);
+        return [
+          gateway,
+          {
+            percent: saved?.percent.toString() || "",
+            fixedFee: saved?.fixedFee.toString() || "",
+            currencyConversionPercent: saved?.currencyConversionPercent.toString() || "",
+            internationalPercent: saved?.internationalPercent.toString() || "",
+          },
+        ];
+      })
+    )
+  );
 
   // Target states
   const [grossProfit, setGrossProfit] = useState(targets.grossProfit?.toString() || "");
@@ -289,6 +601,25 @@ export default function SettingsPage() {
     const formData = new FormData();
     formData.append("action", "updateSettings");
     formData.append("transactionFeePercent", transactionFeePercent);
+    formData.append("refundAttribution", refundAttribution);
+    formData.append("revenueDefinition", revenueDefinition);
+    submit(formData, { method: "post" });
+  };
+
+  const handleGatewayFeeChange = (gateway: string, field: GatewayFeeField, value: string) => {
+    setGatewayFeeValues((current) => ({
+      ...current,
+      [gateway]: { ...current[gateway], [field]: value },
+    }));
+  };
+
+  const handleSubmitGatewayFees = () => {
+    const formData = new FormData();
+    formData.append("action", "updateGatewayFees");
+    formData.append(
+      "gatewayFees",
+      JSON.stringify(Object.entries(gatewayFeeValues).map(([gateway, values]) => ({ gateway, ...values })))
+    );
     submit(formData, { method: "post" });
   };
 
@@ -319,6 +650,69 @@ export default function SettingsPage() {
     submit(formData, { method: "post" });
   };
 
+  const [editingTool, setEditingTool] = useState<SubscriptionTool | null>(null);
+  const [toolMonthlyPrice, setToolMonthlyPrice] = useState("");
+  const [toolBillingDay, setToolBillingDay] = useState("1");
+  const [toolStartDate, setToolStartDate] = useState("");
+  const [toolRecordAs, setToolRecordAs] = useState("marketing");
+  const [subscriptionFormErrors, setSubscriptionFormErrors] = useState<unknown>(null);
+  const [lastActionData, setLastActionData] = useState(actionData);
+  const subscriptionErrors = getFieldErrors(subscriptionFormErrors, "subscriptionTool");
+
+  const getSubscriptionPlan = (tool: SubscriptionTool): SubscriptionPlan | null => {
+    const integration = subscriptionIntegrations.find((candidate) => candidate.platform === tool.key);
+    return integration?.credentials ? JSON.parse(integration.credentials) : null;
+  };
+
+  const openSubscriptionModal = (tool: SubscriptionTool) => {
+    const plan = getSubscriptionPlan(tool);
+    setEditingTool(tool);
+    setToolMonthlyPrice(plan ? plan.monthlyPrice.toString() : "");
+    setToolBillingDay(plan ? plan.billingDay.toString() : "1");
+    setToolStartDate(plan ? plan.startDate : new Date().toISOString().split("T")[0]);
+    setToolRecordAs(plan ? plan.recordAs : "marketing");
+    setSubscriptionFormErrors(null);
+  };
+
+  const closeSubscriptionModal = () => {
+    setEditingTool(null);
+    setSubscriptionFormErrors(null);
+  };
+
+  const handleSaveSubscription = () => {
+    if (!editingTool) return;
+    const formData = new FormData();
+    formData.append("action", "saveSubscriptionTool");
+    formData.append("tool", editingTool.key);
+    formData.append("monthlyPrice", toolMonthlyPrice);
+    formData.append("billingDay", toolBillingDay);
+    formData.append("startDate", toolStartDate);
+    formData.append("recordAs", toolRecordAs);
+    submit(formData, { method: "post" });
+  };
+
+  const handleRemoveSubscription = (tool: SubscriptionTool) => {
+    if (confirm(`Stop tracking ${tool.label}? Costs recorded for it will be removed.`)) {
+      submit({ action: "removeSubscriptionTool", tool: tool.key }, { method: "post" });
+    }
+  };
+
+  // Ad platform authorization pages can't load inside the admin iframe
+  useEffect(() => {
+    if (actionData && "authorizationUrl" in actionData && typeof actionData.authorizationUrl === "string") {
+      window.open(actionData.authorizationUrl, "_top");
+    }
+  }, [actionData]);
+
+  // The modal stays open until the server accepts the plan, so field errors can be fixed in place
+  if (actionData !== lastActionData) {
+    setLastActionData(actionData);
+    setSubscriptionFormErrors(actionData);
+    if (actionData?.success) {
+      closeSubscriptionModal();
+    }
+  }
+
   return (
     <Page
       title="Settings"
@@ -375,8 +769,6 @@ export default function SettingsPage() {
 
                     {errorType && (
                       <Text variant="bodySm" tone="critical" as="p">
-                        {errorType === 'fb_credentials_missing' && 
-                          "⚠️ Facebook credentials not configured."}
                         {errorType === 'facebook_token_failed' && 
                           `⚠️ Failed to connect`}
                         {errorType === 'facebook_api_error' && 
@@ -410,59 +802,25 @@ export default function SettingsPage() {
                             Disconnect
                           </Button>
                         </InlineStack>
-                        {facebookIntegration?.lastSync && (
-                          <Text as="p" variant="bodySm" tone="subdued">
-                            Last synced: {new Date(facebookIntegration.lastSync).toLocaleString()}
-                          </Text>
-                        )}
+                        {renderSyncStatus(facebookIntegration)}
                       </BlockStack>
                     ) : (
-                      <a 
-                        href={`/facebook-oauth?shop=${shopDomain}`}
-                        target="_top"
-                        style={{ textDecoration: 'none' }}
-                      >
-                        <Button fullWidth>
-                          Connect
-                        </Button>
-                      </a>
-                    )}
-
-                    {adAccounts.length > 0 && facebookIntegration?.isActive && (
                       <BlockStack gap="200">
-                        <Text as="p" variant="bodySm" fontWeight="medium">
-                          Ad Account
-                        </Text>
-                        <select
-                          value={selectedAdAccountId || ''}
-                          onChange={(e) => {
-                            const updatedCredentials = {
-                              ...facebookCredentials,
-                              selectedAdAccountId: e.target.value
-                            };
-                            submit(
-                              {
-                                action: 'updateFacebookAccount',
-                                credentials: JSON.stringify(updatedCredentials)
-                              },
-                              { method: 'post' }
-                            );
-                          }}
-                          style={{
-                            padding: '8px',
-                            borderRadius: '4px',
-                            border: '1px solid #ddd',
-                            width: '100%',
-                          }}
+                        <Button
+                          fullWidth
+                          onClick={() => submit({ action: 'connectAdPlatform', platform: 'facebook' }, { method: 'post' })}
                         >
-                          {adAccounts.map((account: any) => (
-                            <option key={account.id} value={account.id}>
-                              {account.name} ({account.currency})
-                            </option>
-                          ))}
-                        </select>
+                          Connect
+                        </Button>
+                        {connectError?.platform === 'facebook' && (
+                          <Text variant="bodySm" tone="critical" as="p">
+                            ⚠️ {connectError.error}
+                          </Text>
+                        )}
                       </BlockStack>
                     )}
+
+                    {renderAdAccountPicker('facebook', facebookIntegration)}
                   </BlockStack>
                 </Card>
 
@@ -522,31 +880,77 @@ export default function SettingsPage() {
                             Disconnect
                           </Button>
                         </InlineStack>
-                        {googleIntegration?.lastSync && (
-                          <Text as="p" variant="bodySm" tone="subdued">
-                            Last synced: {new Date(googleIntegration.lastSync).toLocaleString()}
-                          </Text>
-                        )}
+                        {renderSyncStatus(googleIntegration)}
                       </BlockStack>
                     ) : (
-                      <a 
-                        href={`/google-oauth?shop=${shopDomain}`}
-                        target="_top"
-                        style={{ textDecoration: 'none' }}
-                      >
-                        <Button fullWidth>
+                      <BlockStack gap="200">
+                        <Button
+                          fullWidth
+                          onClick={() => submit({ action: 'connectAdPlatform', platform: 'google' }, { method: 'post' })}
+                        >
                           Connect
                         </Button>
-                      </a>
+                        {connectError?.platform === 'google' && (
+                          <Text variant="bodySm" tone="critical" as="p">
+                            ⚠️ {connectError.error}
+                          </Text>
+                        )}
+                      </BlockStack>
                     )}
+
+                    {renderAdAccountPicker('google', googleIntegration)}
                   </BlockStack>
                 </Card>
 
+                {AD_PLATFORM_CONNECTIONS.map(renderAdPlatformCard)}
               </div>
             </BlockStack>
           </Card>
         </Layout.Section>
 
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                Email & SMS Subscriptions
+              </Text>
+              <Text as="p" variant="bodyMd" tone="subdued">
+                These tools don't share their invoices, so enter your plan price. Each monthly invoice is recorded as
+                marketing spend on its billing day, or as a monthly software fixed cost.
+              </Text>
+              {SUBSCRIPTION_TOOLS.map((tool) => {
+                const plan = getSubscriptionPlan(tool);
+                return (
+                  <InlineStack key={tool.key} align="space-between" blockAlign="center">
+                    <BlockStack gap="100">
+                      <Text as="h3" variant="headingSm">
+                        {tool.label}
+                      </Text>
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {plan
+                          ? `$${plan.monthlyPrice.toFixed(2)}/month on day ${plan.billingDay}, recorded as ${
+                            plan.recordAs === "fixed" ? "a fixed cost" : "marketing spend"
+                          }`
+                          : tool.description}
+                      </Text>
+                    </BlockStack>
+                    <InlineStack gap="200">
+                      <Button size="slim" onClick={() => openSubscriptionModal(tool)}>
+                        {plan ? "Edit" : "Add plan"}
+                      </Button>
+                      {plan && (
+                        <Button size="slim" tone="critical" onClick={() => handleRemoveSubscription(tool)}>
+                          Remove
+                        </Button>
+                      )}
+                    </InlineStack>
+                  </InlineStack>
+                );
+              })}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
         <Layout.Section>
           <Card>
             <BlockStack gap="400">
@@ -561,7 +965,31 @@ export default function SettingsPage() {
                   onChange={setTransactionFeePercent}
                   autoComplete="off"
                   suffix="%"
-                  helpText="Default is 3% for Shopify Payments. Adjust based on your payment processor."
+                  error={settingsErrors.transactionFeePercent}
+                  helpText="Used for payments without an actual fee reported by the processor (Shopify Payments fees are pulled automatically)."
+                />
+                <Select
+                  label="Attribute refunds to"
+                  options={[
+                    { label: "Refund date", value: "refund_date" },
+                    { label: "Original order date", value: "order_date" },
+                  ]}
+                  value={refundAttribution}
+                  onChange={setRefundAttribution}
+                  error={settingsErrors.refundAttribution}
+                  helpText="Refund date counts refunds in the period they were issued. Order date counts them against the period the order was placed in."
+                />
+                <Select
+                  label="Revenue definition"
+                  options={[
+                    { label: "Gross (order totals as charged)", value: "gross" },
+                    { label: "Net of taxes, before discounts", value: "net_of_tax" },
+                    { label: "Net of taxes and discounts", value: "net_of_tax_and_discounts" },
+                  ]}
+                  value={revenueDefinition}
+                  onChange={setRevenueDefinition}
+                  error={settingsErrors.revenueDefinition}
+                  helpText="Net definitions exclude taxes, duties, tips and gift card sales. Transaction fees are still calculated on the full amount charged."
                 />
               </FormLayout>
               <Button onClick={handleSubmitSettings} loading={isLoading}>
@@ -571,6 +999,80 @@ export default function SettingsPage() {
           </Card>
         </Layout.Section>
 
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                Payment Gateway Fees
+              </Text>
+              <Text as="p" variant="bodySm" tone="subdued">
+                Used for payments where the gateway doesn't report its actual fee. Leave a gateway blank to use the default transaction fee percentage.
+              </Text>
+              {gateways.length === 0 ? (
+                <Text as="p" variant="bodyMd">
+                  No payment gateways found on recent orders yet.
+                </Text>
+              ) : (
+                <FormLayout>
+                  {gateways.map((gateway) => (
+                    <BlockStack key={gateway} gap="200">
+                      <Text as="h3" variant="headingSm">
+                        {gateway}
+                      </Text>
+                      <FormLayout.Group condensed>
+                        <TextField
+                          label="Fee"
+                          type="number"
+                          value={gatewayFeeValues[gateway]?.percent || ""}
+                          onChange={(value) => handleGatewayFeeChange(gateway, "percent", value)}
+                          autoComplete="off"
+                          error={gatewayFeeErrors[`${gateway}.percent`]}
+                          suffix="%"
+                        />
+                        <TextField
+                          label="Fixed fee per transaction"
+                          type="number"
+                          value={gatewayFeeValues[gateway]?.fixedFee || ""}
+                          onChange={(value) => handleGatewayFeeChange(gateway, "fixedFee", value)}
+                          autoComplete="off"
+                          error={gatewayFeeErrors[`${gateway}.fixedFee`]}
+                          prefix="$"
+                        />
+                        <TextField
+                          label="Currency conversion surcharge"
+                          type="number"
+                          value={gatewayFeeValues[gateway]?.currencyConversionPercent || ""}
+                          onChange={(value) => handleGatewayFeeChange(gateway, "currencyConversionPercent", value)}
+                          autoComplete="off"
+                          error={gatewayFeeErrors[`${gateway}.currencyConversionPercent`]}
+                          suffix="%"
+                        />
+                        <TextField
+                          label="International card surcharge"
+                          type="number"
+                          value={gatewayFeeValues[gateway]?.internationalPercent || ""}
+                          onChange={(value) => handleGatewayFeeChange(gateway, "internationalPercent", value)}
+                          autoComplete="off"
+                          error={gatewayFeeErrors[`${gateway}.internationalPercent`]}
+                          suffix="%"
+                        />
+                      </FormLayout.Group>
+                    </BlockStack>
+                  ))}
+                </FormLayout>
+              )}
+              {gatewayFeeErrors.gatewayFees && (
+                <Text as="p" variant="bodySm" tone="critical">
+                  {gatewayFeeErrors.gatewayFees}
+                </Text>
+              )}
+              <Button onClick={handleSubmitGatewayFees} loading={isLoading} disabled={gateways.length === 0}>
+                Save Gateway Fees
+              </Button>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
         <Layout.Section>
           <Card>
             <BlockStack gap="400">
@@ -589,6 +1091,7 @@ export default function SettingsPage() {
                     onChange={setGrossProfit}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.grossProfit}
                   />
                   <TextField
                     label="Contribution Profit Target"
@@ -597,6 +1100,7 @@ export default function SettingsPage() {
                     onChange={setContributionProfit}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.contributionProfit}
                   />
                   <TextField
                     label="Net Profit Target"
@@ -605,6 +1109,7 @@ export default function SettingsPage() {
                     onChange={setNetProfit}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.netProfit}
                   />
                 </FormLayout.Group>
                 <FormLayout.Group>
@@ -615,6 +1120,7 @@ export default function SettingsPage() {
                     onChange={setTotalSales}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.totalSales}
                   />
                   <TextField
                     label="New Customer Revenue Target"
@@ -623,6 +1129,7 @@ export default function SettingsPage() {
                     onChange={setNewCustomerRevenue}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.newCustomerRevenue}
                   />
                   <TextField
                     label="Return Customer Revenue Target"
@@ -631,6 +1138,7 @@ export default function SettingsPage() {
                     onChange={setReturnCustomerRevenue}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.returnCustomerRevenue}
                   />
                 </FormLayout.Group>
                 <FormLayout.Group>
@@ -641,6 +1149,7 @@ export default function SettingsPage() {
                     onChange={setVariableCosts}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.variableCosts}
                     helpText="Maximum you want to spend"
                   />
                   <TextField
@@ -650,6 +1159,7 @@ export default function SettingsPage() {
                     onChange={setMarketingCosts}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.marketingCosts}
                     helpText="Maximum you want to spend"
                   />
                   <TextField
@@ -659,6 +1169,7 @@ export default function SettingsPage() {
                     onChange={setFixedCosts}
                     autoComplete="off"
                     prefix="$"
+                    error={targetErrors.fixedCosts}
                     helpText="Maximum you want to spend"
                   />
                 </FormLayout.Group>
@@ -682,7 +1193,7 @@ export default function SettingsPage() {
                     Gross Profit
                   </Text>
                   <Text as="p" variant="bodySm" tone="subdued">
-                    Total Sales - Variable Costs (COGS + Shipping + Transaction Fees)
+                    Net Revenue (Total Sales - Refunds) - Variable Costs (COGS + Shipping + Transaction Fees)
                   </Text>
                 </BlockStack>
                 <BlockStack gap="100">
@@ -690,7 +1201,7 @@ export default function SettingsPage() {
                     Contribution Profit
                   </Text>
                   <Text as="p" variant="bodySm" tone="subdued">
-                    Total Sales - (Variable Costs + Marketing Costs)
+                    Net Revenue - (Variable Costs + Marketing Costs)
                   </Text>
                 </BlockStack>
                 <BlockStack gap="100">
@@ -698,7 +1209,7 @@ export default function SettingsPage() {
                     Net Profit
                   </Text>
                   <Text as="p" variant="bodySm" tone="subdued">
-                    Total Sales - (Variable Costs + Marketing Costs + Fixed Costs)
+                    Net Revenue - (Variable Costs + Marketing Costs + Fixed Costs)
                   </Text>
                 </BlockStack>
               </BlockStack>
@@ -706,6 +1217,67 @@ export default function SettingsPage() {
           </Card>
         </Layout.Section>
       </Layout>
+
+      <Modal
+        open={!!editingTool}
+        onClose={closeSubscriptionModal}
+        title={`${editingTool?.label || ""} Subscription`}
+        primaryAction={{
+          content: "Save",
+          onAction: handleSaveSubscription,
+          loading: isLoading,
+        }}
+        secondaryActions={[
+          {
+            content: "Cancel",
+            onAction: closeSubscriptionModal,
+          },
+        ]}
+      >
+        <Modal.Section>
+          <FormLayout>
+            <TextField
+              label="Monthly plan price"
+              type="number"
+              value={toolMonthlyPrice}
+              onChange={setToolMonthlyPrice}
+              error={subscriptionErrors.monthlyPrice}
+              autoComplete="off"
+              prefix="$"
+            />
+            <FormLayout.Group>
+              <TextField
+                label="Billing day"
+                type="number"
+                value={toolBillingDay}
+                onChange={setToolBillingDay}
+                error={subscriptionErrors.billingDay}
+                autoComplete="off"
+                helpText="Day of the month the invoice is charged"
+              />
+              <TextField
+                label="Subscribed since"
+                type="date"
+                value={toolStartDate}
+                onChange={setToolStartDate}
+                error={subscriptionErrors.startDate}
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+            <Select
+              label="Record as"
+              options={[
+                { label: "Marketing spend", value: "marketing" },
+                { label: "Fixed cost (software)", value: "fixed" },
+              ]}
+              value={toolRecordAs}
+              onChange={setToolRecordAs}
+              error={subscriptionErrors.recordAs}
+              helpText="Marketing spend counts against contribution profit. A fixed cost only affects net profit."
+            />
+          </FormLayout>
+        </Modal.Section>
+      </Modal>
     </Page>
   );
 }
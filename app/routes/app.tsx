@@ -24,6 +24,8 @@ export default function App() {
         <Link to="/app" rel="home">
           Dashboard
         </Link>
+        <Link to="/app/products">Products</Link>
+        <Link to="/app/marketing">Marketing</Link>
         <Link to="/app/costs">Manage Costs</Link>
         <Link to="/app/settings">Settings</Link>
       </NavMenu>
@@ -1,7 +1,14 @@
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { redirect } from "@remix-run/node";
 import { prisma } from "../utils/database";
-import { syncFacebookHistoricalData } from "../utils/facebook-ads";
+import { verifyOAuthState } from "../utils/oauth-state";
+import {
+  facebookConnector,
+  getFacebookAdAccounts,
+  syncFacebookHistoricalData,
+  FACEBOOK_GRAPH_API_URL,
+  FACEBOOK_REDIRECT_URI,
+} from "../utils/facebook-ads";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const url = new URL(request.url);
@@ -9,42 +16,40 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Check if this is a callback from Facebook
   const code = url.searchParams.get("code");
   const error = url.searchParams.get("error");
-  const state = url.searchParams.get("state"); // This contains the shop domain
+  // Signed by the Settings action that started the flow, see createOAuthState
+  const shop = verifyOAuthState(url.searchParams.get("state"));
 
   if (error) {
     console.error("Facebook auth error:", error);
-    if (state) {
-      const shopSlug = state.replace('.myshopify.com', '');
+    if (shop) {
+      const shopSlug = shop.replace('.myshopify.com', '');
       return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?error=facebook_auth_failed`);
     }
     return redirect("/auth/login");
   }
 
-  if (code && state) {
+  if (code && shop) {
     // Exchange code for access token
     try {
-      // Use Railway URL for production
-      const redirectUri = process.env.FACEBOOK_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/facebook-oauth";
-      
       console.log("[FB OAuth] Starting token exchange");
-      console.log("[FB OAuth] Redirect URI:", redirectUri);
+      console.log("[FB OAuth] Redirect URI:", FACEBOOK_REDIRECT_URI);
       console.log("[FB OAuth] App ID:", process.env.FACEBOOK_APP_ID || "NOT SET");
       console.log("[FB OAuth] App Secret exists:", !!process.env.FACEBOOK_APP_SECRET);
       console.log("[FB OAuth] Code length:", code?.length);
-      console.log("[FB OAuth] State (shop):", state);
+      console.log("[FB OAuth] Shop:", shop);
       
       // Check if credentials are missing
       if (!process.env.FACEBOOK_APP_ID || !process.env.FACEBOOK_APP_SECRET) {
         console.error("[FB OAuth] MISSING FACEBOOK CREDENTIALS IN ENVIRONMENT!");
         console.error("[FB OAuth] FACEBOOK_APP_ID:", process.env.FACEBOOK_APP_ID || "NOT SET");
         console.error("[FB OAuth] FACEBOOK_APP_SECRET:", process.env.FACEBOOK_APP_SECRET ? "SET" : "NOT SET");
-        const shopSlug = state.replace('.myshopify.com', '');
+        const shopSlug = shop.replace('.myshopify.com', '');
         return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?error=missing_fb_credentials`);
       }
       
-      const tokenUrl = `https://graph.facebook.com/v18.0/oauth/access_token?` +
+      const tokenUrl = `${FACEBOOK_GRAPH_API_URL}/oauth/access_token?` +
         `client_id=${process.env.FACEBOOK_APP_ID}` +
-        `&redirect_uri=${encodeURIComponent(redirectUri)}` +
+        `&redirect_uri=${encodeURIComponent(FACEBOOK_REDIRECT_URI)}` +
         `&client_secret=${process.env.FACEBOOK_APP_SECRET}` +
         `&code=${code}`;
       
@@ -63,7 +68,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         tokenData = JSON.parse(responseText);
       } catch (e) {
         console.error("[FB OAuth] Failed to parse response:", e);
-        const shopSlug = state.replace('.myshopify.com', '');
+        const shopSlug = shop.replace('.myshopify.com', '');
         return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?error=invalid_fb_response`);
       }
       
@@ -75,7 +80,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         console.error("[FB OAuth] Error type:", tokenData.error.type);
         console.error("[FB OAuth] Error message:", tokenData.error.message);
         console.error("[FB OAuth] Error description:", tokenData.error_description);
-        const shopSlug = state.replace('.myshopify.com', '');
+        const shopSlug = shop.replace('.myshopify.com', '');
         
         // Pass error details in URL for debugging
         const errorMsg = encodeURIComponent(tokenData.error_description || tokenData.error.message || tokenData.error.type || "Unknown error");
@@ -83,52 +88,51 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       }
 
       if (tokenData.access_token) {
+        // The code exchange returns a short-lived token, so swap it for a long-lived one
+        const longLived = await facebookConnector.refreshCredentials?.({ accessToken: tokenData.access_token });
+        if (!longLived) {
+          console.warn("[FB OAuth] Long-lived token exchange failed, keeping the short-lived token");
+        }
+        const accessToken = longLived?.accessToken || tokenData.access_token;
+        const expiresAt = longLived?.expiresAt || (tokenData.expires_in ? Date.now() + tokenData.expires_in * 1000 : undefined);
+
         // Get ad accounts to let user select
-        const adAccountsResponse = await fetch(
-          `https://graph.facebook.com/v18.0/me/adaccounts?fields=id,name,currency,account_status&access_token=${tokenData.access_token}`
-        );
-        const adAccountsData = await adAccountsResponse.json();
-        console.log("Ad accounts:", adAccountsData);
+        const adAccounts = await getFacebookAdAccounts(accessToken);
+        console.log("Ad accounts:", adAccounts);
+
+        const credentials = JSON.stringify({
+          accessToken,
+          expiresAt,
+          adAccounts,
+          selectedAdAccountIds: adAccounts[0] ? [adAccounts[0].id] : [], // Default to first account
+        });
         
         // Store the credentials with ad accounts
         await prisma.integration.upsert({
           where: {
             shop_platform: {
-              shop: state,
+              shop,
               platform: "facebook_ads",
             },
           },
           update: {
-            credentials: JSON.stringify({
-              accessToken: tokenData.access_token,
-              tokenType: tokenData.token_type,
-              expiresIn: tokenData.expires_in,
-              adAccounts: adAccountsData.data || [],
-              selectedAdAccountId: adAccountsData.data?.[0]?.id || null, // Default to first account
-            }),
+            credentials,
             isActive: true,
-            lastSync: new Date(),
+            lastSync: null, // Reset last sync when reconnecting
           },
           create: {
-            shop: state,
+            shop,
             platform: "facebook_ads",
-            credentials: JSON.stringify({
-              accessToken: tokenData.access_token,
-              tokenType: tokenData.token_type,
-              expiresIn: tokenData.expires_in,
-              adAccounts: adAccountsData.data || [],
-              selectedAdAccountId: adAccountsData.data?.[0]?.id || null,
-            }),
+            credentials,
             isActive: true,
-            lastSync: new Date(),
           },
         });
 
         // Sync historical data (last 365 days) in the background to get all available data
-        console.log("[FB OAuth] Starting historical data sync for", state);
-        syncFacebookHistoricalData(state, 365).then((result) => {
+        console.log("[FB OAuth] Starting historical data sync for", shop);
+        syncFacebookHistoricalData(shop, 365).then((result) => {
           if (result.success) {
-            console.log(`[FB OAuth] Successfully synced $${result.totalAmount} from last 90 days`);
+            console.log(`[FB OAuth] Successfully synced $${result.totalAmount} from last 365 days`);
           } else {
             console.error(`[FB OAuth] Failed to sync historical data:`, result.error);
           }
@@ -137,11 +141,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         });
 
         // Redirect back to app in Shopify admin
-        const shopSlug = state.replace('.myshopify.com', '');
+        const shopSlug = shop.replace('.myshopify.com', '');
         return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?success=facebook_connected`);
       } else {
         console.error("No access token in response:", tokenData);
-        const shopSlug = state.replace('.myshopify.com', '');
+        const shopSlug = shop.replace('.myshopify.com', '');
         return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?error=no_token`);
       }
     } catch (error) {
@@ -155,45 +159,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         console.error("[FB OAuth] This appears to be a network/fetch error");
       }
       
-      if (state) {
-        const shopSlug = state.replace('.myshopify.com', '');
-        const errorMessage = error instanceof Error ? encodeURIComponent(error.message.substring(0, 100)) : 'unknown';
-        return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?error=facebook_token_failed&msg=${errorMessage}`);
-      }
-      return redirect("/auth/login");
+      const shopSlug = shop.replace('.myshopify.com', '');
+      const errorMessage = error instanceof Error ? encodeURIComponent(error.message.substring(0, 100)) : 'unknown';
+      return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?error=facebook_token_failed&msg=${errorMessage}`);
     }
   }
 
-  // Initial OAuth redirect to Facebook
-  const shop = url.searchParams.get("shop");
-  
-  if (!shop) {
-    return redirect("/auth/login?error=missing_shop");
-  }
-
-  // Use Railway URL for production
-  const redirectUri = process.env.FACEBOOK_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/facebook-oauth";
-  
-  // Check if Facebook credentials exist
-  if (!process.env.FACEBOOK_APP_ID || !process.env.FACEBOOK_APP_SECRET) {
-    console.error("[FB OAuth] Facebook credentials not set in environment variables!");
-    console.error("[FB OAuth] FACEBOOK_APP_ID:", process.env.FACEBOOK_APP_ID ? "Set" : "MISSING");
-    console.error("[FB OAuth] FACEBOOK_APP_SECRET:", process.env.FACEBOOK_APP_SECRET ? "Set" : "MISSING");
-    const shopSlug = shop.replace('.myshopify.com', '');
-    return redirect(`https://admin.shopify.com/store/${shopSlug}/apps/profit-analytics-7/app/settings?error=fb_credentials_missing`);
-  }
-  
-  const fbAuthUrl = 
-    `https://www.facebook.com/v18.0/dialog/oauth?` +
-    `client_id=${process.env.FACEBOOK_APP_ID}` +
-    `&redirect_uri=${encodeURIComponent(redirectUri)}` +
-    `&scope=ads_read,business_management` +
-    `&state=${shop}`;
-
-  console.log("Redirecting to Facebook OAuth:", fbAuthUrl);
-  console.log("Using App ID:", process.env.FACEBOOK_APP_ID);
-  console.log("Using Redirect URI:", redirectUri);
-  
-  return redirect(fbAuthUrl);
+  console.error("[FB OAuth] Missing code or invalid state in callback");
+  return redirect("/app/settings?error=" + encodeURIComponent("Invalid OAuth callback"));
 };
-
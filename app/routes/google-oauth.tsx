@@ -1,64 +1,35 @@
 import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
 import { prisma } from "../utils/database";
+import { verifyOAuthState } from "../utils/oauth-state";
+import { getGoogleAdAccounts, syncGoogleHistoricalData, GOOGLE_ADS_REDIRECT_URI, GOOGLE_TOKEN_URL } from "../utils/google-ads";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const url = new URL(request.url);
   const code = url.searchParams.get("code");
-  const shop = url.searchParams.get("shop");
-  const state = url.searchParams.get("state"); // This is the shop domain from callback
+  // Signed by the Settings action that started the flow, see createOAuthState
+  const state = url.searchParams.get("state");
   const error = url.searchParams.get("error");
 
   console.log("[Google OAuth] Request received");
   console.log("[Google OAuth] Has code:", !!code);
-  console.log("[Google OAuth] Has shop:", !!shop);
-  console.log("[Google OAuth] Has state:", !!state);
   console.log("[Google OAuth] Error:", error);
 
-  // If this is the initial request (no code), redirect to Google OAuth
-  if (!code && shop) {
-    console.log("[Google OAuth] Initiating OAuth flow for shop:", shop);
-    
-    const redirectUri = process.env.GOOGLE_ADS_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/google-oauth";
-    
-    if (!process.env.GOOGLE_ADS_CLIENT_ID || !process.env.GOOGLE_ADS_CLIENT_SECRET) {
-      console.error("[Google OAuth] Missing credentials");
-      return redirect("/app/settings?error=" + encodeURIComponent("Google Ads credentials not configured"));
-    }
-
-    const authUrl = 
-      `https://accounts.google.com/o/oauth2/v2/auth?` +
-      `client_id=${process.env.GOOGLE_ADS_CLIENT_ID}` +
-      `&redirect_uri=${encodeURIComponent(redirectUri)}` +
-      `&response_type=code` +
-      `&scope=${encodeURIComponent("https://www.googleapis.com/auth/adwords")}` +
-      `&access_type=offline` +
-      `&prompt=consent` +
-      `&state=${encodeURIComponent(shop)}`;
-
-    console.log("Redirecting to Google OAuth");
-    console.log("Using Client ID:", process.env.GOOGLE_ADS_CLIENT_ID);
-    console.log("Using Redirect URI:", redirectUri);
-
-    return redirect(authUrl);
-  }
-
   // This is the callback from Google
   if (error) {
     console.error("[Google OAuth] OAuth error:", error);
     return redirect(`/app/settings?error=${encodeURIComponent("Google OAuth failed: " + error)}`);
   }
 
-  if (!code || !state) {
-    console.error("[Google OAuth] Missing code or state in callback");
+  const shop = verifyOAuthState(state);
+  if (!code || !shop) {
+    console.error("[Google OAuth] Missing code or invalid state in callback");
     return redirect("/app/settings?error=" + encodeURIComponent("Invalid OAuth callback"));
   }
 
   try {
     // Exchange authorization code for access token
-    const redirectUri = process.env.GOOGLE_ADS_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/google-oauth";
-    
     console.log("[Google OAuth] Starting token exchange");
-    console.log("[Google OAuth] Redirect URI:", redirectUri);
+    console.log("[Google OAuth] Redirect URI:", GOOGLE_ADS_REDIRECT_URI);
     console.log("[Google OAuth] Client ID:", process.env.GOOGLE_ADS_CLIENT_ID || "NOT SET");
     console.log("[Google OAuth] Client Secret exists:", !!process.env.GOOGLE_ADS_CLIENT_SECRET);
 
@@ -69,7 +40,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       return redirect("/app/settings?error=" + encodeURIComponent("Google credentials not configured on server"));
     }
 
-    const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
+    const tokenResponse = await fetch(GOOGLE_TOKEN_URL, {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -78,7 +49,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         code: code,
         client_id: process.env.GOOGLE_ADS_CLIENT_ID,
         client_secret: process.env.GOOGLE_ADS_CLIENT_SECRET,
-        redirect_uri: redirectUri,
+        redirect_uri: GOOGLE_ADS_REDIRECT_URI,
         grant_type: "authorization_code",
       }),
     });
@@ -103,18 +74,23 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       return redirect("/app/settings?error=" + encodeURIComponent("No access token received"));
     }
 
+    const adAccounts = await getGoogleAdAccounts(tokenData.access_token);
+    console.log("[Google OAuth] Client accounts:", adAccounts.length);
+
     // Store the credentials in the database
     const credentials = JSON.stringify({
       accessToken: tokenData.access_token,
       refreshToken: tokenData.refresh_token,
       expiresAt: Date.now() + (tokenData.expires_in * 1000),
       scope: tokenData.scope,
+      adAccounts,
+      selectedAdAccountIds: adAccounts[0] ? [adAccounts[0].id] : [], // Default to first client account
     });
 
     await prisma.integration.upsert({
       where: {
         shop_platform: {
-          shop: state,
+          shop,
           platform: "google_ads",
         },
       },
@@ -124,18 +100,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         lastSync: null, // Reset last sync when reconnecting
       },
       create: {
-        shop: state,
+        shop,
         platform: "google_ads",
         credentials: credentials,
         isActive: true,
       },
     });
 
-    console.log("[Google OAuth] Successfully stored Google Ads credentials for shop:", state);
+    console.log("[Google OAuth] Successfully stored Google Ads credentials for shop:", shop);
 
     // Trigger initial sync in the background
-    const { syncGoogleHistoricalData } = await import("../utils/google-ads");
-    syncGoogleHistoricalData(state, 365).catch(error => {
+    syncGoogleHistoricalData(shop, 365).catch(error => {
       console.error("[Google OAuth] Background sync failed:", error);
     });
 
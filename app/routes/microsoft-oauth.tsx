@@ -0,0 +1,82 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { prisma } from "../utils/database";
+import { verifyOAuthState } from "../utils/oauth-state";
+import {
+  MICROSOFT_ADS_REDIRECT_URI,
+  exchangeMicrosoftCode,
+  getMicrosoftAdAccounts,
+  syncMicrosoftHistoricalData,
+} from "../utils/microsoft-ads";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  // Signed by the Settings action that started the flow, see createOAuthState
+  const state = url.searchParams.get("state");
+  const error = url.searchParams.get("error");
+
+  console.log("[Microsoft OAuth] Request received");
+  console.log("[Microsoft OAuth] Has code:", !!code);
+  console.log("[Microsoft OAuth] Error:", error);
+
+  // This is the callback from Microsoft
+  if (error) {
+    console.error("[Microsoft OAuth] OAuth error:", error);
+    return redirect(`/app/settings?error=${encodeURIComponent("Microsoft OAuth failed: " + error)}`);
+  }
+
+  const shop = verifyOAuthState(state);
+  if (!code || !shop) {
+    console.error("[Microsoft OAuth] Missing code or invalid state in callback");
+    return redirect("/app/settings?error=" + encodeURIComponent("Invalid OAuth callback"));
+  }
+
+  try {
+    const tokens = await exchangeMicrosoftCode(code, MICROSOFT_ADS_REDIRECT_URI);
+
+    if (!tokens) {
+      return redirect("/app/settings?error=" + encodeURIComponent("Failed to get access token"));
+    }
+
+    const adAccounts = await getMicrosoftAdAccounts(tokens.accessToken);
+    console.log(`[Microsoft OAuth] Found ${adAccounts.length} ad accounts`);
+
+    const credentials = JSON.stringify({
+      ...tokens,
+      adAccounts,
+      selectedAdAccountIds: adAccounts[0] ? [adAccounts[0].id] : [],
+    });
+
+    await prisma.integration.upsert({
+      where: {
+        shop_platform: {
+          shop,
+          platform: "microsoft_ads",
+        },
+      },
+      update: {
+        credentials: credentials,
+        isActive: true,
+        lastSync: null, // Reset last sync when reconnecting
+      },
+      create: {
+        shop,
+        platform: "microsoft_ads",
+        credentials: credentials,
+        isActive: true,
+      },
+    });
+
+    console.log("[Microsoft OAuth] Successfully stored Microsoft Ads credentials for shop:", shop);
+
+    // Trigger initial sync in the background
+    syncMicrosoftHistoricalData(shop, 365).catch(error => {
+      console.error("[Microsoft OAuth] Background sync failed:", error);
+    });
+
+    return redirect("/app/settings?success=microsoft");
+  } catch (error) {
+    console.error("[Microsoft OAuth] Unexpected error:", error);
+    return redirect("/app/settings?error=" + encodeURIComponent("Failed to connect Microsoft Ads"));
+  }
+};
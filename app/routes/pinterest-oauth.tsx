@@ -0,0 +1,82 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { prisma } from "../utils/database";
+import { verifyOAuthState } from "../utils/oauth-state";
+import {
+  PINTEREST_REDIRECT_URI,
+  exchangePinterestCode,
+  getPinterestAdAccounts,
+  syncPinterestHistoricalData,
+} from "../utils/pinterest-ads";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  // Signed by the Settings action that started the flow, see createOAuthState
+  const state = url.searchParams.get("state");
+  const error = url.searchParams.get("error");
+
+  console.log("[Pinterest OAuth] Request received");
+  console.log("[Pinterest OAuth] Has code:", !!code);
+  console.log("[Pinterest OAuth] Error:", error);
+
+  // This is the callback from Pinterest
+  if (error) {
+    console.error("[Pinterest OAuth] OAuth error:", error);
+    return redirect(`/app/settings?error=${encodeURIComponent("Pinterest OAuth failed: " + error)}`);
+  }
+
+  const shop = verifyOAuthState(state);
+  if (!code || !shop) {
+    console.error("[Pinterest OAuth] Missing code or invalid state in callback");
+    return redirect("/app/settings?error=" + encodeURIComponent("Invalid OAuth callback"));
+  }
+
+  try {
+    const tokens = await exchangePinterestCode(code, PINTEREST_REDIRECT_URI);
+
+    if (!tokens) {
+      return redirect("/app/settings?error=" + encodeURIComponent("Failed to get access token"));
+    }
+
+    const adAccounts = await getPinterestAdAccounts(tokens.accessToken);
+    console.log(`[Pinterest OAuth] Found ${adAccounts.length} ad accounts`);
+
+    const credentials = JSON.stringify({
+      ...tokens,
+      adAccounts,
+      selectedAdAccountIds: adAccounts[0] ? [adAccounts[0].id] : [],
+    });
+
+    await prisma.integration.upsert({
+      where: {
+        shop_platform: {
+          shop,
+          platform: "pinterest_ads",
+        },
+      },
+      update: {
+        credentials: credentials,
+        isActive: true,
+        lastSync: null, // Reset last sync when reconnecting
+      },
+      create: {
+        shop,
+        platform: "pinterest_ads",
+        credentials: credentials,
+        isActive: true,
+      },
+    });
+
+    console.log("[Pinterest OAuth] Successfully stored Pinterest Ads credentials for shop:", shop);
+
+    // Trigger initial sync in the background
+    syncPinterestHistoricalData(shop, 365).catch(error => {
+      console.error("[Pinterest OAuth] Background sync failed:", error);
+    });
+
+    return redirect("/app/settings?success=pinterest");
+  } catch (error) {
+    console.error("[Pinterest OAuth] Unexpected error:", error);
+    return redirect("/app/settings?error=" + encodeURIComponent("Failed to connect Pinterest Ads"));
+  }
+};
@@ -0,0 +1,82 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { prisma } from "../utils/database";
+import { verifyOAuthState } from "../utils/oauth-state";
+import {
+  SNAPCHAT_REDIRECT_URI,
+  exchangeSnapchatCode,
+  getSnapchatAdAccounts,
+  syncSnapchatHistoricalData,
+} from "../utils/snapchat-ads";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  // Signed by the Settings action that started the flow, see createOAuthState
+  const state = url.searchParams.get("state");
+  const error = url.searchParams.get("error");
+
+  console.log("[Snapchat OAuth] Request received");
+  console.log("[Snapchat OAuth] Has code:", !!code);
+  console.log("[Snapchat OAuth] Error:", error);
+
+  // This is the callback from Snapchat
+  if (error) {
+    console.error("[Snapchat OAuth] OAuth error:", error);
+    return redirect(`/app/settings?error=${encodeURIComponent("Snapchat OAuth failed: " + error)}`);
+  }
+
+  const shop = verifyOAuthState(state);
+  if (!code || !shop) {
+    console.error("[Snapchat OAuth] Missing code or invalid state in callback");
+    return redirect("/app/settings?error=" + encodeURIComponent("Invalid OAuth callback"));
+  }
+
+  try {
+    const tokens = await exchangeSnapchatCode(code, SNAPCHAT_REDIRECT_URI);
+
+    if (!tokens) {
+      return redirect("/app/settings?error=" + encodeURIComponent("Failed to get access token"));
+    }
+
+    const adAccounts = await getSnapchatAdAccounts(tokens.accessToken);
+    console.log(`[Snapchat OAuth] Found ${adAccounts.length} ad accounts`);
+
+    const credentials = JSON.stringify({
+      ...tokens,
+      adAccounts,
+      selectedAdAccountIds: adAccounts[0] ? [adAccounts[0].id] : [],
+    });
+
+    await prisma.integration.upsert({
+      where: {
+        shop_platform: {
+          shop,
+          platform: "snapchat_ads",
+        },
+      },
+      update: {
+        credentials: credentials,
+        isActive: true,
+        lastSync: null, // Reset last sync when reconnecting
+      },
+      create: {
+        shop,
+        platform: "snapchat_ads",
+        credentials: credentials,
+        isActive: true,
+      },
+    });
+
+    console.log("[Snapchat OAuth] Successfully stored Snapchat Ads credentials for shop:", shop);
+
+    // Trigger initial sync in the background
+    syncSnapchatHistoricalData(shop, 365).catch(error => {
+      console.error("[Snapchat OAuth] Background sync failed:", error);
+    });
+
+    return redirect("/app/settings?success=snapchat");
+  } catch (error) {
+    console.error("[Snapchat OAuth] Unexpected error:", error);
+    return redirect("/app/settings?error=" + encodeURIComponent("Failed to connect Snapchat Ads"));
+  }
+};
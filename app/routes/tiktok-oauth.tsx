@@ -0,0 +1,78 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { prisma } from "../utils/database";
+import { verifyOAuthState } from "../utils/oauth-state";
+import { exchangeTikTokCode, getTikTokAdvertisers, syncTikTokHistoricalData } from "../utils/tiktok-ads";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const url = new URL(request.url);
+  const authCode = url.searchParams.get("auth_code");
+  // Signed by the Settings action that started the flow, see createOAuthState
+  const state = url.searchParams.get("state");
+
+  console.log("[TikTok OAuth] Request received");
+  console.log("[TikTok OAuth] Has auth code:", !!authCode);
+  console.log("[TikTok OAuth] Has state:", !!state);
+
+  // TikTok sends the merchant back without an auth code when they decline
+  if (!authCode) {
+    console.error("[TikTok OAuth] Missing auth code in callback");
+    return redirect("/app/settings?error=" + encodeURIComponent("TikTok authorization was cancelled"));
+  }
+
+  const shop = verifyOAuthState(state);
+  if (!shop) {
+    console.error("[TikTok OAuth] Invalid or expired state in callback");
+    return redirect("/app/settings?error=" + encodeURIComponent("Invalid OAuth callback"));
+  }
+
+  try {
+    const token = await exchangeTikTokCode(authCode);
+    if (!token) {
+      return redirect("/app/settings?error=" + encodeURIComponent("Failed to get access token"));
+    }
+
+    const accessToken = token.accessToken;
+    const advertisers = await getTikTokAdvertisers(accessToken);
+
+    console.log(`[TikTok OAuth] Found ${advertisers.length} advertisers`);
+
+    const credentials = JSON.stringify({
+      accessToken,
+      adAccounts: advertisers,
+      selectedAdAccountIds: advertisers[0] ? [advertisers[0].id] : [],
+      scope: token.scope,
+    });
+
+    await prisma.integration.upsert({
+      where: {
+        shop_platform: {
+          shop,
+          platform: "tiktok_ads",
+        },
+      },
+      update: {
+        credentials: credentials,
+        isActive: true,
+        lastSync: null, // Reset last sync when reconnecting
+      },
+      create: {
+        shop,
+        platform: "tiktok_ads",
+        credentials: credentials,
+        isActive: true,
+      },
+    });
+
+    console.log("[TikTok OAuth] Successfully stored TikTok Ads credentials for shop:", shop);
+
+    // Trigger initial sync in the background
+    syncTikTokHistoricalData(shop, 365).catch(error => {
+      console.error("[TikTok OAuth] Background sync failed:", error);
+    });
+
+    return redirect("/app/settings?success=tiktok");
+  } catch (error) {
+    console.error("[TikTok OAuth] Unexpected error:", error);
+    return redirect("/app/settings?error=" + encodeURIComponent("Failed to connect TikTok Ads"));
+  }
+};
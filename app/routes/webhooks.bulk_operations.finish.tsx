@@ -0,0 +1,28 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { completeOrdersBulkSync } from "../utils/bulk-operations";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const bulkOperationId = payload.admin_graphql_api_id as string;
+
+  // The app may have been uninstalled while the operation was running
+  // Importing takes far longer than Shopify waits for a response, so it runs in the
+  // background. Claiming the sync keeps a retried webhook from importing it twice.
+  if (admin && bulkOperationId) {
+    completeOrdersBulkSync(admin, shop, bulkOperationId)
+      .then((result) => {
+        if (!result.success) {
+          console.error(`[Bulk Sync] Failed to complete ${bulkOperationId}:`, result.error);
+        }
+      })
+      .catch(error => {
+        console.error(`[Bulk Sync] Failed to complete ${bulkOperationId}:`, error);
+      });
+  }
+
+  return new Response();
+};
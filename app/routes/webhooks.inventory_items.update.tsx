@@ -0,0 +1,24 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { recordInventoryItemCost } from "../utils/cost-history";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const inventoryItemId = payload.admin_graphql_api_id as string;
+
+  if (admin && inventoryItemId) {
+    try {
+      const recorded = await recordInventoryItemCost(admin, shop, inventoryItemId, payload.cost, payload.updated_at);
+      if (recorded) {
+        console.log(`[Cost History] Recorded cost ${payload.cost} for ${inventoryItemId}`);
+      }
+    } catch (error) {
+      console.error(`[Cost History] Failed to record cost for ${inventoryItemId}:`, error);
+    }
+  }
+
+  return new Response();
+};
@@ -0,0 +1,25 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { syncLedgerOrder } from "../utils/order-ledger";
+
+// Handles orders/create, orders/updated, orders/cancelled and refunds/create
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Refund payloads reference their order, order payloads are the order itself
+  const orderId = topic === "REFUNDS_CREATE"
+    ? `gid://shopify/Order/${payload.order_id}`
+    : (payload.admin_graphql_api_id as string);
+
+  // Answered right away so slow order queries don't hit Shopify's webhook timeout
+  if (admin && orderId) {
+    syncLedgerOrder(admin, shop, orderId).catch(error => {
+      // Reconciliation picks up anything missed here
+      console.error(`[Ledger] Failed to sync ${orderId} from ${topic} webhook:`, error);
+    });
+  }
+
+  return new Response();
+};
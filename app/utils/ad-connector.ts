@@ -0,0 +1,324 @@
+import { getSelectedAdAccountIds } from "./ad-platforms";
+import { prisma, saveAdPerformance, saveDailyMarketingSpend, toCostDate } from "./database";
+import type { AdPerformanceInput } from "./database";
+
+// Overlapping syncs (e.g. two dashboard loads) are skipped unless the running one is this old
+const SYNC_STALE_MS = 15 * 60 * 1000;
+const DEFAULT_REFRESH_LEAD_MS = 5 * 60 * 1000;
+
+export interface AdAccount {
+  id: string;
+  name: string;
+  currency?: string;
+  [key: string]: unknown; // Platform-specific details, e.g. Microsoft's parent customer ID
+}
+
+// Stored as JSON in Integration.credentials
+export interface AdPlatformCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number; // Epoch milliseconds
+  adAccounts?: AdAccount[];
+  selectedAdAccountIds?: string[];
+  selectedAdAccountId?: string | null; // Single account stored before several could be selected
+  [key: string]: unknown;
+}
+
+// Inclusive range of "YYYY-MM-DD" days
+export interface DateRange {
+  since: string;
+  until: string;
+}
+
+/**
+ * One ad platform's API. Connectors only talk to the platform; `syncAdPlatform`
+ * handles credentials, date windows, storage and status.
+ */
+export interface AdPlatformConnector {
+  platform: string; // MarketingCost.platform
+  integrationPlatform: string; // Integration.platform
+  label: string;
+  logTag: string;
+  maxRangeDays?: number; // Longest range one fetchDailySpend call accepts
+  maxHistoryDays?: number; // How far back the platform keeps data
+  refreshLeadMs?: number; // How long before expiry credentials are refreshed
+  // Where to send the merchant to grant access, or null when the app's credentials aren't configured.
+  // `state` is checked by the OAuth callback route.
+  authorizationUrl?(state: string): string | null;
+  listAccounts(credentials: AdPlatformCredentials): Promise<AdAccount[]>;
+  // Returns the credential fields to replace, or null when the refresh failed
+  refreshCredentials?(credentials: AdPlatformCredentials): Promise<Partial<AdPlatformCredentials> | null>;
+  // Spend per "YYYY-MM-DD" day in the range. Days without spend can be left out. The result
+  // replaces the stored days, so throw rather than return partial spend.
+  fetchDailySpend(credentials: AdPlatformCredentials, account: AdAccount, range: DateRange): Promise<Map<string, number>>;
+  // Daily campaign totals and ad set rows, for platforms that report them
+  fetchPerformance?(credentials: AdPlatformCredentials, account: AdAccount, range: DateRange): Promise<AdPerformanceInput[]>;
+}
+
+export interface AdPlatformSyncResult {
+  success: boolean;
+  totalAmount: number;
+  skipped?: boolean; // Another sync for the integration was running, and will run this one when it finishes
+  error?: string;
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Splits a range into consecutive windows of at most `maxDays` days
+export function splitDateRange(range: DateRange, maxDays?: number): DateRange[] {
+  if (!maxDays) return [range];
+
+  const windows: DateRange[] = [];
+  const start = new Date(`${range.since}T00:00:00Z`);
+  const end = new Date(`${range.until}T00:00:00Z`);
+
+  while (start <= end) {
+    const windowEnd = new Date(start);
+    windowEnd.setUTCDate(windowEnd.getUTCDate() + maxDays - 1);
+    windows.push({ since: formatDate(start), until: formatDate(windowEnd < end ? windowEnd : end) });
+    start.setUTCDate(start.getUTCDate() + maxDays);
+  }
+
+  return windows;
+}
+
+// Adds a day's spend into a running total, ignoring empty days
+export function addDailySpend(dailySpend: Map<string, number>, date: string | undefined, amount: number) {
+  if (date && amount > 0) {
+    dailySpend.set(date, (dailySpend.get(date) || 0) + amount);
+  }
+}
+
+// Refreshes credentials that expire soon and saves them; throws when the platform refuses
+async function ensureFreshCredentials(
+  connector: AdPlatformConnector,
+  integrationId: string,
+  credentials: AdPlatformCredentials
+): Promise<AdPlatformCredentials> {
+  const refreshLeadMs = connector.refreshLeadMs ?? DEFAULT_REFRESH_LEAD_MS;
+  if (!connector.refreshCredentials || (credentials.expiresAt && Date.now() < credentials.expiresAt - refreshLeadMs)) {
+    return credentials;
+  }
+
+  console.log(`${connector.logTag} Access token expiring, refreshing...`);
+  const refreshed = await connector.refreshCredentials(credentials);
+  if (!refreshed) {
+    throw new Error(`Failed to refresh ${connector.label} token, please reconnect`);
+  }
+
+  const updated = { ...credentials, ...refreshed };
+  await prisma.integration.update({
+    where: { id: integrationId },
+    data: { credentials: JSON.stringify(updated) },
+  });
+  return updated;
+}
+
+// Syncs one account's spend over the range and returns the total stored
+async function syncAdAccount(
+  connector: AdPlatformConnector,
+  shop: string,
+  credentials: AdPlatformCredentials,
+  account: AdAccount,
+  range: DateRange
+): Promise<number> {
+  console.log(`${connector.logTag} Syncing ${range.since} to ${range.until} for account ${account.id}`);
+
+  const dailySpend = new Map<string, number>();
+  for (const window of splitDateRange(range, connector.maxRangeDays)) {
+    const spend = await connector.fetchDailySpend(credentials, account, window);
+    for (const [date, amount] of spend) {
+      addDailySpend(dailySpend, date, amount);
+    }
+  }
+
+  const totalAmount = await saveDailyMarketingSpend(shop, connector.platform, connector.label, dailySpend, account.id);
+
+  // Days the platform now reports no spend for would otherwise keep their old amount
+  await prisma.marketingCost.deleteMany({
+    where: {
+      shop,
+      platform: connector.platform,
+      accountId: account.id,
+      date: {
+        gte: toCostDate(range.since),
+        lte: toCostDate(range.until),
+        notIn: Array.from(dailySpend.keys()).map(toCostDate),
+      },
+    },
+  });
+
+  if (connector.fetchPerformance) {
+    const performance: AdPerformanceInput[] = [];
+    for (const window of splitDateRange(range, connector.maxRangeDays)) {
+      performance.push(...(await connector.fetchPerformance(credentials, account, window)));
+    }
+    await saveAdPerformance(shop, connector.platform, account.id, range, performance);
+    console.log(`${connector.logTag} Stored ${performance.length} campaign and ad set rows for account ${account.id}`);
+  }
+
+  console.log(`${connector.logTag} Stored ${dailySpend.size} days for account ${account.id}, total amount: $${totalAmount}`);
+  return totalAmount;
+}
+
+// Claims the integration's sync lock, unless a sync started less than SYNC_STALE_MS ago holds it
+async function claimSync(integrationId: string): Promise<boolean> {
+  const claimed = await prisma.integration.updateMany({
+    where: {
+      id: integrationId,
+      OR: [
+        { syncStatus: { not: "syncing" } },
+        { lastSyncAttempt: null },
+        { lastSyncAttempt: { lt: new Date(Date.now() - SYNC_STALE_MS) } },
+      ],
+    },
+    data: { syncStatus: "syncing", lastSyncAttempt: new Date() },
+  });
+
+  return claimed.count > 0;
+}
+
+/**
+ * Syncs the last `days` days of spend for each selected account of a shop's connected
+ * platform. Each day is upserted, and synced days that no longer have spend are
+ * removed, so re-running a sync is always safe. One account failing doesn't stop
+ * the others. Progress and failures are recorded on the integration.
+ *
+ * A sync requested while another is running is queued on the integration, and the
+ * running sync starts it once it finishes, so a longer history request isn't lost.
+ */
+export async function syncAdPlatform(
+  connector: AdPlatformConnector,
+  shop: string,
+  days: number = 90,
+  fromQueue: boolean = false
+): Promise<AdPlatformSyncResult> {
+  const integration = await prisma.integration.findFirst({
+    where: {
+      shop,
+      platform: connector.integrationPlatform,
+      isActive: true,
+    },
+  });
+
+  if (!integration || !integration.credentials) {
+    return { success: false, totalAmount: 0, error: `${connector.label} not connected` };
+  }
+
+  if (!(await claimSync(integration.id))) {
+    // A queued run that lost the race leaves the request for whichever sync holds the lock
+    if (fromQueue) {
+      return { success: false, totalAmount: 0, skipped: true, error: "A sync is already running" };
+    }
+
+    // Keeps the longest history queued
+    await prisma.integration.updateMany({
+      where: {
+        id: integration.id,
+        OR: [{ pendingSyncDays: null }, { pendingSyncDays: { lt: days } }],
+      },
+      data: { pendingSyncDays: days },
+    });
+
+    // The running sync may have finished before the request was queued
+    if (!(await claimSync(integration.id))) {
+      console.log(`${connector.logTag} Sync already running for ${shop}, queued ${days} days`);
+      return { success: false, totalAmount: 0, skipped: true, error: "A sync is already running" };
+    }
+  }
+
+  // Take over any queued request, syncing the longest history asked for. A longer one
+  // queued meanwhile stays queued for the check below.
+  const claimed = await prisma.integration.findUnique({ where: { id: integration.id } });
+  days = Math.max(days, claimed?.pendingSyncDays || 0);
+  await prisma.integration.updateMany({
+    where: { id: integration.id, pendingSyncDays: { lte: days } },
+    data: { pendingSyncDays: null },
+  });
+
+  const result = await runClaimedSync(
+    connector,
+    shop,
+    integration.id,
+    claimed?.credentials || integration.credentials,
+    days
+  );
+
+  // Requests queued while this sync ran
+  const pending = await prisma.integration.findUnique({
+    where: { id: integration.id },
+    select: { pendingSyncDays: true },
+  });
+  if (pending?.pendingSyncDays) {
+    console.log(`${connector.logTag} Starting queued ${pending.pendingSyncDays} day sync for ${shop}`);
+    syncAdPlatform(connector, shop, pending.pendingSyncDays, true).catch(error => {
+      console.error(`${connector.logTag} Queued sync failed:`, error);
+    });
+  }
+
+  return result;
+}
+
+async function runClaimedSync(
+  connector: AdPlatformConnector,
+  shop: string,
+  integrationId: string,
+  storedCredentials: string,
+  days: number
+): Promise<AdPlatformSyncResult> {
+  try {
+    const credentials = await ensureFreshCredentials(connector, integrationId, JSON.parse(storedCredentials));
+
+    const accounts = getSelectedAdAccountIds(credentials).map(
+      (accountId) =>
+        (credentials.adAccounts || []).find((candidate) => candidate.id === accountId) || { id: accountId, name: accountId }
+    );
+
+    if (accounts.length === 0) {
+      throw new Error(`No ${connector.label} account selected`);
+    }
+
+    const historyDays = Math.min(days, connector.maxHistoryDays ?? days);
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - historyDays);
+    const range = { since: formatDate(startDate), until: formatDate(new Date()) };
+
+    let totalAmount = 0;
+    const failures: string[] = [];
+
+    for (const account of accounts) {
+      try {
+        totalAmount += await syncAdAccount(connector, shop, credentials, account, range);
+      } catch (error) {
+        console.error(`${connector.logTag} Sync failed for account ${account.id}:`, error);
+        failures.push(`${account.name}: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+
+    const syncedAny = failures.length < accounts.length;
+    await prisma.integration.update({
+      where: { id: integrationId },
+      data: {
+        ...(syncedAny ? { lastSync: new Date() } : {}),
+        syncStatus: failures.length > 0 ? "error" : "success",
+        syncError: failures.length > 0 ? failures.join("; ") : null,
+      },
+    });
+
+    return syncedAny
+      ? { success: true, totalAmount, ...(failures.length > 0 ? { error: failures.join("; ") } : {}) }
+      : { success: false, totalAmount: 0, error: failures.join("; ") };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`${connector.logTag} Sync failed:`, error);
+
+    await prisma.integration.update({
+      where: { id: integrationId },
+      data: { syncStatus: "error", syncError: message },
+    });
+
+    return { success: false, totalAmount: 0, error: message };
+  }
+}
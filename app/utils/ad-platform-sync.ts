@@ -0,0 +1,19 @@
+import type { AdPlatformConnector } from "./ad-connector";
+import type { AdAccountPlatformKey } from "./ad-platforms";
+import { amazonConnector } from "./amazon-ads";
+import { facebookConnector } from "./facebook-ads";
+import { googleConnector } from "./google-ads";
+import { microsoftConnector } from "./microsoft-ads";
+import { pinterestConnector } from "./pinterest-ads";
+import { snapchatConnector } from "./snapchat-ads";
+import { tiktokConnector } from "./tiktok-ads";
+
+export const AD_PLATFORM_CONNECTORS: Record<AdAccountPlatformKey, AdPlatformConnector> = {
+  facebook: facebookConnector,
+  google: googleConnector,
+  tiktok: tiktokConnector,
+  snapchat: snapchatConnector,
+  pinterest: pinterestConnector,
+  microsoft: microsoftConnector,
+  amazon: amazonConnector,
+};
@@ -0,0 +1,109 @@
+// Ad platforms connected through OAuth that sync daily spend into MarketingCost.
+// Kept free of server imports so Settings can render a card for each one.
+export type AdPlatformKey = "tiktok" | "snapchat" | "pinterest" | "microsoft" | "amazon";
+
+export interface AdPlatformConnection {
+  key: AdPlatformKey; // MarketingCost.platform for the synced spend
+  integrationPlatform: string; // Integration.platform
+  label: string;
+  color: string;
+  textColor?: string; // Logo letter color, white by default
+  initial: string;
+}
+
+export const AD_PLATFORM_CONNECTIONS: AdPlatformConnection[] = [
+  { key: "tiktok", integrationPlatform: "tiktok_ads", label: "TikTok Ads", color: "#000000", initial: "T" },
+  { key: "snapchat", integrationPlatform: "snapchat_ads", label: "Snapchat Ads", color: "#FFFC00", textColor: "#000000", initial: "S" },
+  { key: "pinterest", integrationPlatform: "pinterest_ads", label: "Pinterest Ads", color: "#E60023", initial: "P" },
+  { key: "microsoft", integrationPlatform: "microsoft_ads", label: "Microsoft Ads", color: "#00A4EF", initial: "M" },
+  { key: "amazon", integrationPlatform: "amazon_ads", label: "Amazon Ads", color: "#FF9900", textColor: "#000000", initial: "a" },
+];
+
+export function getAdPlatformConnection(key: unknown): AdPlatformConnection | undefined {
+  return AD_PLATFORM_CONNECTIONS.find((connection) => connection.key === key);
+}
+
+// Every platform whose spend is synced per ad account, including Facebook and
+// Google, which have their own Settings cards
+export type AdAccountPlatformKey = "facebook" | "google" | AdPlatformKey;
+
+export interface AdAccountPlatform {
+  key: AdAccountPlatformKey;
+  integrationPlatform: string;
+  label: string;
+}
+
+export const AD_ACCOUNT_PLATFORMS: AdAccountPlatform[] = [
+  { key: "facebook", integrationPlatform: "facebook_ads", label: "Facebook Ads" },
+  { key: "google", integrationPlatform: "google_ads", label: "Google Ads" },
+  ...AD_PLATFORM_CONNECTIONS,
+];
+
+export function getAdAccountPlatform(key: unknown): AdAccountPlatform | undefined {
+  return AD_ACCOUNT_PLATFORMS.find((platform) => platform.key === key);
+}
+
+// Connections made before several accounts could be selected only store `selectedAdAccountId`
+export function getSelectedAdAccountIds(
+  credentials: { selectedAdAccountIds?: string[]; selectedAdAccountId?: string | null } | null | undefined
+): string[] {
+  if (Array.isArray(credentials?.selectedAdAccountIds)) return credentials.selectedAdAccountIds;
+  return credentials?.selectedAdAccountId ? [credentials.selectedAdAccountId] : [];
+}
+
+export interface AdAccountOption {
+  value: string; // "<platform>:<account id>", see parseAdAccountOption
+  label: string;
+}
+
+// The selected accounts of each connected integration, for filtering spend by account
+export function getAdAccountOptions(
+  integrations: Array<{ platform: string; credentials: string | null }>
+): AdAccountOption[] {
+  return integrations.flatMap((integration) => {
+    const platform = AD_ACCOUNT_PLATFORMS.find(
+      (candidate) => candidate.integrationPlatform === integration.platform
+    );
+    if (!platform || !integration.credentials) return [];
+
+    const credentials = JSON.parse(integration.credentials);
+    return getSelectedAdAccountIds(credentials).map((accountId) => {
+      const account = (credentials.adAccounts || []).find((candidate: any) => candidate.id === accountId);
+      return {
+        value: `${platform.key}:${accountId}`,
+        label: `${platform.label} · ${account?.name || accountId}`,
+      };
+    });
+  });
+}
+
+export function parseAdAccountOption(value: string | null): { platform: string; accountId: string } | null {
+  const separator = value ? value.indexOf(":") : -1;
+  if (!value || separator <= 0) return null;
+  return { platform: value.slice(0, separator), accountId: value.slice(separator + 1) };
+}
+
+// Email and SMS tools billed by subscription. None of them expose invoices through
+// their APIs, so the merchant enters the plan price. The key is used for both
+// MarketingCost.platform and Integration.platform.
+export type SubscriptionToolKey = "klaviyo" | "postscript" | "attentive";
+
+export interface SubscriptionTool {
+  key: SubscriptionToolKey;
+  label: string;
+  description: string;
+}
+
+export const SUBSCRIPTION_TOOLS: SubscriptionTool[] = [
+  { key: "klaviyo", label: "Klaviyo", description: "Email and SMS marketing" },
+  { key: "postscript", label: "Postscript", description: "SMS marketing" },
+  { key: "attentive", label: "Attentive", description: "SMS marketing" },
+];
+
+// MarketingCost.accountId of the invoices a plan produces, keeping them apart from
+// manual entries under the same platform
+export const SUBSCRIPTION_ACCOUNT_ID = "subscription";
+
+export function getSubscriptionTool(key: unknown): SubscriptionTool | undefined {
+  return SUBSCRIPTION_TOOLS.find((tool) => tool.key === key);
+}
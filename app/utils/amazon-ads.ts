@@ -0,0 +1,221 @@
+import { gunzipSync } from "node:zlib";
+import { addDailySpend, syncAdPlatform } from "./ad-connector";
+import type { AdAccount, AdPlatformConnector, AdPlatformCredentials } from "./ad-connector";
+
+// Overridable for the EU and Far East regions, or a local stand-in
+export const AMAZON_ADS_API_BASE_URL = process.env.AMAZON_ADS_API_BASE_URL || "https://advertising-api.amazon.com";
+export const AMAZON_ADS_REDIRECT_URI =
+  process.env.AMAZON_ADS_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/amazon-oauth";
+const AMAZON_TOKEN_URL = process.env.AMAZON_TOKEN_URL || "https://api.amazon.com/auth/o2/token";
+
+const REPORT_POLL_INTERVAL_MS = 5000;
+const REPORT_MAX_POLLS = 60;
+
+// Sponsored Products, Brands and Display each have their own campaign report
+const SPONSORED_AD_REPORTS = [
+  { adProduct: "SPONSORED_PRODUCTS", reportTypeId: "spCampaigns" },
+  { adProduct: "SPONSORED_BRANDS", reportTypeId: "sbCampaigns" },
+  { adProduct: "SPONSORED_DISPLAY", reportTypeId: "sdCampaigns" },
+];
+
+async function requestAmazonToken(params: Record<string, string>): Promise<AdPlatformCredentials | null> {
+  try {
+    const response = await fetch(AMAZON_TOKEN_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        client_id: process.env.AMAZON_ADS_CLIENT_ID || "",
+        client_secret: process.env.AMAZON_ADS_CLIENT_SECRET || "",
+        ...params,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || !data.access_token) {
+      console.error("[Amazon OAuth] Token request failed:", data);
+      return null;
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || params.refresh_token,
+      expiresAt: Date.now() + (data.expires_in * 1000),
+    };
+  } catch (error) {
+    console.error("Error requesting Amazon token:", error);
+    return null;
+  }
+}
+
+export async function exchangeAmazonCode(code: string, redirectUri: string) {
+  return requestAmazonToken({
+    code,
+    grant_type: "authorization_code",
+    redirect_uri: redirectUri,
+  });
+}
+
+// Keeps the HTTP status, so rejected report requests can be told apart from failures
+class AmazonAdsApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AmazonAdsApiError";
+  }
+}
+
+async function amazonRequest(
+  path: string,
+  accessToken: string,
+  options: { method?: string; profileId?: string; contentType?: string; body?: unknown } = {}
+): Promise<any> {
+  const response = await fetch(`${AMAZON_ADS_API_BASE_URL}${path}`, {
+    method: options.method || "GET",
+    headers: {
+      "Authorization": `Bearer ${accessToken}`,
+      "Amazon-Advertising-API-ClientId": process.env.AMAZON_ADS_CLIENT_ID || "",
+      ...(options.profileId ? { "Amazon-Advertising-API-Scope": options.profileId } : {}),
+      ...(options.contentType ? { "Content-Type": options.contentType } : {}),
+    },
+    body: options.body ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new AmazonAdsApiError(`Amazon Ads API request failed (${response.status}): ${errorText}`, response.status);
+  }
+
+  return response.json();
+}
+
+// Requests one campaign report and waits for it, returning its rows
+async function runSponsoredAdsReport(
+  accessToken: string,
+  profileId: string,
+  report: { adProduct: string; reportTypeId: string },
+  startDate: string,
+  endDate: string
+): Promise<Array<{ date: string; cost: number }>> {
+  const { reportId } = await amazonRequest("/reporting/reports", accessToken, {
+    method: "POST",
+    profileId,
+    contentType: "application/vnd.createasyncreportrequest.v3+json",
+    body: {
+      name: `Daily spend ${startDate} to ${endDate}`,
+      startDate,
+      endDate,
+      configuration: {
+        adProduct: report.adProduct,
+        reportTypeId: report.reportTypeId,
+        groupBy: ["campaign"],
+        columns: ["date", "cost"],
+        timeUnit: "DAILY",
+        format: "GZIP_JSON",
+      },
+    },
+  });
+
+  for (let poll = 0; poll < REPORT_MAX_POLLS; poll++) {
+    const status = await amazonRequest(`/reporting/reports/${reportId}`, accessToken, { profileId });
+
+    if (status.status === "FAILED") {
+      throw new Error(status.failureReason || `Amazon Ads ${report.reportTypeId} report failed`);
+    }
+    if (status.status === "COMPLETED" && status.url) {
+      const response = await fetch(status.url);
+      if (!response.ok) {
+        throw new Error(`Amazon Ads report download failed (${response.status})`);
+      }
+      return JSON.parse(gunzipSync(Buffer.from(await response.arrayBuffer())).toString("utf8"));
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, REPORT_POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Timed out waiting for the Amazon Ads ${report.reportTypeId} report`);
+}
+
+export const amazonConnector: AdPlatformConnector = {
+  platform: "amazon",
+  integrationPlatform: "amazon_ads",
+  label: "Amazon Ads",
+  logTag: "[Amazon Sync]",
+  // Reports cover at most 31 days, and Amazon only keeps about 95 days of campaign data
+  maxRangeDays: 31,
+  maxHistoryDays: 95,
+
+  authorizationUrl(state) {
+    if (!process.env.AMAZON_ADS_CLIENT_ID || !process.env.AMAZON_ADS_CLIENT_SECRET) return null;
+
+    return (
+      `https://www.amazon.com/ap/oa?` +
+      `client_id=${process.env.AMAZON_ADS_CLIENT_ID}` +
+      `&redirect_uri=${encodeURIComponent(AMAZON_ADS_REDIRECT_URI)}` +
+      `&response_type=code` +
+      `&scope=${encodeURIComponent("advertising::campaign_management")}` +
+      `&state=${encodeURIComponent(state)}`
+    );
+  },
+
+  async listAccounts(credentials) {
+    const profiles = await amazonRequest("/v2/profiles", credentials.accessToken);
+
+    return (profiles || []).map((profile: any): AdAccount => ({
+      id: String(profile.profileId),
+      name: `${profile.accountInfo?.name || `Profile ${profile.profileId}`} (${profile.countryCode})`,
+      currency: profile.currencyCode,
+    }));
+  },
+
+  // Login with Amazon access tokens last an hour
+  async refreshCredentials(credentials) {
+    return requestAmazonToken({
+      refresh_token: credentials.refreshToken || "",
+      grant_type: "refresh_token",
+    });
+  },
+
+  // Any report failing fails the whole window: partial spend would replace the stored
+  // days with lower totals
+  async fetchDailySpend(credentials, account, range) {
+    const dailySpend = new Map<string, number>();
+
+    for (const report of SPONSORED_AD_REPORTS) {
+      let rows: Array<{ date: string; cost: number }>;
+      try {
+        rows = await runSponsoredAdsReport(credentials.accessToken, account.id, report, range.since, range.until);
+      } catch (error) {
+        // Brands and Display reports are rejected for advertisers that don't run those ad types
+        const notRunning =
+          report.adProduct !== "SPONSORED_PRODUCTS" &&
+          error instanceof AmazonAdsApiError &&
+          (error.status === 400 || error.status === 403);
+        if (!notRunning) throw error;
+
+        console.log(`[Amazon Sync] Skipped ${report.reportTypeId} report for profile ${account.id}: ${error.message}`);
+        continue;
+      }
+
+      for (const row of rows) {
+        addDailySpend(dailySpend, row.date, Number(row.cost) || 0);
+      }
+    }
+
+    return dailySpend;
+  },
+};
+
+export async function getAmazonProfiles(accessToken: string): Promise<AdAccount[]> {
+  try {
+    return await amazonConnector.listAccounts({ accessToken });
+  } catch (error) {
+    console.error("Error fetching Amazon Ads profiles:", error);
+    return [];
+  }
+}
+
+export async function syncAmazonHistoricalData(shop: string, days: number = 90) {
+  return syncAdPlatform(amazonConnector, shop, days);
+}
@@ -0,0 +1,326 @@
+import { Readable } from "node:stream";
+import { createInterface } from "node:readline";
+import { prisma } from "./database";
+import {
+  applyShippingLabelCosts,
+  applyShopifyPaymentsFees,
+  LEDGER_LINE_ITEM_FIELDS,
+  LEDGER_ORDER_FIELDS,
+  normalizeLineItem,
+  normalizeOrder,
+  normalizeRefund,
+  normalizeTransactions,
+  saveLedgerRows,
+} from "./order-ledger";
+import type { LedgerLineItem, LedgerOrder, LedgerRefund, LedgerTransaction } from "./order-ledger";
+import { REFUND_FIELDS, fetchOrderRefunds } from "./shopify-data";
+import { loadCostHistory } from "./cost-history";
+
+const IMPORT_FLUSH_SIZE = 500;
+// Imports record progress as they go; one that hasn't for this long has crashed
+const IMPORT_STALE_MS = 15 * 60 * 1000;
+
+// Connections can't be nested inside list fields in a bulk query, so refunds only carry
+// their totals here and their line items are read per order after the import
+function buildOrdersBulkQuery(startDate: Date, endDate: Date): string {
+  const search = `created_at:>='${startDate.toISOString()}' AND created_at:<='${endDate.toISOString()}'`;
+
+  return `
+    {
+      orders(query: "${search}") {
+        edges {
+          node {
+            ${LEDGER_ORDER_FIELDS}
+            refunds {
+              ${REFUND_FIELDS}
+            }
+            lineItems {
+              edges {
+                node {
+                  ${LEDGER_LINE_ITEM_FIELDS}
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Starts a bulk operation exporting every order (with line items) from startDate up
+ * to now. Exports always reach the present, since reconciliation only picks up orders
+ * updated after the export started. Shopify only allows one bulk query per shop at a
+ * time, so this is a no-op while another sync is still running.
+ */
+export async function startOrdersBulkSync(
+  admin: any,
+  shop: string,
+  startDate: Date
+): Promise<{ success: boolean; bulkOperationId?: string; error?: string }> {
+  try {
+    const endDate = new Date();
+
+    // An import that crashed would otherwise block every later backfill
+    await prisma.orderSync.updateMany({
+      where: {
+        shop,
+        type: "bulk",
+        status: "importing",
+        updatedAt: { lt: new Date(Date.now() - IMPORT_STALE_MS) },
+      },
+      data: { status: "failed", errorCode: "IMPORT_STALE" },
+    });
+
+    const running = await prisma.orderSync.findFirst({
+      where: { shop, type: "bulk", status: { in: ["running", "importing"] } },
+    });
+
+    if (running?.bulkOperationId) {
+      console.log(`[Bulk Sync] Sync ${running.bulkOperationId} already running for ${shop}`);
+      return { success: true, bulkOperationId: running.bulkOperationId };
+    }
+
+    const response = await admin.graphql(
+      `#graphql
+        mutation runOrdersBulkQuery($query: String!) {
+          bulkOperationRunQuery(query: $query) {
+            bulkOperation {
+              id
+              status
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          query: buildOrdersBulkQuery(startDate, endDate),
+        },
+      }
+    );
+
+    const data = await response.json();
+    const result = data.data?.bulkOperationRunQuery;
+
+    if (result?.userErrors?.length) {
+      console.error("[Bulk Sync] User errors:", result.userErrors);
+      return { success: false, error: result.userErrors[0].message };
+    }
+
+    const bulkOperationId = result?.bulkOperation?.id;
+    if (!bulkOperationId) {
+      return { success: false, error: "Bulk operation was not created" };
+    }
+
+    await prisma.orderSync.create({
+      data: {
+        shop,
+        type: "bulk",
+        bulkOperationId,
+        status: "running",
+        startDate,
+        endDate,
+      },
+    });
+
+    console.log(`[Bulk Sync] Started ${bulkOperationId} for ${shop} (${startDate.toISOString()} to ${endDate.toISOString()})`);
+    return { success: true, bulkOperationId };
+  } catch (error) {
+    console.error("Error starting orders bulk sync:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+async function getBulkOperation(admin: any, bulkOperationId: string) {
+  const response = await admin.graphql(
+    `#graphql
+      query getBulkOperation($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation {
+            id
+            status
+            errorCode
+            objectCount
+            url
+          }
+        }
+      }
+    `,
+    { variables: { id: bulkOperationId } }
+  );
+
+  const data = await response.json();
+  return data.data?.node;
+}
+
+/**
+ * Finishes a bulk sync once Shopify reports it done: imports the JSONL result on
+ * success, or records the failure. Safe to call from both the webhook and polling,
+ * only the first caller imports.
+ */
+export async function completeOrdersBulkSync(
+  admin: any,
+  shop: string,
+  bulkOperationId: string
+): Promise<{ success: boolean; importedOrders: number; error?: string }> {
+  try {
+    const operation = await getBulkOperation(admin, bulkOperationId);
+
+    if (!operation || operation.status === "RUNNING" || operation.status === "CREATED") {
+      return { success: false, importedOrders: 0, error: "Bulk operation not finished" };
+    }
+
+    if (operation.status !== "COMPLETED") {
+      await prisma.orderSync.updateMany({
+        where: { shop, bulkOperationId },
+        data: { status: "failed", errorCode: operation.errorCode || operation.status },
+      });
+      return { success: false, importedOrders: 0, error: operation.errorCode || operation.status };
+    }
+
+    // Claim the import so a webhook and a poll don't both stream the same file
+    const claimed = await prisma.orderSync.updateMany({
+      where: { shop, bulkOperationId, status: "running" },
+      data: { status: "importing" },
+    });
+
+    if (claimed.count === 0) {
+      return { success: true, importedOrders: 0 };
+    }
+
+    // An empty result has no file to download
+    const importedOrders = operation.url
+      ? await importBulkOperationResult(admin, shop, bulkOperationId, operation.url)
+      : 0;
+
+    const sync = await prisma.orderSync.findFirst({ where: { shop, bulkOperationId } });
+    if (sync) {
+      await applyShopifyPaymentsFees(admin, shop, sync.startDate, new Date());
+      await applyShippingLabelCosts(admin, shop, sync.startDate, new Date());
+    }
+
+    await prisma.orderSync.updateMany({
+      where: { shop, bulkOperationId },
+      data: {
+        status: "completed",
+        objectCount: parseInt(operation.objectCount || "0", 10),
+        completedAt: new Date(),
+      },
+    });
+
+    console.log(`[Bulk Sync] Imported ${importedOrders} orders for ${shop} from ${bulkOperationId}`);
+    return { success: true, importedOrders };
+  } catch (error) {
+    console.error("Error completing orders bulk sync:", error);
+    await prisma.orderSync.updateMany({
+      where: { shop, bulkOperationId },
+      data: { status: "failed", errorCode: "IMPORT_FAILED" },
+    });
+    return {
+      success: false,
+      importedOrders: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Checks a running sync for the shop and completes it if Shopify has finished.
+ * Fallback for when the bulk_operations/finish webhook is delayed or missed.
+ */
+export async function pollOrdersBulkSync(admin: any, shop: string): Promise<void> {
+  const running = await prisma.orderSync.findFirst({
+    where: { shop, type: "bulk", status: "running" },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (running?.bulkOperationId) {
+    await completeOrdersBulkSync(admin, shop, running.bulkOperationId);
+  }
+}
+
+// Streams the JSONL export line by line. Line items carry `__parentId` pointing at
+// their order and always appear after it; refunds are inlined on the order row.
+async function importBulkOperationResult(
+  admin: any,
+  shop: string,
+  bulkOperationId: string,
+  url: string
+): Promise<number> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result (${response.status})`);
+  }
+
+  const lines = createInterface({
+    input: Readable.fromWeb(response.body as any),
+    crlfDelay: Infinity,
+  });
+
+  let orders: LedgerOrder[] = [];
+  let lineItems: LedgerLineItem[] = [];
+  let transactions: LedgerTransaction[] = [];
+  // Orders with refunds, whose line items are read once the export is saved
+  const refundedOrders = new Map<string, string>();
+  let importedOrders = 0;
+
+  // Also keeps the sync's updatedAt fresh, so it isn't taken for a crashed import
+  const recordProgress = () =>
+    prisma.orderSync.updateMany({
+      where: { shop, bulkOperationId },
+      data: { objectCount: importedOrders },
+    });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    const row = JSON.parse(line);
+    if (row.__parentId) {
+      lineItems.push(normalizeLineItem(shop, row.__parentId, row));
+    } else {
+      orders.push(normalizeOrder(shop, row));
+      transactions.push(...normalizeTransactions(shop, row.id, row.transactions));
+      if (row.refunds?.length) refundedOrders.set(row.id, row.createdAt);
+      importedOrders++;
+    }
+
+    if (orders.length + lineItems.length >= IMPORT_FLUSH_SIZE) {
+      await saveLedgerRows(orders, lineItems, [], transactions);
+      await recordProgress();
+      orders = [];
+      lineItems = [];
+      transactions = [];
+    }
+  }
+
+  await saveLedgerRows(orders, lineItems, [], transactions);
+
+  if (refundedOrders.size > 0) {
+    const costLookup = await loadCostHistory(shop);
+    let refunds: LedgerRefund[] = [];
+
+    for (const [orderId, orderCreatedAt] of refundedOrders) {
+      const refundNodes = await fetchOrderRefunds(admin, orderId);
+      refunds.push(...refundNodes.map((refund) => normalizeRefund(shop, orderId, refund, orderCreatedAt, costLookup)));
+
+      if (refunds.length >= IMPORT_FLUSH_SIZE) {
+        await saveLedgerRows([], [], refunds);
+        await recordProgress();
+        refunds = [];
+      }
+    }
+
+    await saveLedgerRows([], [], refunds);
+    console.log(`[Bulk Sync] Loaded refunds for ${refundedOrders.size} orders for ${shop}`);
+  }
+
+  return importedOrders;
+}
@@ -0,0 +1,114 @@
+// Stored AdPerformance fields needed for the marketing report
+export interface AdPerformanceRecord {
+  platform: string;
+  accountId: string;
+  campaignId: string;
+  campaignName: string;
+  adSetId: string; // Empty on campaign totals
+  adSetName: string | null;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  purchases: number;
+  purchaseValue: number;
+}
+
+export interface CampaignPerformanceRow {
+  id: string;
+  name: string;
+  platform: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  purchases: number;
+  purchaseValue: number; // As reported by the platform
+  roas: number; // Platform-reported purchase value per unit of spend
+  contribution: number; // Purchase value at the shop's gross margin, less spend
+  contributionMargin: number; // Contribution as a percentage of purchase value
+}
+
+export interface CampaignPerformance extends CampaignPerformanceRow {
+  adSets: CampaignPerformanceRow[];
+}
+
+function emptyRow(id: string, name: string, platform: string): CampaignPerformanceRow {
+  return {
+    id,
+    name,
+    platform,
+    spend: 0,
+    impressions: 0,
+    clicks: 0,
+    purchases: 0,
+    purchaseValue: 0,
+    roas: 0,
+    contribution: 0,
+    contributionMargin: 0,
+  };
+}
+
+function addRecord(row: CampaignPerformanceRow, record: AdPerformanceRecord): void {
+  row.spend += record.spend;
+  row.impressions += record.impressions;
+  row.clicks += record.clicks;
+  row.purchases += record.purchases;
+  row.purchaseValue += record.purchaseValue;
+}
+
+function finishRow(row: CampaignPerformanceRow, grossMargin: number): void {
+  row.roas = row.spend > 0 ? row.purchaseValue / row.spend : 0;
+  row.contribution = row.purchaseValue * (grossMargin / 100) - row.spend;
+  row.contributionMargin = row.purchaseValue > 0 ? (row.contribution / row.purchaseValue) * 100 : 0;
+}
+
+/**
+ * Rolls daily rows up to campaigns and their ad sets. Platforms only report purchase
+ * value, so contribution applies the shop's gross margin for the period (revenue less
+ * COGS, shipping and fees) to it, blending platform attribution with store costs.
+ */
+export function buildCampaignPerformance(
+  records: AdPerformanceRecord[],
+  grossMargin: number
+): CampaignPerformance[] {
+  const campaigns = new Map<string, CampaignPerformance>();
+  const adSets = new Map<string, CampaignPerformanceRow>();
+  // Campaigns with stored totals; the rest are summed from their ad sets
+  const campaignsWithTotals = new Set<string>();
+
+  for (const record of records) {
+    if (!record.adSetId) campaignsWithTotals.add(`${record.platform}:${record.accountId}:${record.campaignId}`);
+  }
+
+  for (const record of records) {
+    const campaignKey = `${record.platform}:${record.accountId}:${record.campaignId}`;
+
+    let campaign = campaigns.get(campaignKey);
+    if (!campaign) {
+      campaign = { ...emptyRow(campaignKey, record.campaignName, record.platform), adSets: [] };
+      campaigns.set(campaignKey, campaign);
+    }
+
+    if (!record.adSetId) {
+      addRecord(campaign, record);
+      continue;
+    }
+
+    const adSetKey = `${campaignKey}:${record.adSetId}`;
+    let adSet = adSets.get(adSetKey);
+    if (!adSet) {
+      adSet = emptyRow(adSetKey, record.adSetName || record.adSetId, record.platform);
+      adSets.set(adSetKey, adSet);
+      campaign.adSets.push(adSet);
+    }
+
+    addRecord(adSet, record);
+    if (!campaignsWithTotals.has(campaignKey)) addRecord(campaign, record);
+  }
+
+  for (const campaign of campaigns.values()) {
+    finishRow(campaign, grossMargin);
+    campaign.adSets.forEach((adSet) => finishRow(adSet, grossMargin));
+  }
+
+  return Array.from(campaigns.values());
+}
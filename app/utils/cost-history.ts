@@ -0,0 +1,323 @@
+import { prisma } from "./database";
+import { runThrottledQuery } from "./shopify-data";
+
+const VARIANTS_PAGE_SIZE = 250;
+const WRITE_BATCH_SIZE = 200;
+
+// Landed unit cost (unit cost plus freight and duty) effective for a variant at a point in
+// time, or only the product's unit cost with `part: "unit"`. Null when there's no history
+// for the variant.
+export type CostLookup = (variantId: string | null, at: Date | string, part?: "landed" | "unit") => number | null;
+
+export interface VariantCostEntry {
+  variantId: string;
+  inventoryItemId?: string | null;
+  sku?: string | null;
+  unitCost: number;
+  freightCost?: number; // Per unit; carried over from the previous entry when omitted
+  dutyCost?: number;
+  effectiveFrom: Date;
+  source: string; // "backfill", "webhook", "manual" or "import"
+}
+
+/**
+ * Adds a cost to a variant's history. Webhooks fire for any inventory item change,
+ * so automatic entries that don't change the cost in effect at that date are skipped.
+ * Shopify only knows the unit cost, so freight and duty carry over from the entry
+ * they replace.
+ */
+export async function recordVariantCost(shop: string, entry: VariantCostEntry): Promise<boolean> {
+  const current = await prisma.variantCostHistory.findFirst({
+    where: {
+      shop,
+      variantId: entry.variantId,
+      effectiveFrom: { lte: entry.effectiveFrom },
+    },
+    orderBy: { effectiveFrom: "desc" },
+  });
+
+  const freightCost = entry.freightCost ?? current?.freightCost ?? 0;
+  const dutyCost = entry.dutyCost ?? current?.dutyCost ?? 0;
+  const merchantEntered = entry.source === "manual" || entry.source === "import";
+
+  if (current && current.unitCost === entry.unitCost && !merchantEntered) {
+    return false;
+  }
+
+  await prisma.variantCostHistory.create({
+    data: {
+      shop,
+      variantId: entry.variantId,
+      inventoryItemId: entry.inventoryItemId || null,
+      sku: entry.sku || null,
+      unitCost: entry.unitCost,
+      freightCost,
+      dutyCost,
+      effectiveFrom: entry.effectiveFrom,
+      source: entry.source,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Adds many merchant-entered costs at once, for imports. Every entry is kept, like
+ * recordVariantCost does for merchant entries, and freight and duty carry over from
+ * the entry in effect at its date, including ones earlier in the same batch.
+ */
+export async function recordVariantCosts(shop: string, entries: VariantCostEntry[]): Promise<void> {
+  for (let i = 0; i < entries.length; i += WRITE_BATCH_SIZE) {
+    const batch = entries.slice(i, i + WRITE_BATCH_SIZE);
+    const history = await prisma.variantCostHistory.findMany({
+      where: { shop, variantId: { in: Array.from(new Set(batch.map((entry) => entry.variantId))) } },
+      orderBy: [{ effectiveFrom: "asc" }, { createdAt: "asc" }],
+      select: { variantId: true, freightCost: true, dutyCost: true, effectiveFrom: true },
+    });
+
+    const rows = batch.map((entry) => {
+      const current = history
+        .filter((row) => row.variantId === entry.variantId && row.effectiveFrom <= entry.effectiveFrom)
+        .pop();
+      const row = {
+        shop,
+        variantId: entry.variantId,
+        inventoryItemId: entry.inventoryItemId || null,
+        sku: entry.sku || null,
+        unitCost: entry.unitCost,
+        freightCost: entry.freightCost ?? current?.freightCost ?? 0,
+        dutyCost: entry.dutyCost ?? current?.dutyCost ?? 0,
+        effectiveFrom: entry.effectiveFrom,
+        source: entry.source,
+      };
+
+      // Keep the history sorted so later entries for the variant carry over from this one
+      const index = history.findIndex((existing) => existing.effectiveFrom > entry.effectiveFrom);
+      history.splice(index === -1 ? history.length : index, 0, row);
+      return row;
+    });
+
+    await prisma.variantCostHistory.createMany({ data: rows });
+  }
+}
+
+export async function hasVariantCostHistory(shop: string): Promise<boolean> {
+  const entry = await prisma.variantCostHistory.findFirst({ where: { shop } });
+  return !!entry;
+}
+
+/**
+ * Seeds the history with every variant's current cost, effective from today. There's
+ * nothing to say what costs were before the app was installed, so earlier orders fall
+ * back to it as the earliest entry, while a backdated entry the merchant adds later
+ * only lasts until today's cost.
+ */
+export async function backfillVariantCostHistory(
+  admin: any,
+  shop: string
+): Promise<{ success: boolean; recordedVariants: number; error?: string }> {
+  try {
+    const query = `#graphql
+      query getVariantCosts($first: Int!, $after: String) {
+        productVariants(first: $first, after: $after) {
+          edges {
+            node {
+              id
+              sku
+              inventoryItem {
+                id
+                unitCost {
+                  amount
+                }
+              }
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    const existing = new Set(
+      (await prisma.variantCostHistory.findMany({
+        where: { shop },
+        select: { variantId: true },
+        distinct: ["variantId"],
+      })).map((entry) => entry.variantId)
+    );
+
+    const backfilledAt = new Date();
+    let cursor: string | null = null;
+    let recordedVariants = 0;
+
+    do {
+      const data = await runThrottledQuery(admin, query, { first: VARIANTS_PAGE_SIZE, after: cursor });
+      const connection = data.data?.productVariants;
+
+      const entries = (connection?.edges || [])
+        .map(({ node }: any) => node)
+        .filter((node: any) => node.inventoryItem?.unitCost && !existing.has(node.id))
+        .map((node: any) => ({
+          shop,
+          variantId: node.id,
+          inventoryItemId: node.inventoryItem.id,
+          sku: node.sku || null,
+          unitCost: parseFloat(node.inventoryItem.unitCost.amount),
+          effectiveFrom: backfilledAt,
+          source: "backfill",
+        }));
+
+      for (let i = 0; i < entries.length; i += WRITE_BATCH_SIZE) {
+        await prisma.variantCostHistory.createMany({ data: entries.slice(i, i + WRITE_BATCH_SIZE) });
+      }
+      recordedVariants += entries.length;
+
+      cursor = connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null;
+    } while (cursor);
+
+    console.log(`[Cost History] Backfilled ${recordedVariants} variant costs for ${shop}`);
+    return { success: true, recordedVariants };
+  } catch (error) {
+    console.error("Error backfilling variant cost history:", error);
+    return {
+      success: false,
+      recordedVariants: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Records a cost change from an inventory_items/update webhook. The payload only
+ * identifies the inventory item, so the variant is looked up.
+ */
+export async function recordInventoryItemCost(
+  admin: any,
+  shop: string,
+  inventoryItemId: string,
+  cost: string | number | null,
+  updatedAt: string | Date
+): Promise<boolean> {
+  if (cost === null || cost === undefined || cost === "") return false;
+
+  const data = await runThrottledQuery(
+    admin,
+    `#graphql
+      query getInventoryItemVariant($id: ID!) {
+        inventoryItem(id: $id) {
+          sku
+          variant {
+            id
+          }
+        }
+      }
+    `,
+    { id: inventoryItemId }
+  );
+
+  const inventoryItem = data.data?.inventoryItem;
+  if (!inventoryItem?.variant?.id) return false;
+
+  return recordVariantCost(shop, {
+    variantId: inventoryItem.variant.id,
+    inventoryItemId,
+    sku: inventoryItem.sku,
+    unitCost: typeof cost === "number" ? cost : parseFloat(cost),
+    effectiveFrom: new Date(updatedAt),
+    source: "webhook",
+  });
+}
+
+// Resolves a variant from a SKU or variant ID (numeric or GID) entered by the merchant
+export async function findVariant(
+  admin: any,
+  skuOrId: string
+): Promise<{ variantId: string; inventoryItemId: string | null; sku: string | null } | null> {
+  const value = skuOrId.trim();
+  const variantId = /^\d+$/.test(value) ? `gid://shopify/ProductVariant/${value}` : value;
+
+  const data = variantId.startsWith("gid://shopify/ProductVariant/")
+    ? await runThrottledQuery(
+      admin,
+      `#graphql
+        query getVariant($id: ID!) {
+          productVariant(id: $id) {
+            id
+            sku
+            inventoryItem {
+              id
+            }
+          }
+        }
+      `,
+      { id: variantId }
+    )
+    : await runThrottledQuery(
+      admin,
+      `#graphql
+        query getVariantBySku($query: String!) {
+          productVariants(first: 1, query: $query) {
+            edges {
+              node {
+                id
+                sku
+                inventoryItem {
+                  id
+                }
+              }
+            }
+          }
+        }
+      `,
+      { query: `sku:${JSON.stringify(value)}` }
+    );
+
+  const variant = data.data?.productVariant || data.data?.productVariants?.edges?.[0]?.node;
+  if (!variant) return null;
+
+  return {
+    variantId: variant.id,
+    inventoryItemId: variant.inventoryItem?.id || null,
+    sku: variant.sku || null,
+  };
+}
+
+/**
+ * Loads cost history (optionally only for some variants) into a lookup of the cost in
+ * effect at a given time. Variants without history return null, so callers fall back
+ * to the current unit cost.
+ */
+export async function loadCostHistory(shop: string, variantIds?: string[]): Promise<CostLookup> {
+  const entries = await prisma.variantCostHistory.findMany({
+    where: variantIds ? { shop, variantId: { in: variantIds } } : { shop },
+    orderBy: [{ effectiveFrom: "asc" }, { createdAt: "asc" }],
+    select: { variantId: true, unitCost: true, freightCost: true, dutyCost: true, effectiveFrom: true },
+  });
+
+  const byVariant = new Map<string, Array<{ unitCost: number; landedCost: number; effectiveFrom: Date }>>();
+  for (const entry of entries) {
+    const history = byVariant.get(entry.variantId) || [];
+    history.push({
+      unitCost: entry.unitCost,
+      landedCost: entry.unitCost + entry.freightCost + entry.dutyCost,
+      effectiveFrom: entry.effectiveFrom,
+    });
+    byVariant.set(entry.variantId, history);
+  }
+
+  return (variantId, at, part = "landed") => {
+    const history = variantId ? byVariant.get(variantId) : undefined;
+    if (!history) return null;
+
+    const time = new Date(at).getTime();
+    // Orders before the first recorded cost use the earliest one
+    let current = history[0];
+    for (const entry of history) {
+      if (entry.effectiveFrom.getTime() > time) break;
+      current = entry;
+    }
+    return part === "unit" ? current.unitCost : current.landedCost;
+  };
+}
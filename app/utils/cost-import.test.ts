@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { applyCostImport } from "./cost-import";
+import type { CostImportMatch } from "./cost-import";
+import { loadCostHistory, recordVariantCost } from "./cost-history";
+
+// In-memory stand-in for the cost history table
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>;
+
+  const time = (value: any) => (value instanceof Date ? value.getTime() : value);
+
+  const matches = (row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (condition === null || typeof condition !== "object" || condition instanceof Date) {
+        return time(row[key]) === time(condition);
+      }
+      if ("in" in condition) return condition.in.includes(row[key]);
+      if ("lte" in condition) return time(row[key]) <= time(condition.lte);
+      throw new Error(`Unsupported filter on ${key}`);
+    });
+
+  // Sorts by a Prisma orderBy, one { field: direction } or a list of them
+  const sorted = (rows: Row[], orderBy: Row | Row[] = []) =>
+    [...rows].sort((a, b) => {
+      for (const order of [orderBy].flat()) {
+        const [field, direction] = Object.entries(order)[0];
+        const difference = time(a[field]) - time(b[field]);
+        if (difference !== 0) return direction === "desc" ? -difference : difference;
+      }
+      return 0;
+    });
+
+  const costHistory: Row[] = [];
+  let created = 0;
+  const insert = (data: Row) => costHistory.push({ ...data, createdAt: new Date(++created) });
+
+  const client = {
+    variantCostHistory: {
+      findFirst: async ({ where, orderBy }: Row) =>
+        sorted(costHistory.filter((row) => matches(row, where)), orderBy)[0] || null,
+      findMany: async ({ where, orderBy }: Row) => sorted(costHistory.filter((row) => matches(row, where)), orderBy),
+      create: async ({ data }: Row) => insert(data),
+      createMany: async ({ data }: Row) => {
+        data.forEach(insert);
+        return { count: data.length };
+      },
+      deleteMany: async ({ where }: Row) => {
+        const kept = costHistory.filter((row) => !matches(row, where));
+        const count = costHistory.length - kept.length;
+        costHistory.splice(0, costHistory.length, ...kept);
+        return { count };
+      },
+    },
+  };
+
+  return { client, costHistory };
+});
+
+vi.mock("@prisma/client", () => ({
+  PrismaClient: class {
+    constructor() {
+      return db.client;
+    }
+  },
+}));
+
+const SHOP = "test-shop.myshopify.com";
+const VARIANT_ID = "gid://shopify/ProductVariant/1";
+
+function importRow(row: Partial<CostImportMatch>): CostImportMatch {
+  return {
+    line: 2,
+    sku: "SKU-1",
+    variantId: VARIANT_ID,
+    productId: "gid://shopify/Product/1",
+    inventoryItemId: "gid://shopify/InventoryItem/1",
+    title: "Shirt - Small",
+    currentCost: 10,
+    unitCost: 10,
+    effectiveDate: null,
+    ...row,
+  };
+}
+
+beforeEach(() => {
+  db.costHistory.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("applyCostImport", () => {
+  it("uses an undated cost for orders placed after an older automatic entry", async () => {
+    await recordVariantCost(SHOP, {
+      variantId: VARIANT_ID,
+      unitCost: 10,
+      effectiveFrom: new Date("2025-01-01T00:00:00Z"),
+      source: "webhook",
+    });
+
+    const result = await applyCostImport(null, SHOP, [importRow({ unitCost: 12 })], "app");
+    const costLookup = await loadCostHistory(SHOP);
+
+    expect(result).toEqual({ success: true, imported: 1, errors: [] });
+    expect(costLookup(VARIANT_ID, "2025-03-01T12:00:00Z")).toBe(12);
+    expect(costLookup(VARIANT_ID, new Date())).toBe(12);
+  });
+
+  it("keeps dated entries the merchant recorded before an undated import", async () => {
+    await recordVariantCost(SHOP, {
+      variantId: VARIANT_ID,
+      unitCost: 8,
+      effectiveFrom: new Date("2025-01-01T00:00:00Z"),
+      source: "manual",
+    });
+
+    await applyCostImport(null, SHOP, [importRow({ unitCost: 12 })], "app");
+    const costLookup = await loadCostHistory(SHOP);
+
+    expect(costLookup(VARIANT_ID, "2025-03-01T12:00:00Z")).toBe(8);
+    expect(costLookup(VARIANT_ID, new Date(Date.now() + 1000))).toBe(12);
+  });
+
+  it("carries freight and duty over when their cells are blank", async () => {
+    await recordVariantCost(SHOP, {
+      variantId: VARIANT_ID,
+      unitCost: 10,
+      freightCost: 2,
+      dutyCost: 1,
+      effectiveFrom: new Date("2025-01-01T00:00:00Z"),
+      source: "manual",
+    });
+
+    await applyCostImport(null, SHOP, [importRow({ unitCost: 12, effectiveDate: "2025-02-01" })], "app");
+    const costLookup = await loadCostHistory(SHOP);
+
+    expect(costLookup(VARIANT_ID, "2025-03-01T12:00:00Z")).toBe(15);
+    expect(costLookup(VARIANT_ID, "2025-03-01T12:00:00Z", "unit")).toBe(12);
+  });
+});
@@ -0,0 +1,373 @@
+import { prisma } from "./database";
+import { recordVariantCosts } from "./cost-history";
+import { runThrottledQuery } from "./shopify-data";
+
+const MAX_IMPORT_ROWS = 5000;
+const LOOKUP_BATCH_SIZE = 50;
+
+// Accepted spellings for each column, compared after lowercasing and collapsing separators
+const COLUMN_ALIASES: Record<string, string[]> = {
+  sku: ["sku"],
+  variantId: ["variant_id", "variant", "variantid"],
+  unitCost: ["unit_cost", "cost", "cost_per_item", "unitcost"],
+  effectiveDate: ["effective_date", "effective_from", "date"],
+  freightCost: ["freight", "freight_cost"],
+  dutyCost: ["duty", "duty_cost", "duties"],
+};
+
+export interface CostImportRow {
+  line: number;
+  sku: string | null;
+  variantId: string | null;
+  unitCost: number;
+  freightCost?: number; // Left out when the cell is blank, so the variant's current freight carries over
+  dutyCost?: number;
+  effectiveDate: string | null; // YYYY-MM-DD
+}
+
+export interface CostImportMatch extends CostImportRow {
+  variantId: string;
+  productId: string;
+  inventoryItemId: string | null;
+  title: string;
+  currentCost: number | null;
+}
+
+export interface CostImportPreview {
+  matched: CostImportMatch[];
+  unmatched: CostImportRow[];
+  invalid: Array<{ line: number; error: string }>;
+}
+
+// Splits CSV text into rows of cells, handling quoted cells with commas, quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+// undefined for a blank cell, null when it isn't a valid amount
+function parseAmount(value: string | undefined): number | null | undefined {
+  if (!value || !value.trim()) return undefined;
+  const amount = parseFloat(value.replace(/[$,\s]/g, ""));
+  return isNaN(amount) || amount < 0 ? null : amount;
+}
+
+function normalizeVariantId(value: string): string {
+  return /^\d+$/.test(value) ? `gid://shopify/ProductVariant/${value}` : value;
+}
+
+/**
+ * Parses a cost CSV. Needs a header row with a SKU or variant ID column and a unit
+ * cost column; effective date, freight and duty are optional.
+ */
+export function parseCostCsv(text: string): { rows: CostImportRow[]; invalid: Array<{ line: number; error: string }> } {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const invalid: Array<{ line: number; error: string }> = [];
+
+  if (!header) {
+    return { rows: [], invalid: [{ line: 1, error: "The file is empty" }] };
+  }
+
+  const headerKeys = header.map((cell) => cell.trim().toLowerCase().replace(/[\s-]+/g, "_"));
+  const columns: Record<string, number> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const index = headerKeys.findIndex((key) => aliases.includes(key));
+    if (index !== -1) columns[field] = index;
+  }
+
+  if (columns.unitCost === undefined || (columns.sku === undefined && columns.variantId === undefined)) {
+    return {
+      rows: [],
+      invalid: [{ line: 1, error: "The header needs a SKU or variant ID column and a unit cost column" }],
+    };
+  }
+
+  if (lines.length > MAX_IMPORT_ROWS) {
+    return {
+      rows: [],
+      invalid: [{ line: 1, error: `Files can have at most ${MAX_IMPORT_ROWS} rows` }],
+    };
+  }
+
+  const rows: CostImportRow[] = [];
+
+  lines.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (field: string) =>
+      columns[field] !== undefined ? (cells[columns[field]] || "").trim() : "";
+
+    const sku = cell("sku") || null;
+    const variantId = cell("variantId") ? normalizeVariantId(cell("variantId")) : null;
+    if (!sku && !variantId) {
+      invalid.push({ line, error: "Missing SKU or variant ID" });
+      return;
+    }
+
+    if (!cell("unitCost")) {
+      invalid.push({ line, error: "Missing unit cost" });
+      return;
+    }
+
+    const unitCost = parseAmount(cell("unitCost"));
+    const freightCost = parseAmount(cell("freightCost"));
+    const dutyCost = parseAmount(cell("dutyCost"));
+    if (unitCost === undefined || unitCost === null || freightCost === null || dutyCost === null) {
+      invalid.push({ line, error: "Costs must be numbers, zero or more" });
+      return;
+    }
+
+    const effectiveDate = cell("effectiveDate") || null;
+    if (effectiveDate && (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate) || isNaN(new Date(effectiveDate).getTime()))) {
+      invalid.push({ line, error: "Effective date must be YYYY-MM-DD" });
+      return;
+    }
+
+    rows.push({ line, sku, variantId, unitCost, freightCost, dutyCost, effectiveDate });
+  });
+
+  return { rows, invalid };
+}
+
+const VARIANT_MATCH_FIELDS = `
+  id
+  sku
+  displayName
+  product {
+    id
+  }
+  inventoryItem {
+    id
+    unitCost {
+      amount
+    }
+  }
+`;
+
+/**
+ * Looks up the variant for each row, by variant ID when the row has one and by SKU
+ * otherwise. Rows that match nothing are returned for the preview instead of imported.
+ */
+export async function previewCostImport(admin: any, rows: CostImportRow[]): Promise<CostImportPreview> {
+  const variants = new Map<string, any>();
+  const variantsBySku = new Map<string, any>();
+
+  const ids = Array.from(new Set(rows.filter((row) => row.variantId).map((row) => row.variantId as string)));
+  for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+    const data = await runThrottledQuery(
+      admin,
+      `#graphql
+        query getImportVariants($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on ProductVariant {
+              ${VARIANT_MATCH_FIELDS}
+            }
+          }
+        }
+      `,
+      { ids: ids.slice(i, i + LOOKUP_BATCH_SIZE) }
+    );
+    for (const node of data.data?.nodes || []) {
+      if (node?.id) variants.set(node.id, node);
+    }
+  }
+
+  const skus = Array.from(new Set(rows.filter((row) => !row.variantId && row.sku).map((row) => row.sku as string)));
+  for (let i = 0; i < skus.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = skus.slice(i, i + LOOKUP_BATCH_SIZE);
+    const data = await runThrottledQuery(
+      admin,
+      `#graphql
+        query getImportVariantsBySku($first: Int!, $query: String!) {
+          productVariants(first: $first, query: $query) {
+            edges {
+              node {
+                ${VARIANT_MATCH_FIELDS}
+              }
+            }
+          }
+        }
+      `,
+      {
+        // Duplicate SKUs can return more than one variant per SKU, the first one wins
+        first: 250,
+        query: batch.map((sku) => `sku:${JSON.stringify(sku)}`).join(" OR "),
+      }
+    );
+    for (const { node } of data.data?.productVariants?.edges || []) {
+      if (node.sku && !variantsBySku.has(node.sku)) variantsBySku.set(node.sku, node);
+    }
+  }
+
+  const preview: CostImportPreview = { matched: [], unmatched: [], invalid: [] };
+
+  for (const row of rows) {
+    const variant = row.variantId ? variants.get(row.variantId) : variantsBySku.get(row.sku as string);
+    if (!variant) {
+      preview.unmatched.push(row);
+      continue;
+    }
+
+    const currentCost = variant.inventoryItem?.unitCost?.amount;
+    preview.matched.push({
+      ...row,
+      sku: variant.sku || row.sku,
+      variantId: variant.id,
+      productId: variant.product.id,
+      inventoryItemId: variant.inventoryItem?.id || null,
+      title: variant.displayName,
+      currentCost: currentCost !== undefined && currentCost !== null ? parseFloat(currentCost) : null,
+    });
+  }
+
+  return preview;
+}
+
+// Writes the unit cost of a product's variants in one mutation. Returns an error for
+// each row Shopify rejected, keyed by line.
+async function updateShopifyUnitCosts(admin: any, productId: string, rows: CostImportMatch[]): Promise<Map<number, string>> {
+  const data = await runThrottledQuery(
+    admin,
+    `#graphql
+      mutation updateVariantCosts($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+        productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+          productVariants {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      productId,
+      variants: rows.map((row) => ({ id: row.variantId, inventoryItem: { cost: row.unitCost } })),
+    }
+  );
+
+  const errors = new Map<number, string>();
+  for (const userError of data.data?.productVariantsBulkUpdate?.userErrors || []) {
+    // The field path points at the variant, e.g. ["variants", "0", "inventoryItem", "cost"]
+    const index = userError.field?.[0] === "variants" ? Number(userError.field[1]) : NaN;
+    const failed = isNaN(index) ? rows : rows.slice(index, index + 1);
+    for (const row of failed) errors.set(row.line, userError.message);
+  }
+
+  return errors;
+}
+
+/**
+ * Imports matched rows into the app's cost history, which COGS uses ahead of Shopify's
+ * unit cost. With `target: "shopify"` the unit cost is also written back to the
+ * variants, one mutation per product; freight and duty stay app-side since Shopify has
+ * nowhere to keep them. Rows without an effective date are the current cost: they take
+ * effect at import and replace the costs picked up from Shopify, so earlier orders
+ * without a merchant-entered cost fall back to them too.
+ */
+export async function applyCostImport(
+  admin: any,
+  shop: string,
+  rows: CostImportMatch[],
+  target: "app" | "shopify"
+): Promise<{ success: boolean; imported: number; errors: Array<{ line: number; error: string }> }> {
+  const errors: Array<{ line: number; error: string }> = [];
+  let accepted = rows;
+
+  if (target === "shopify") {
+    const byProduct = new Map<string, CostImportMatch[]>();
+    for (const row of rows) {
+      byProduct.set(row.productId, [...(byProduct.get(row.productId) || []), row]);
+    }
+
+    const failedLines = new Map<number, string>();
+    for (const [productId, productRows] of byProduct) {
+      try {
+        for (const [line, error] of await updateShopifyUnitCosts(admin, productId, productRows)) {
+          failedLines.set(line, error);
+        }
+      } catch (error) {
+        console.error(`[Cost Import] Failed to update costs for ${productId}:`, error);
+        for (const row of productRows) {
+          failedLines.set(row.line, error instanceof Error ? error.message : "Unknown error");
+        }
+      }
+    }
+
+    accepted = rows.filter((row) => !failedLines.has(row.line));
+    errors.push(...Array.from(failedLines, ([line, error]) => ({ line, error })));
+  }
+
+  try {
+    // Automatic entries would otherwise outrank an undated cost for every order since they were recorded
+    const importedAt = new Date();
+    const undatedVariantIds = accepted.filter((row) => !row.effectiveDate).map((row) => row.variantId);
+    if (undatedVariantIds.length) {
+      await prisma.variantCostHistory.deleteMany({
+        where: { shop, variantId: { in: undatedVariantIds }, source: { in: ["backfill", "webhook"] } },
+      });
+    }
+
+    await recordVariantCosts(
+      shop,
+      accepted.map((row) => ({
+        variantId: row.variantId,
+        inventoryItemId: row.inventoryItemId,
+        sku: row.sku,
+        unitCost: row.unitCost,
+        freightCost: row.freightCost,
+        dutyCost: row.dutyCost,
+        effectiveFrom: row.effectiveDate ? new Date(row.effectiveDate) : importedAt,
+        source: "import",
+      }))
+    );
+  } catch (error) {
+    console.error(`[Cost Import] Failed to record costs for ${shop}:`, error);
+    return {
+      success: false,
+      imported: 0,
+      errors: [...errors, { line: 1, error: "Failed to save the imported costs" }],
+    };
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  console.log(`[Cost Import] Imported ${accepted.length} of ${rows.length} costs for ${shop} (${target})`);
+  return { success: errors.length === 0, imported: accepted.length, errors };
+}
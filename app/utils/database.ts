@@ -1,11 +1,97 @@
 import { PrismaClient } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import { calculateRecurringCost } from "./profit-calculator";
+import type { CategoryCost, RecurringCostInput } from "./profit-calculator";
 
 const prisma = new PrismaClient();
 
+// Cost tables merchants edit from the app, with the fields an update may set. Each row
+// has an `id` and belongs to one shop.
+interface ShopRecordData {
+  marketingCost: Prisma.MarketingCostUncheckedUpdateManyInput;
+  fixedCost: Prisma.FixedCostUncheckedUpdateManyInput;
+  manualCost: Prisma.ManualCostUncheckedUpdateManyInput;
+  shippingCostRule: Prisma.ShippingCostRuleUncheckedUpdateManyInput;
+  landedCostRule: Prisma.LandedCostRuleUncheckedUpdateManyInput;
+  variantCostHistory: Prisma.VariantCostHistoryUncheckedUpdateManyInput;
+  costCategory: Prisma.CostCategoryUncheckedUpdateManyInput;
+}
+
+export type ShopRecordModel = keyof ShopRecordData;
+
+type ShopRecordWhere = { id: string; shop: string };
+
+const SHOP_RECORD_UPDATES: {
+  [M in ShopRecordModel]: (where: ShopRecordWhere, data: ShopRecordData[M]) => Promise<Prisma.BatchPayload>;
+} = {
+  marketingCost: (where, data) => prisma.marketingCost.updateMany({ where, data }),
+  fixedCost: (where, data) => prisma.fixedCost.updateMany({ where, data }),
+  manualCost: (where, data) => prisma.manualCost.updateMany({ where, data }),
+  shippingCostRule: (where, data) => prisma.shippingCostRule.updateMany({ where, data }),
+  landedCostRule: (where, data) => prisma.landedCostRule.updateMany({ where, data }),
+  variantCostHistory: (where, data) => prisma.variantCostHistory.updateMany({ where, data }),
+  costCategory: (where, data) => prisma.costCategory.updateMany({ where, data }),
+};
+
+const SHOP_RECORD_DELETES: Record<ShopRecordModel, (where: ShopRecordWhere) => Promise<Prisma.BatchPayload>> = {
+  marketingCost: (where) => prisma.marketingCost.deleteMany({ where }),
+  fixedCost: (where) => prisma.fixedCost.deleteMany({ where }),
+  manualCost: (where) => prisma.manualCost.deleteMany({ where }),
+  shippingCostRule: (where) => prisma.shippingCostRule.deleteMany({ where }),
+  landedCostRule: (where) => prisma.landedCostRule.deleteMany({ where }),
+  variantCostHistory: (where) => prisma.variantCostHistory.deleteMany({ where }),
+  costCategory: (where) => prisma.costCategory.deleteMany({ where }),
+};
+
+/**
+ * Every query here filters by shop. Prisma drops `undefined` filters instead of
+ * matching nothing, so a missing shop would read or write every tenant's rows.
+ */
+function requireShop(shop: string): string {
+  if (!shop) {
+    throw new Error("A shop is required to query shop data");
+  }
+  return shop;
+}
+
+/**
+ * Updates one of the shop's cost rows. IDs come from the browser, so the shop is part
+ * of the filter and a row belonging to another shop simply doesn't match.
+ * Returns false when nothing was updated.
+ */
+export async function updateShopRecord<M extends ShopRecordModel>(
+  model: M,
+  shop: string,
+  id: string | null,
+  data: ShopRecordData[M]
+): Promise<boolean> {
+  if (!id) return false;
+  const result = await SHOP_RECORD_UPDATES[model]({ id, shop: requireShop(shop) }, data);
+  return result.count > 0;
+}
+
+// Deletes one of the shop's cost rows, returning false when nothing matched
+export async function deleteShopRecord(
+  model: ShopRecordModel,
+  shop: string,
+  id: string | null
+): Promise<boolean> {
+  if (!id) return false;
+  const result = await SHOP_RECORD_DELETES[model]({ id, shop: requireShop(shop) });
+  return result.count > 0;
+}
+
+// Limits marketing costs to one synced ad account
+export interface AdAccountFilter {
+  platform: string;
+  accountId: string;
+}
+
 export async function getMarketingCosts(
   shop: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  adAccount?: AdAccountFilter | null
 ): Promise<number> {
   // Normalize dates to start/end of day for proper range matching
   const normalizedStart = new Date(startDate);
@@ -16,7 +102,8 @@ export async function getMarketingCosts(
   
   const costs = await prisma.marketingCost.findMany({
     where: {
-      shop,
+      shop: requireShop(shop),
+      ...(adAccount ? { platform: adAccount.platform, accountId: adAccount.accountId } : {}),
       date: {
         gte: normalizedStart,
         lte: normalizedEnd,
@@ -35,7 +122,7 @@ export async function getMarketingCosts(
   
   // Also check what's actually in the database for this shop (all platforms)
   const allCosts = await prisma.marketingCost.findMany({
-    where: { shop },
+    where: { shop: requireShop(shop) },
     orderBy: { date: 'asc' }
   });
   console.log(`Total marketing costs in DB for ${shop}: ${allCosts.length} entries`);
@@ -70,59 +157,94 @@ export async function getMarketingCosts(
   return total;
 }
 
-export async function getFixedCosts(
+// Marketing spend per platform and ad account. Manual and subscription costs have no account.
+export async function getMarketingCostsByAccount(
   shop: string,
   startDate: Date,
-  endDate: Date
-): Promise<number> {
-  const costs = await prisma.fixedCost.findMany({
+  endDate: Date,
+  adAccount?: AdAccountFilter | null
+): Promise<Array<{ platform: string; accountId: string; amount: number }>> {
+  const normalizedStart = new Date(startDate);
+  normalizedStart.setHours(0, 0, 0, 0);
+
+  const normalizedEnd = new Date(endDate);
+  normalizedEnd.setHours(23, 59, 59, 999);
+
+  const groups = await prisma.marketingCost.groupBy({
+    by: ["platform", "accountId"],
     where: {
-      shop,
-      OR: [
-        {
-          // Recurring costs that started before end date
-          recurring: true,
-          startDate: {
-            lte: endDate,
-          },
-          OR: [
-            { endDate: null },
-            {
-              endDate: {
-                gte: startDate,
-              },
-            },
-          ],
+      shop: requireShop(shop),
+      ...(adAccount ? { platform: adAccount.platform, accountId: adAccount.accountId } : {}),
+      date: {
+        gte: normalizedStart,
+        lte: normalizedEnd,
+      },
+    },
+    _sum: { amount: true },
+  });
+
+  return groups.map((group) => ({
+    platform: group.platform,
+    accountId: group.accountId,
+    amount: group._sum.amount || 0,
+  }));
+}
+
+// Fixed costs that apply at some point between the two dates
+function fixedCostsInRange(shop: string, startDate: Date, endDate: Date) {
+  return {
+    shop: requireShop(shop),
+    OR: [
+      {
+        // Recurring costs that started before end date
+        recurring: true,
+        startDate: {
+          lte: endDate,
         },
-        {
-          // One-time costs in the date range
-          recurring: false,
-          startDate: {
-            gte: startDate,
-            lte: endDate,
+        // End dates are the last day the cost applies, so include costs ending the day before
+        OR: [
+          { endDate: null },
+          {
+            endDate: {
+              gte: new Date(startDate.getTime() - 24 * 60 * 60 * 1000),
+            },
           },
+        ],
+      },
+      {
+        // One-time costs in the date range
+        recurring: false,
+        startDate: {
+          gte: startDate,
+          lte: endDate,
         },
-      ],
-    },
-  });
+      },
+    ],
+  };
+}
 
-  // Calculate prorated costs for the date range
-  const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-  const daysInMonth = 30; // Approximate for monthly costs
+function getFixedCostAmount(
+  cost: RecurringCostInput & { recurring: boolean },
+  startDate: Date,
+  endDate: Date
+): number {
+  // One-time costs count in full
+  return cost.recurring ? calculateRecurringCost(cost, startDate, endDate) : cost.amount;
+}
 
-  let totalFixedCosts = 0;
+// Fixed costs without a custom category. Those are counted by getCategoryCosts instead.
+export async function getFixedCosts(
+  shop: string,
+  startDate: Date,
+  endDate: Date
+): Promise<number> {
+  const costs = await prisma.fixedCost.findMany({
+    where: { ...fixedCostsInRange(shop, startDate, endDate), categoryId: null },
+  });
 
-  for (const cost of costs) {
-    if (cost.recurring) {
-      // For recurring monthly costs, prorate based on the date range
-      totalFixedCosts += (cost.amount * days) / daysInMonth;
-    } else {
-      // One-time costs
-      totalFixedCosts += cost.amount;
-    }
-  }
+  const totalFixedCosts = costs.reduce((sum, cost) => sum + getFixedCostAmount(cost, startDate, endDate), 0);
 
-  console.log(`Fixed costs: ${costs.length} entries, total: $${totalFixedCosts} (prorated over ${days} days)`);
+  console.log(`Fixed costs: ${costs.length} entries, total: $${totalFixedCosts}`);
   return totalFixedCosts;
 }
 
@@ -133,7 +255,8 @@ export async function getManualCosts(
 ): Promise<{ shipping: number; cogs: number; other: number }> {
   const costs = await prisma.manualCost.findMany({
     where: {
-      shop,
+      shop: requireShop(shop),
+      categoryId: null,
       date: {
         gte: startDate,
         lte: endDate,
@@ -157,9 +280,191 @@ export async function getManualCosts(
   return { shipping, cogs, other };
 }
 
+export async function getCostCategories(shop: string) {
+  return prisma.costCategory.findMany({
+    where: { shop: requireShop(shop) },
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Totals fixed and manual costs in each custom category over the period. Fixed costs are
+ * prorated the same way as uncategorized ones. Categories with nothing in the period are left out.
+ */
+export async function getCategoryCosts(
+  shop: string,
+  startDate: Date,
+  endDate: Date
+): Promise<CategoryCost[]> {
+  const fixedCosts = await prisma.fixedCost.findMany({
+    where: { ...fixedCostsInRange(shop, startDate, endDate), categoryId: { not: null } },
+    include: { costCategory: true },
+  });
+  const manualCosts = await prisma.manualCost.findMany({
+    where: {
+      shop: requireShop(shop),
+      categoryId: { not: null },
+      date: {
+        gte: startDate,
+        lte: endDate,
+      },
+    },
+    include: { costCategory: true },
+  });
+
+  const totals = new Map<string, CategoryCost>();
+  const add = (category: { id: string; name: string; group: string; color: string } | null, amount: number) => {
+    if (!category) return;
+    const total = totals.get(category.id)
+      || { categoryId: category.id, name: category.name, group: category.group, color: category.color, amount: 0 };
+    total.amount += amount;
+    totals.set(category.id, total);
+  };
+
+  for (const cost of fixedCosts) add(cost.costCategory, getFixedCostAmount(cost, startDate, endDate));
+  for (const cost of manualCosts) add(cost.costCategory, cost.amount);
+
+  const categoryCosts = Array.from(totals.values()).filter((cost) => cost.amount !== 0);
+  console.log(`Category costs: ${categoryCosts.map((cost) => `${cost.name} (${cost.group}): $${cost.amount}`).join(", ") || "none"}`);
+  return categoryCosts;
+}
+
+// Synced costs are stored at midnight of their "YYYY-MM-DD" day
+export function toCostDate(dateStr: string): Date {
+  const costDate = new Date(dateStr);
+  costDate.setHours(0, 0, 0, 0);
+  return costDate;
+}
+
+/**
+ * Stores an ad account's synced spend as one marketing cost per day, keyed by
+ * "YYYY-MM-DD". Re-syncing a day overwrites it. Returns the total stored.
+ */
+export async function saveDailyMarketingSpend(
+  shop: string,
+  platform: string,
+  label: string,
+  dailySpend: Map<string, number>,
+  accountId: string = ""
+): Promise<number> {
+  let totalAmount = 0;
+
+  for (const [dateStr, spend] of dailySpend.entries()) {
+    const costDate = toCostDate(dateStr);
+
+    await prisma.marketingCost.upsert({
+      where: {
+        shop_platform_account_date: { shop: requireShop(shop), platform, accountId, date: costDate },
+      },
+      update: {
+        amount: spend,
+        description: `${label} spend for ${dateStr}`,
+      },
+      create: {
+        shop,
+        platform,
+        accountId,
+        amount: spend,
+        date: costDate,
+        description: `${label} spend for ${dateStr}`,
+      },
+    });
+
+    totalAmount += spend;
+  }
+
+  return totalAmount;
+}
+
+// One row of campaign or ad set metrics for a day, as reported by the ad platform
+export interface AdPerformanceInput {
+  date: string; // "YYYY-MM-DD"
+  campaignId: string;
+  campaignName: string;
+  adSetId?: string; // Left out on campaign totals
+  adSetName?: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  purchases: number;
+  purchaseValue: number;
+}
+
+/**
+ * Replaces an ad account's campaign and ad set metrics between two "YYYY-MM-DD"
+ * days (inclusive), so campaigns that stopped reporting don't keep old numbers.
+ */
+export async function saveAdPerformance(
+  shop: string,
+  platform: string,
+  accountId: string,
+  range: { since: string; until: string },
+  rows: AdPerformanceInput[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.adPerformance.deleteMany({
+      where: {
+        shop: requireShop(shop),
+        platform,
+        accountId,
+        date: { gte: toCostDate(range.since), lte: toCostDate(range.until) },
+      },
+    }),
+    prisma.adPerformance.createMany({
+      data: rows.map((row) => ({
+        shop,
+        platform,
+        accountId,
+        campaignId: row.campaignId,
+        campaignName: row.campaignName,
+        adSetId: row.adSetId || "",
+        adSetName: row.adSetName || null,
+        date: toCostDate(row.date),
+        spend: row.spend,
+        impressions: row.impressions,
+        clicks: row.clicks,
+        purchases: row.purchases,
+        purchaseValue: row.purchaseValue,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+}
+
+export async function getAdPerformance(shop: string, startDate: Date, endDate: Date) {
+  const normalizedStart = new Date(startDate);
+  normalizedStart.setHours(0, 0, 0, 0);
+
+  const normalizedEnd = new Date(endDate);
+  normalizedEnd.setHours(23, 59, 59, 999);
+
+  return prisma.adPerformance.findMany({
+    where: {
+      shop: requireShop(shop),
+      date: {
+        gte: normalizedStart,
+        lte: normalizedEnd,
+      },
+    },
+    select: {
+      platform: true,
+      accountId: true,
+      campaignId: true,
+      campaignName: true,
+      adSetId: true,
+      adSetName: true,
+      spend: true,
+      impressions: true,
+      clicks: true,
+      purchases: true,
+      purchaseValue: true,
+    },
+  });
+}
+
 export async function getSettings(shop: string) {
   let settings = await prisma.settings.findUnique({
-    where: { shop },
+    where: { shop: requireShop(shop) },
   });
 
   // Create default settings if they don't exist
@@ -176,5 +481,67 @@ export async function getSettings(shop: string) {
   return settings;
 }
 
+// Per-gateway fee schedules, used for transactions without a reported fee
+export async function getPaymentGatewayFees(shop: string) {
+  return prisma.paymentGatewayFee.findMany({
+    where: { shop: requireShop(shop) },
+    orderBy: { gateway: "asc" },
+  });
+}
+
+export async function getShippingCostRules(shop: string) {
+  return prisma.shippingCostRule.findMany({
+    where: { shop: requireShop(shop) },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function saveSettings(
+  shop: string,
+  data: { transactionFeePercent: number; refundAttribution: string; revenueDefinition: string }
+) {
+  return prisma.settings.upsert({
+    where: { shop: requireShop(shop) },
+    update: data,
+    create: { shop, ...data, currency: "USD" },
+  });
+}
+
+// Saves a gateway's fee schedule, or removes it when `rates` is null
+export async function savePaymentGatewayFee(
+  shop: string,
+  gateway: string,
+  rates: { percent: number; fixedFee: number; currencyConversionPercent: number; internationalPercent: number } | null
+) {
+  if (!rates) {
+    await prisma.paymentGatewayFee.deleteMany({
+      where: { shop: requireShop(shop), gateway },
+    });
+    return;
+  }
+
+  await prisma.paymentGatewayFee.upsert({
+    where: { shop_gateway: { shop: requireShop(shop), gateway } },
+    update: rates,
+    create: { shop, gateway, ...rates },
+  });
+}
+
+export async function getMetricTargets(shop: string) {
+  const targets = await prisma.metricTargets.findUnique({
+    where: { shop: requireShop(shop) },
+  });
+
+  return targets || prisma.metricTargets.create({ data: { shop } });
+}
+
+export async function saveMetricTargets(shop: string, targets: Record<string, number | null>) {
+  return prisma.metricTargets.upsert({
+    where: { shop: requireShop(shop) },
+    update: targets,
+    create: { shop, ...targets },
+  });
+}
+
 export { prisma };
 
@@ -1,9 +1,13 @@
-import { prisma } from "./database";
+import { addDailySpend, syncAdPlatform } from "./ad-connector";
+import type { AdAccount, AdPlatformConnector, AdPlatformCredentials, DateRange } from "./ad-connector";
+import type { AdPerformanceInput } from "./database";
 
-interface FacebookAdAccount {
-  id: string;
-  name: string;
-}
+// Overridable so a local stand-in can replace the Graph API
+export const FACEBOOK_GRAPH_API_URL = process.env.FACEBOOK_GRAPH_API_URL || "https://graph.facebook.com/v18.0";
+export const FACEBOOK_REDIRECT_URI =
+  process.env.FACEBOOK_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/facebook-oauth";
+
+const LONG_LIVED_TOKEN_DAYS = 60;
 
 interface FacebookInsight {
   spend: string;
@@ -11,312 +15,181 @@ interface FacebookInsight {
   date_stop: string;
 }
 
-export async function getFacebookAdAccounts(accessToken: string): Promise<FacebookAdAccount[]> {
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/me/adaccounts?fields=id,name&access_token=${accessToken}`
-    );
-    
-    const data = await response.json();
-    
-    if (data.error) {
-      console.error("Facebook API error:", data.error);
-      return [];
-    }
-    
-    return data.data || [];
-  } catch (error) {
-    console.error("Error fetching Facebook ad accounts:", error);
-    return [];
-  }
+interface FacebookActionStat {
+  action_type: string;
+  value: string;
 }
 
-export async function fetchFacebookAdSpend(
-  accessToken: string,
-  adAccountId: string,
-  startDate: string,
-  endDate: string
-): Promise<number> {
-  try {
-    // Facebook expects date format: YYYY-MM-DD
-    const formattedStartDate = startDate.split('T')[0];
-    const formattedEndDate = endDate.split('T')[0];
-    
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/${adAccountId}/insights?` +
-      `fields=spend&` +
-      `time_range={"since":"${formattedStartDate}","until":"${formattedEndDate}"}` +
-      `&access_token=${accessToken}`
-    );
-    
-    const data = await response.json();
-    
-    if (data.error) {
-      console.error("Facebook Insights API error:", data.error);
-      return 0;
-    }
-    
-    // Sum up spend from all insights
-    const totalSpend = (data.data || []).reduce((sum: number, insight: FacebookInsight) => {
-      return sum + parseFloat(insight.spend || '0');
-    }, 0);
-    
-    return totalSpend;
-  } catch (error) {
-    console.error("Error fetching Facebook ad spend:", error);
-    return 0;
-  }
+interface FacebookCampaignInsight extends FacebookInsight {
+  campaign_id: string;
+  campaign_name: string;
+  adset_id?: string;
+  adset_name?: string;
+  impressions?: string;
+  clicks?: string;
+  actions?: FacebookActionStat[];
+  action_values?: FacebookActionStat[];
 }
 
-export async function syncFacebookHistoricalData(
-  shop: string,
-  days: number = 90
-): Promise<{ success: boolean; totalAmount: number; error?: string }> {
-  try {
-    // Get Facebook integration
-    const integration = await prisma.integration.findFirst({
-      where: {
-        shop,
-        platform: "facebook_ads",
-        isActive: true,
-      },
-    });
-
-    if (!integration || !integration.credentials) {
-      return { success: false, totalAmount: 0, error: "Facebook Ads not connected" };
-    }
-
-    const credentials = JSON.parse(integration.credentials);
-    const accessToken = credentials.accessToken;
-    const selectedAdAccountId = credentials.selectedAdAccountId;
-
-    if (!selectedAdAccountId) {
-      return { success: false, totalAmount: 0, error: "No ad account selected" };
-    }
+// These overlap (omni_purchase includes pixel purchases), so the first one reported is used
+const PURCHASE_ACTION_TYPES = ["omni_purchase", "purchase", "offsite_conversion.fb_pixel_purchase"];
 
-    let totalAmount = 0;
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+function getPurchaseStat(stats: FacebookActionStat[] | undefined): number {
+  for (const actionType of PURCHASE_ACTION_TYPES) {
+    const stat = stats?.find((candidate) => candidate.action_type === actionType);
+    if (stat) return parseFloat(stat.value || "0");
+  }
+  return 0;
+}
 
-    console.log(`[FB Sync] ===== SYNC START =====`);
-    console.log(`[FB Sync] Current system date: ${new Date().toISOString()}`);
-    console.log(`[FB Sync] Requesting ${days} days of data`);
-    console.log(`[FB Sync] Calculated date range: ${startDate.toISOString()} to ${endDate.toISOString()}`);
+// Follows `paging.next` links, collecting every page's `data`
+async function fetchAllPages<T>(url: string): Promise<T[]> {
+  const rows: T[] = [];
+  let nextUrl: string | null = url;
 
-    // Fetch daily insights for the entire range
-    const formattedStartDate = startDate.toISOString().split('T')[0];
-    const formattedEndDate = endDate.toISOString().split('T')[0];
-    
-    console.log(`[FB API] Formatted date range for API: ${formattedStartDate} to ${formattedEndDate}`);
-    
-    // Handle pagination - Facebook returns data in pages
-    let allInsights: FacebookInsight[] = [];
-    let nextUrl = `https://graph.facebook.com/v18.0/${selectedAdAccountId}/insights?` +
-      `fields=spend,date_start,date_stop&` +
-      `time_range={"since":"${formattedStartDate}","until":"${formattedEndDate}"}` +
-      `&time_increment=1` + // Daily breakdown
-      `&limit=90` + // Request more items per page
-      `&access_token=${accessToken}`;
-    
-    let pageCount = 0;
-    while (nextUrl && pageCount < 20) { // Safety limit to prevent infinite loops
-      console.log(`[FB API] Fetching page ${pageCount + 1}...`);
-      const response = await fetch(nextUrl);
-      const data = await response.json();
-      
-      if (data.error) {
-        console.error("Facebook Insights API error:", data.error);
-        if (pageCount === 0) {
-          return { success: false, totalAmount: 0, error: data.error.message };
-        }
-        break; // Use what we have so far
-      }
-      
-      const pageInsights = data.data || [];
-      allInsights = allInsights.concat(pageInsights);
-      console.log(`[FB API] Page ${pageCount + 1}: Got ${pageInsights.length} insights (total: ${allInsights.length})`);
-      
-      // Check for next page
-      nextUrl = data.paging?.next || null;
-      pageCount++;
-    }
+  while (nextUrl) {
+    const response: Response = await fetch(nextUrl);
+    const data: any = await response.json();
 
-    // Store each day's spend in the database
-    const insights = allInsights;
-    console.log(`[FB API] Received ${insights.length} total daily insights from Facebook across ${pageCount} pages`);
-    
-    if (insights.length > 0) {
-      console.log(`[FB API] First insight returned: ${insights[0].date_start}`);
-      console.log(`[FB API] Last insight returned: ${insights[insights.length - 1].date_start}`);
-      
-      // Show date range coverage
-      const firstDate = new Date(insights[0].date_start);
-      const lastDate = new Date(insights[insights.length - 1].date_start);
-      const daysCovered = Math.floor((lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24));
-      console.log(`[FB API] Date range coverage: ${daysCovered} days between first and last insight`);
-    } else {
-      console.log(`[FB API] WARNING: No insights returned from Facebook!`);
+    if (data.error) {
+      throw new Error(data.error.message || "Facebook API request failed");
     }
 
-    let storedCount = 0;
-    let skippedCount = 0;
-    const storedDates: string[] = [];
-    
-    for (const insight of insights) {
-      const spend = parseFloat(insight.spend || '0');
-      const insightDate = new Date(insight.date_start);
-      
-      if (spend > 0) {
-        // Check if we already have data for this date
-        const dayStart = new Date(insightDate);
-        dayStart.setHours(0, 0, 0, 0);
-        const dayEnd = new Date(insightDate);
-        dayEnd.setHours(23, 59, 59, 999);
-        
-        const existing = await prisma.marketingCost.findFirst({
-          where: {
-            shop,
-            platform: "facebook",
-            date: {
-              gte: dayStart,
-              lt: dayEnd,
-            },
-          },
-        });
-
-        // Normalize date to start of day (midnight) to match query ranges
-        const costDate = new Date(insight.date_start);
-        costDate.setHours(0, 0, 0, 0);
-        
-        if (existing) {
-          // Update existing entry
-          await prisma.marketingCost.update({
-            where: { id: existing.id },
-            data: {
-              amount: spend,
-              date: costDate,
-              description: `Facebook Ads spend for ${insight.date_start}`,
-            },
-          });
-        } else {
-          // Create new entry
-          await prisma.marketingCost.create({
-            data: {
-              shop,
-              platform: "facebook",
-              amount: spend,
-              date: costDate,
-              description: `Facebook Ads spend for ${insight.date_start}`,
-            },
-          });
-        }
-        
-        storedCount++;
-        storedDates.push(insight.date_start);
-        totalAmount += spend;
-      } else {
-        skippedCount++;
-      }
-    }
+    rows.push(...(data.data || []));
+    nextUrl = data.paging?.next || null;
+  }
 
-    // Update last sync time
-    await prisma.integration.update({
-      where: { id: integration.id },
-      data: { lastSync: new Date() },
-    });
+  return rows;
+}
 
-    console.log(`[FB Sync] ===== SYNC COMPLETE =====`);
-    console.log(`[FB Sync] Stored ${storedCount} days with data, skipped ${skippedCount} days with $0`);
-    console.log(`[FB Sync] Total amount: $${totalAmount}`);
-    if (storedDates.length > 0) {
-      console.log(`[FB Sync] Date range stored: ${storedDates[0]} to ${storedDates[storedDates.length - 1]}`);
-    }
-    
-    return { success: true, totalAmount };
-  } catch (error) {
-    console.error("Error syncing Facebook historical data:", error);
-    return { 
-      success: false, 
-      totalAmount: 0, 
-      error: error instanceof Error ? error.message : "Unknown error" 
-    };
-  }
+async function fetchCampaignInsights(
+  credentials: AdPlatformCredentials,
+  account: AdAccount,
+  range: DateRange,
+  level: "campaign" | "adset"
+): Promise<AdPerformanceInput[]> {
+  const fields = ["campaign_id", "campaign_name", "spend", "impressions", "clicks", "actions", "action_values", "date_start"];
+  if (level === "adset") fields.push("adset_id", "adset_name");
+
+  const insights = await fetchAllPages<FacebookCampaignInsight>(
+    `${FACEBOOK_GRAPH_API_URL}/${account.id}/insights?` +
+    `level=${level}` +
+    `&fields=${fields.join(",")}` +
+    `&time_range=${encodeURIComponent(JSON.stringify(range))}` +
+    `&time_increment=1` +
+    `&limit=500` +
+    `&access_token=${credentials.accessToken}`
+  );
+
+  return insights.map((insight) => ({
+    date: insight.date_start,
+    campaignId: insight.campaign_id,
+    campaignName: insight.campaign_name,
+    adSetId: insight.adset_id,
+    adSetName: insight.adset_name,
+    spend: parseFloat(insight.spend || "0"),
+    impressions: parseInt(insight.impressions || "0", 10),
+    clicks: parseInt(insight.clicks || "0", 10),
+    purchases: getPurchaseStat(insight.actions),
+    purchaseValue: getPurchaseStat(insight.action_values),
+  }));
 }
 
-export async function syncFacebookAdCosts(
-  shop: string,
-  startDate: Date,
-  endDate: Date
-): Promise<{ success: boolean; amount: number; error?: string }> {
-  try {
-    // Get Facebook integration
-    const integration = await prisma.integration.findFirst({
-      where: {
-        shop,
-        platform: "facebook_ads",
-        isActive: true,
-      },
-    });
+export const facebookConnector: AdPlatformConnector = {
+  platform: "facebook",
+  integrationPlatform: "facebook_ads",
+  label: "Facebook Ads",
+  logTag: "[FB Sync]",
+  // Long-lived tokens can only be extended while they're still valid
+  refreshLeadMs: 7 * 24 * 60 * 60 * 1000,
+
+  authorizationUrl(state) {
+    if (!process.env.FACEBOOK_APP_ID || !process.env.FACEBOOK_APP_SECRET) return null;
+
+    return (
+      `https://www.facebook.com/v18.0/dialog/oauth?` +
+      `client_id=${process.env.FACEBOOK_APP_ID}` +
+      `&redirect_uri=${encodeURIComponent(FACEBOOK_REDIRECT_URI)}` +
+      `&scope=ads_read,business_management` +
+      `&state=${encodeURIComponent(state)}`
+    );
+  },
 
-    if (!integration || !integration.credentials) {
-      return { success: false, amount: 0, error: "Facebook Ads not connected" };
-    }
+  async listAccounts(credentials) {
+    const accounts = await fetchAllPages<any>(
+      `${FACEBOOK_GRAPH_API_URL}/me/adaccounts?fields=id,name,currency,account_status&limit=100` +
+      `&access_token=${credentials.accessToken}`
+    );
 
-    const credentials = JSON.parse(integration.credentials);
-    const accessToken = credentials.accessToken;
-    const selectedAdAccountId = credentials.selectedAdAccountId;
+    return accounts.map((account): AdAccount => ({
+      id: account.id,
+      name: account.name,
+      currency: account.currency,
+      account_status: account.account_status,
+    }));
+  },
+
+  // Exchanging a valid token returns a long-lived one, which is how Facebook tokens are extended
+  async refreshCredentials(credentials) {
+    try {
+      const response = await fetch(
+        `${FACEBOOK_GRAPH_API_URL}/oauth/access_token?` +
+        `grant_type=fb_exchange_token` +
+        `&client_id=${process.env.FACEBOOK_APP_ID}` +
+        `&client_secret=${process.env.FACEBOOK_APP_SECRET}` +
+        `&fb_exchange_token=${credentials.accessToken}`
+      );
+      const data = await response.json();
 
-    // If no ad account selected, try to get accounts
-    if (!selectedAdAccountId) {
-      const adAccounts = await getFacebookAdAccounts(accessToken);
-      if (adAccounts.length === 0) {
-        return { success: false, amount: 0, error: "No Facebook ad accounts found" };
+      if (data.error || !data.access_token) {
+        console.error("[FB OAuth] Token exchange failed:", data.error);
+        return null;
       }
-      // Use first account by default
-      credentials.selectedAdAccountId = adAccounts[0].id;
-    }
 
-    let totalSpend = 0;
-
-    // Fetch spend only for selected ad account
-    if (credentials.selectedAdAccountId) {
-      const spend = await fetchFacebookAdSpend(
-        accessToken,
-        credentials.selectedAdAccountId,
-        startDate.toISOString(),
-        endDate.toISOString()
-      );
-      totalSpend = spend;
+      return {
+        accessToken: data.access_token,
+        expiresAt: Date.now() + (data.expires_in || LONG_LIVED_TOKEN_DAYS * 24 * 60 * 60) * 1000,
+      };
+    } catch (error) {
+      console.error("Error refreshing Facebook token:", error);
+      return null;
     }
+  },
 
-    // Store the cost in the database
-    if (totalSpend > 0) {
-      await prisma.marketingCost.create({
-        data: {
-          shop,
-          platform: "facebook",
-          amount: totalSpend,
-          date: endDate, // Use the end date of the range being synced
-          description: `Facebook Ads spend (${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()})`,
-        },
-      });
-    }
-
-    // Update last sync time
-    await prisma.integration.update({
-      where: { id: integration.id },
-      data: { lastSync: new Date() },
-    });
+  async fetchDailySpend(credentials, account, range) {
+    const insights = await fetchAllPages<FacebookInsight>(
+      `${FACEBOOK_GRAPH_API_URL}/${account.id}/insights?` +
+      `fields=spend,date_start,date_stop` +
+      `&time_range=${encodeURIComponent(JSON.stringify(range))}` +
+      `&time_increment=1` + // Daily breakdown
+      `&limit=90` +
+      `&access_token=${credentials.accessToken}`
+    );
 
-    return { success: true, amount: totalSpend };
+    const dailySpend = new Map<string, number>();
+    for (const insight of insights) {
+      addDailySpend(dailySpend, insight.date_start, parseFloat(insight.spend || "0"));
+    }
+    return dailySpend;
+  },
+
+  async fetchPerformance(credentials, account, range) {
+    return [
+      ...(await fetchCampaignInsights(credentials, account, range, "campaign")),
+      ...(await fetchCampaignInsights(credentials, account, range, "adset")),
+    ];
+  },
+};
+
+export async function getFacebookAdAccounts(accessToken: string): Promise<AdAccount[]> {
+  try {
+    return await facebookConnector.listAccounts({ accessToken });
   } catch (error) {
-    console.error("Error syncing Facebook ad costs:", error);
-    return { 
-      success: false, 
-      amount: 0, 
-      error: error instanceof Error ? error.message : "Unknown error" 
-    };
+    console.error("Error fetching Facebook ad accounts:", error);
+    return [];
   }
 }
 
+export async function syncFacebookHistoricalData(shop: string, days: number = 90) {
+  return syncAdPlatform(facebookConnector, shop, days);
+}
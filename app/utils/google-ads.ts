@@ -1,257 +1,230 @@
-import { prisma } from "./database";
+import { addDailySpend, syncAdPlatform } from "./ad-connector";
+import type { AdAccount, AdPlatformConnector, AdPlatformCredentials } from "./ad-connector";
+import type { AdPerformanceInput } from "./database";
+
+// Overridable so a local stand-in can replace the Google Ads API
+export const GOOGLE_ADS_API_URL = process.env.GOOGLE_ADS_API_URL || "https://googleads.googleapis.com/v16";
+export const GOOGLE_TOKEN_URL = process.env.GOOGLE_TOKEN_URL || "https://oauth2.googleapis.com/token";
+export const GOOGLE_ADS_REDIRECT_URI =
+  process.env.GOOGLE_ADS_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/google-oauth";
+
+// Requests for a client account under a manager (MCC) must name the manager they go through
+function googleHeaders(accessToken: string, loginCustomerId?: string): Record<string, string> {
+  return {
+    "Authorization": `Bearer ${accessToken}`,
+    "developer-token": process.env.GOOGLE_ADS_DEVELOPER_TOKEN || "",
+    ...(loginCustomerId ? { "login-customer-id": loginCustomerId } : {}),
+  };
+}
+
+// Runs a GAQL query against a customer. The stream returns every row in one response, as a list of batches.
+async function searchGoogleAds(
+  credentials: AdPlatformCredentials,
+  customerId: string,
+  query: string,
+  loginCustomerId?: string
+): Promise<any[]> {
+  const response = await fetch(`${GOOGLE_ADS_API_URL}/customers/${customerId}/googleAds:searchStream`, {
+    method: "POST",
+    headers: {
+      ...googleHeaders(credentials.accessToken, loginCustomerId),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Google Ads API request failed (${response.status}): ${errorText}`);
+  }
 
-interface GoogleAdAccount {
-  id: string;
-  name: string;
-  customerId: string;
+  const batches = await response.json();
+  return (Array.isArray(batches) ? batches : [batches]).flatMap((batch: any) => batch.results || []);
 }
 
-export async function getGoogleAdAccounts(accessToken: string): Promise<GoogleAdAccount[]> {
-  try {
-    // Use Google Ads API to list accessible customers
-    const response = await fetch(
-      `https://googleads.googleapis.com/v16/customers:listAccessibleCustomers`,
-      {
-        headers: {
-          "Authorization": `Bearer ${accessToken}`,
-          "developer-token": process.env.GOOGLE_ADS_DEVELOPER_TOKEN || "",
-        },
-      }
+// Accounts stored before manager support have no login customer, and are queried directly
+function searchGoogleAdsAccount(credentials: AdPlatformCredentials, account: AdAccount, query: string): Promise<any[]> {
+  return searchGoogleAds(
+    credentials,
+    account.id,
+    query,
+    typeof account.loginCustomerId === "string" ? account.loginCustomerId : undefined
+  );
+}
+
+// Conversions stand in for purchases, since that's what Google optimizes and reports value for
+function toPerformanceRow(result: any): AdPerformanceInput {
+  return {
+    date: result.segments?.date,
+    campaignId: String(result.campaign?.id),
+    campaignName: result.campaign?.name || `Campaign ${result.campaign?.id}`,
+    adSetId: result.adGroup?.id ? String(result.adGroup.id) : undefined,
+    adSetName: result.adGroup?.name,
+    spend: Number(result.metrics?.costMicros || 0) / 1000000,
+    impressions: Number(result.metrics?.impressions || 0),
+    clicks: Number(result.metrics?.clicks || 0),
+    purchases: Number(result.metrics?.conversions || 0),
+    purchaseValue: Number(result.metrics?.conversionsValue || 0),
+  };
+}
+
+export const googleConnector: AdPlatformConnector = {
+  platform: "google",
+  integrationPlatform: "google_ads",
+  label: "Google Ads",
+  logTag: "[Google Sync]",
+
+  authorizationUrl(state) {
+    if (!process.env.GOOGLE_ADS_CLIENT_ID || !process.env.GOOGLE_ADS_CLIENT_SECRET) return null;
+
+    return (
+      `https://accounts.google.com/o/oauth2/v2/auth?` +
+      `client_id=${process.env.GOOGLE_ADS_CLIENT_ID}` +
+      `&redirect_uri=${encodeURIComponent(GOOGLE_ADS_REDIRECT_URI)}` +
+      `&response_type=code` +
+      `&scope=${encodeURIComponent("https://www.googleapis.com/auth/adwords")}` +
+      `&access_type=offline` +
+      `&prompt=consent` +
+      `&state=${encodeURIComponent(state)}`
     );
-    
+  },
+
+  async listAccounts(credentials) {
+    // Use Google Ads API to list accessible customers
+    const response = await fetch(`${GOOGLE_ADS_API_URL}/customers:listAccessibleCustomers`, {
+      headers: googleHeaders(credentials.accessToken),
+    });
     const data = await response.json();
-    
+
     if (data.error) {
-      console.error("Google Ads API error:", data.error);
-      return [];
+      throw new Error(data.error.message || "Google Ads API request failed");
     }
-    
-    // Transform the response
-    const accounts = (data.resourceNames || []).map((resourceName: string) => {
-      const customerId = resourceName.split('/')[1];
-      return {
-        id: resourceName,
-        customerId: customerId,
-        name: `Customer ${customerId}`,
-      };
-    });
-    
-    return accounts;
-  } catch (error) {
-    console.error("Error fetching Google ad accounts:", error);
-    return [];
-  }
-}
 
-export async function syncGoogleHistoricalData(
-  shop: string,
-  days: number = 90
-): Promise<{ success: boolean; totalAmount: number; error?: string }> {
-  try {
-    // Get Google integration
-    const integration = await prisma.integration.findFirst({
-      where: {
-        shop,
-        platform: "google_ads",
-        isActive: true,
-      },
-    });
+    // Accessible customers can be managers, whose client accounts are only reachable through them.
+    // Managers don't report metrics themselves, so only client (non-manager) accounts are listed.
+    const accounts = new Map<string, AdAccount>();
+    for (const resourceName of data.resourceNames || []) {
+      const rootId = resourceName.split("/")[1];
+
+      let clients: any[];
+      try {
+        clients = await searchGoogleAds(
+          credentials,
+          rootId,
+          `SELECT customer_client.id, customer_client.descriptive_name, customer_client.currency_code, customer_client.manager, customer_client.level
+          FROM customer_client
+          WHERE customer_client.status = 'ENABLED'`,
+          rootId
+        );
+      } catch (error) {
+        // Cancelled or suspended customers can't be queried
+        console.error(`[Google Ads] Could not read account hierarchy for customer ${rootId}:`, error);
+        continue;
+      }
 
-    if (!integration || !integration.credentials) {
-      return { success: false, totalAmount: 0, error: "Google Ads not connected" };
-    }
+      const root = clients.find((result) => Number(result.customerClient?.level) === 0);
+      const rootName = root?.customerClient?.descriptiveName || `Customer ${rootId}`;
+
+      for (const { customerClient } of clients) {
+        if (!customerClient?.id || customerClient.manager) continue;
 
-    const credentials = JSON.parse(integration.credentials);
-    let accessToken = credentials.accessToken;
+        const id = String(customerClient.id);
+        const level = Number(customerClient.level || 0);
+        // A client reachable directly and through a manager is queried directly
+        if (accounts.has(id) && level > 0) continue;
 
-    // Check if token needs refresh
-    if (credentials.expiresAt && Date.now() >= credentials.expiresAt) {
-      console.log("[Google Sync] Access token expired, refreshing...");
-      const newTokens = await refreshGoogleToken(credentials.refreshToken);
-      if (!newTokens) {
-        return { success: false, totalAmount: 0, error: "Failed to refresh Google token" };
+        accounts.set(id, {
+          id,
+          name: customerClient.descriptiveName || `Customer ${id}`,
+          currency: customerClient.currencyCode,
+          loginCustomerId: rootId,
+          ...(level > 0 ? { managerName: rootName } : {}),
+        });
       }
-      accessToken = newTokens.accessToken;
-      
-      // Update stored credentials
-      const updatedCredentials = {
-        ...credentials,
-        accessToken: newTokens.accessToken,
-        expiresAt: Date.now() + (newTokens.expiresIn * 1000),
-      };
-      
-      await prisma.integration.update({
-        where: { id: integration.id },
-        data: { credentials: JSON.stringify(updatedCredentials) },
-      });
     }
 
-    const selectedCustomerId = credentials.selectedCustomerId;
+    return Array.from(accounts.values());
+  },
 
-    if (!selectedCustomerId) {
-      return { success: false, totalAmount: 0, error: "No Google Ads customer selected" };
-    }
-
-    let totalAmount = 0;
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+  async refreshCredentials(credentials) {
+    try {
+      const response = await fetch(GOOGLE_TOKEN_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          client_id: process.env.GOOGLE_ADS_CLIENT_ID || "",
+          client_secret: process.env.GOOGLE_ADS_CLIENT_SECRET || "",
+          refresh_token: credentials.refreshToken || "",
+          grant_type: "refresh_token",
+        }),
+      });
+      const data = await response.json();
 
-    console.log(`[Google Sync] ===== SYNC START =====`);
-    console.log(`[Google Sync] Current system date: ${new Date().toISOString()}`);
-    console.log(`[Google Sync] Requesting ${days} days of data`);
-    console.log(`[Google Sync] Calculated date range: ${startDate.toISOString()} to ${endDate.toISOString()}`);
+      if (data.error) {
+        console.error("Error refreshing Google token:", data.error);
+        return null;
+      }
 
-    // Format dates for Google Ads API (YYYY-MM-DD)
-    const formattedStartDate = startDate.toISOString().split('T')[0];
-    const formattedEndDate = endDate.toISOString().split('T')[0];
-    
-    console.log(`[Google API] Formatted date range for API: ${formattedStartDate} to ${formattedEndDate}`);
+      return {
+        accessToken: data.access_token,
+        expiresAt: Date.now() + (data.expires_in * 1000),
+      };
+    } catch (error) {
+      console.error("Error refreshing Google token:", error);
+      return null;
+    }
+  },
 
+  async fetchDailySpend(credentials, account, range) {
     // Use Google Ads Query Language (GAQL) to get daily metrics
     const query = `
       SELECT
         segments.date,
         metrics.cost_micros
       FROM campaign
-      WHERE segments.date BETWEEN '${formattedStartDate}' AND '${formattedEndDate}'
+      WHERE segments.date BETWEEN '${range.since}' AND '${range.until}'
     `;
 
-    const response = await fetch(
-      `https://googleads.googleapis.com/v16/customers/${selectedCustomerId}/googleAds:searchStream`,
-      {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${accessToken}`,
-          "developer-token": process.env.GOOGLE_ADS_DEVELOPER_TOKEN || "",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ query }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[Google API] Request failed:", errorText);
-      return { success: false, totalAmount: 0, error: "Google Ads API request failed" };
-    }
-
-    const data = await response.json();
-    
-    if (data.error) {
-      console.error("[Google API] Error:", data.error);
-      return { success: false, totalAmount: 0, error: data.error.message };
-    }
-
-    // Process results and aggregate by date
     const dailySpend = new Map<string, number>();
-    
-    for (const result of data.results || []) {
-      const date = result.segments?.date;
-      const costMicros = result.metrics?.costMicros || 0;
-      const cost = costMicros / 1000000; // Convert micros to dollars
-      
-      if (date && cost > 0) {
-        const currentCost = dailySpend.get(date) || 0;
-        dailySpend.set(date, currentCost + cost);
-      }
-    }
-
-    console.log(`[Google API] Received ${dailySpend.size} days with spend data`);
-    
-    if (dailySpend.size > 0) {
-      const dates = Array.from(dailySpend.keys()).sort();
-      console.log(`[Google API] First date returned: ${dates[0]}`);
-      console.log(`[Google API] Last date returned: ${dates[dates.length - 1]}`);
+    for (const result of await searchGoogleAdsAccount(credentials, account, query)) {
+      addDailySpend(dailySpend, result.segments?.date, Number(result.metrics?.costMicros || 0) / 1000000);
     }
 
-    // Store each day's spend in the database
-    let storedCount = 0;
-    const storedDates: string[] = [];
-    
-    for (const [dateStr, spend] of dailySpend.entries()) {
-      const costDate = new Date(dateStr);
-      costDate.setHours(0, 0, 0, 0);
-
-      await prisma.marketingCost.upsert({
-        where: {
-          shop_platform_date: {
-            shop,
-            platform: "google",
-            date: costDate,
-          },
-        },
-        update: {
-          amount: spend,
-          description: `Google Ads spend for ${dateStr}`,
-        },
-        create: {
-          shop,
-          platform: "google",
-          amount: spend,
-          date: costDate,
-          description: `Google Ads spend for ${dateStr}`,
-        },
-      });
+    return dailySpend;
+  },
 
-      storedCount++;
-      storedDates.push(dateStr);
-      totalAmount += spend;
-    }
+  async fetchPerformance(credentials, account, range) {
+    const metrics =
+      "segments.date, metrics.cost_micros, metrics.impressions, metrics.clicks, metrics.conversions, metrics.conversions_value";
+    const dateFilter = `segments.date BETWEEN '${range.since}' AND '${range.until}'`;
 
-    // Update last sync time
-    await prisma.integration.update({
-      where: { id: integration.id },
-      data: { lastSync: new Date() },
-    });
+    // Campaign totals also cover Performance Max campaigns, which have no ad groups
+    const campaigns = await searchGoogleAdsAccount(
+      credentials,
+      account,
+      `SELECT campaign.id, campaign.name, ${metrics} FROM campaign WHERE ${dateFilter}`
+    );
+    const adGroups = await searchGoogleAdsAccount(
+      credentials,
+      account,
+      `SELECT campaign.id, campaign.name, ad_group.id, ad_group.name, ${metrics} FROM ad_group WHERE ${dateFilter}`
+    );
 
-    console.log(`[Google Sync] ===== SYNC COMPLETE =====`);
-    console.log(`[Google Sync] Stored ${storedCount} days with data`);
-    console.log(`[Google Sync] Total amount: $${totalAmount}`);
-    if (storedDates.length > 0) {
-      console.log(`[Google Sync] Date range stored: ${storedDates[0]} to ${storedDates[storedDates.length - 1]}`);
-    }
-    
-    return { success: true, totalAmount };
-  } catch (error) {
-    console.error("Error syncing Google historical data:", error);
-    return { 
-      success: false, 
-      totalAmount: 0, 
-      error: error instanceof Error ? error.message : "Unknown error" 
-    };
-  }
-}
+    return [...campaigns, ...adGroups].map(toPerformanceRow);
+  },
+};
 
-async function refreshGoogleToken(refreshToken: string): Promise<{ accessToken: string; expiresIn: number } | null> {
+export async function getGoogleAdAccounts(accessToken: string): Promise<AdAccount[]> {
   try {
-    const response = await fetch("https://oauth2.googleapis.com/token", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        client_id: process.env.GOOGLE_ADS_CLIENT_ID || "",
-        client_secret: process.env.GOOGLE_ADS_CLIENT_SECRET || "",
-        refresh_token: refreshToken,
-        grant_type: "refresh_token",
-      }),
-    });
-
-    const data = await response.json();
-
-    if (data.error) {
-      console.error("Error refreshing Google token:", data.error);
-      return null;
-    }
-
-    return {
-      accessToken: data.access_token,
-      expiresIn: data.expires_in,
-    };
+    return await googleConnector.listAccounts({ accessToken });
   } catch (error) {
-    console.error("Error refreshing Google token:", error);
-    return null;
+    console.error("Error fetching Google ad accounts:", error);
+    return [];
   }
 }
 
+export async function syncGoogleHistoricalData(shop: string, days: number = 90) {
+  return syncAdPlatform(googleConnector, shop, days);
+}
@@ -0,0 +1,90 @@
+import { prisma } from "./database";
+import { runThrottledQuery } from "./shopify-data";
+import type { LandedCostRule } from "./profit-calculator";
+
+async function fetchCollectionProductIds(admin: any, collectionId: string): Promise<string[]> {
+  const query = `#graphql
+    query getCollectionProducts($id: ID!, $after: String) {
+      collection(id: $id) {
+        products(first: 250, after: $after) {
+          nodes {
+            id
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `;
+
+  const productIds: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const data = await runThrottledQuery(admin, query, { id: collectionId, after: cursor });
+    const products = data.data?.collection?.products;
+
+    productIds.push(...(products?.nodes || []).map((node: any) => node.id));
+    cursor = products?.pageInfo?.hasNextPage ? products.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return productIds;
+}
+
+// Collection membership changes without telling us, so stored product lists are refreshed this often
+const COLLECTION_REFRESH_MS = 6 * 60 * 60 * 1000;
+
+// Product IDs to store with a rule when it's saved, so loads don't need to ask Shopify
+export async function resolveLandedCostRuleProducts(
+  admin: any,
+  rule: { scope: string; targetId: string | null }
+): Promise<{ productIds: string | null; resolvedAt: Date | null }> {
+  if (rule.scope !== "collection" || !rule.targetId) {
+    return { productIds: null, resolvedAt: null };
+  }
+
+  return {
+    productIds: JSON.stringify(await fetchCollectionProductIds(admin, rule.targetId)),
+    resolvedAt: new Date(),
+  };
+}
+
+/**
+ * Loads the shop's landed cost rules. Collection rules use the products stored when
+ * they were saved, refreshed from Shopify once those are older than a few hours.
+ */
+export async function loadLandedCostRules(admin: any, shop: string): Promise<LandedCostRule[]> {
+  const rules = await prisma.landedCostRule.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const staleBefore = Date.now() - COLLECTION_REFRESH_MS;
+  for (const rule of rules) {
+    if (rule.scope !== "collection" || !rule.targetId) continue;
+    if (rule.productIds && rule.resolvedAt && rule.resolvedAt.getTime() > staleBefore) continue;
+
+    try {
+      Object.assign(rule, await resolveLandedCostRuleProducts(admin, rule));
+      await prisma.landedCostRule.update({
+        where: { id: rule.id },
+        data: { productIds: rule.productIds, resolvedAt: rule.resolvedAt },
+      });
+    } catch (error) {
+      // Keep costing with the last known products rather than failing the page
+      console.error(`[Landed Costs] Failed to refresh products for ${rule.targetId}:`, error);
+    }
+  }
+
+  return rules.map((rule) => ({
+    type: rule.type,
+    amount: rule.amount,
+    productIds: rule.scope === "product" && rule.targetId
+      ? [rule.targetId]
+      : rule.scope === "collection" && rule.targetId
+        ? (rule.productIds ? JSON.parse(rule.productIds) : [])
+        : null,
+  }));
+}
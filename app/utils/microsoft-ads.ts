@@ -0,0 +1,245 @@
+import { inflateRawSync } from "node:zlib";
+import { addDailySpend, syncAdPlatform } from "./ad-connector";
+import type { AdAccount, AdPlatformConnector, AdPlatformCredentials } from "./ad-connector";
+
+// Overridable so a local stand-in can replace Microsoft's APIs
+export const MICROSOFT_AUTH_BASE_URL =
+  process.env.MICROSOFT_AUTH_BASE_URL || "https://login.microsoftonline.com/common/oauth2/v2.0";
+export const MICROSOFT_ADS_REDIRECT_URI =
+  process.env.MICROSOFT_ADS_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/microsoft-oauth";
+const CUSTOMER_API_URL =
+  process.env.MICROSOFT_ADS_CUSTOMER_API_URL || "https://clientcenter.api.bingads.microsoft.com/CustomerManagement/v13";
+const REPORTING_API_URL =
+  process.env.MICROSOFT_ADS_REPORTING_API_URL || "https://reporting.api.bingads.microsoft.com/Reporting/v13";
+
+export const MICROSOFT_ADS_SCOPE = "https://ads.microsoft.com/msads.manage offline_access";
+
+const REPORT_POLL_INTERVAL_MS = 2000;
+const REPORT_MAX_POLLS = 60;
+
+async function requestMicrosoftToken(params: Record<string, string>): Promise<AdPlatformCredentials | null> {
+  try {
+    const response = await fetch(`${MICROSOFT_AUTH_BASE_URL}/token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        client_id: process.env.MICROSOFT_ADS_CLIENT_ID || "",
+        client_secret: process.env.MICROSOFT_ADS_CLIENT_SECRET || "",
+        scope: MICROSOFT_ADS_SCOPE,
+        ...params,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || !data.access_token) {
+      console.error("[Microsoft OAuth] Token request failed:", data);
+      return null;
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || params.refresh_token,
+      expiresAt: Date.now() + (data.expires_in * 1000),
+    };
+  } catch (error) {
+    console.error("Error requesting Microsoft token:", error);
+    return null;
+  }
+}
+
+export async function exchangeMicrosoftCode(code: string, redirectUri: string) {
+  return requestMicrosoftToken({
+    code,
+    grant_type: "authorization_code",
+    redirect_uri: redirectUri,
+  });
+}
+
+async function microsoftRequest(
+  url: string,
+  accessToken: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<any> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${accessToken}`,
+      "DeveloperToken": process.env.MICROSOFT_ADS_DEVELOPER_TOKEN || "",
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Microsoft Ads API request failed (${response.status}): ${errorText}`);
+  }
+
+  return response.json();
+}
+
+// Reports download as a zip holding a single CSV. Reads the first entry via the central directory.
+function unzipFirstEntry(archive: Buffer): string {
+  const endOfDirectory = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOfDirectory === -1) {
+    throw new Error("Report download is not a zip archive");
+  }
+
+  const entry = archive.readUInt32LE(endOfDirectory + 16);
+  const method = archive.readUInt16LE(entry + 10);
+  const compressedSize = archive.readUInt32LE(entry + 20);
+  const localHeader = archive.readUInt32LE(entry + 42);
+  const dataStart = localHeader + 30 + archive.readUInt16LE(localHeader + 26) + archive.readUInt16LE(localHeader + 28);
+  const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+  return (method === 0 ? data : inflateRawSync(data)).toString("utf8").replace(/^\uFEFF/, "");
+}
+
+function toReportDate(day: string) {
+  const [year, month, date] = day.split("-").map(Number);
+  return { Day: date, Month: month, Year: year };
+}
+
+export const microsoftConnector: AdPlatformConnector = {
+  platform: "microsoft",
+  integrationPlatform: "microsoft_ads",
+  label: "Microsoft Ads",
+  logTag: "[Microsoft Sync]",
+
+  authorizationUrl(state) {
+    if (!process.env.MICROSOFT_ADS_CLIENT_ID || !process.env.MICROSOFT_ADS_CLIENT_SECRET) return null;
+
+    return (
+      `${MICROSOFT_AUTH_BASE_URL}/authorize?` +
+      `client_id=${process.env.MICROSOFT_ADS_CLIENT_ID}` +
+      `&redirect_uri=${encodeURIComponent(MICROSOFT_ADS_REDIRECT_URI)}` +
+      `&response_type=code` +
+      `&response_mode=query` +
+      `&scope=${encodeURIComponent(MICROSOFT_ADS_SCOPE)}` +
+      `&state=${encodeURIComponent(state)}`
+    );
+  },
+
+  async listAccounts(credentials) {
+    const { User: user } = await microsoftRequest(`${CUSTOMER_API_URL}/User/Query`, credentials.accessToken, { UserId: null });
+
+    const data = await microsoftRequest(`${CUSTOMER_API_URL}/Accounts/Search`, credentials.accessToken, {
+      Predicates: [{ Field: "UserId", Operator: "Equals", Value: String(user.Id) }],
+      Ordering: null,
+      PageInfo: { Index: 0, Size: 1000 },
+    });
+
+    return (data.Accounts || []).map((account: any): AdAccount => ({
+      id: String(account.Id),
+      name: account.Name,
+      currency: account.CurrencyCode,
+      customerId: String(account.ParentCustomerId),
+    }));
+  },
+
+  async refreshCredentials(credentials) {
+    return requestMicrosoftToken({
+      refresh_token: credentials.refreshToken || "",
+      grant_type: "refresh_token",
+    });
+  },
+
+  async fetchDailySpend(credentials, account, range) {
+    const accountHeaders = { CustomerId: String(account.customerId), CustomerAccountId: account.id };
+
+    // Reports are generated asynchronously: submit, poll until ready, then download
+    const { ReportRequestId: reportRequestId } = await microsoftRequest(
+      `${REPORTING_API_URL}/GenerateReport/Submit`,
+      credentials.accessToken,
+      {
+        ReportRequest: {
+          Type: "AccountPerformanceReportRequest",
+          ReportName: "Daily spend",
+          Format: "Csv",
+          ExcludeReportHeader: true,
+          ExcludeReportFooter: true,
+          ExcludeColumnHeaders: false,
+          ReturnOnlyCompleteData: false,
+          Aggregation: "Daily",
+          Columns: ["TimePeriod", "Spend"],
+          Scope: { AccountIds: [Number(account.id)] },
+          Time: {
+            CustomDateRangeStart: toReportDate(range.since),
+            CustomDateRangeEnd: toReportDate(range.until),
+          },
+        },
+      },
+      accountHeaders
+    );
+
+    let reportReady = false;
+    let downloadUrl: string | null = null;
+    for (let poll = 0; poll < REPORT_MAX_POLLS; poll++) {
+      const { ReportRequestStatus: status } = await microsoftRequest(
+        `${REPORTING_API_URL}/GenerateReport/Poll`,
+        credentials.accessToken,
+        { ReportRequestId: reportRequestId },
+        accountHeaders
+      );
+
+      if (status?.Status === "Error") {
+        throw new Error("Microsoft Ads report failed");
+      }
+      if (status?.Status === "Success") {
+        reportReady = true;
+        downloadUrl = status.ReportDownloadUrl || null;
+        break;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, REPORT_POLL_INTERVAL_MS));
+    }
+
+    if (!reportReady) {
+      throw new Error("Timed out waiting for the Microsoft Ads report");
+    }
+
+    const dailySpend = new Map<string, number>();
+
+    // A successful report without a download URL means there was no spend in the range
+    if (!downloadUrl) {
+      console.log("[Microsoft Sync] Report has no data");
+      return dailySpend;
+    }
+
+    const response = await fetch(downloadUrl);
+    if (!response.ok) {
+      throw new Error(`Microsoft Ads report download failed (${response.status})`);
+    }
+
+    const [header, ...lines] = unzipFirstEntry(Buffer.from(await response.arrayBuffer()))
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line) => line.split(",").map((cell) => cell.replace(/^"|"$/g, "").trim()));
+    const dateColumn = header?.indexOf("TimePeriod") ?? -1;
+    const spendColumn = header?.indexOf("Spend") ?? -1;
+
+    for (const cells of lines) {
+      addDailySpend(dailySpend, cells[dateColumn], parseFloat(cells[spendColumn] || "0"));
+    }
+
+    return dailySpend;
+  },
+};
+
+export async function getMicrosoftAdAccounts(accessToken: string): Promise<AdAccount[]> {
+  try {
+    return await microsoftConnector.listAccounts({ accessToken });
+  } catch (error) {
+    console.error("Error fetching Microsoft Ads accounts:", error);
+    return [];
+  }
+}
+
+export async function syncMicrosoftHistoricalData(shop: string, days: number = 90) {
+  return syncAdPlatform(microsoftConnector, shop, days);
+}
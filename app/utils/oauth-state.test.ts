@@ -0,0 +1,54 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createOAuthState, verifyOAuthState } from "./oauth-state";
+
+beforeAll(() => {
+  vi.stubEnv("SHOPIFY_API_SECRET", "app-secret");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyOAuthState", () => {
+  it("returns the shop a state was created for", () => {
+    expect(verifyOAuthState(createOAuthState("test-shop.myshopify.com"))).toBe("test-shop.myshopify.com");
+  });
+
+  it("gives every flow its own state", () => {
+    expect(createOAuthState("test-shop.myshopify.com")).not.toBe(createOAuthState("test-shop.myshopify.com"));
+  });
+
+  it("rejects a bare shop domain and a missing state", () => {
+    expect(verifyOAuthState("test-shop.myshopify.com")).toBeNull();
+    expect(verifyOAuthState(null)).toBeNull();
+  });
+
+  it("rejects a state whose shop was swapped", () => {
+    const [, signature] = createOAuthState("test-shop.myshopify.com").split(".");
+    const payload = Buffer.from(
+      JSON.stringify({ shop: "other-shop.myshopify.com", nonce: "nonce", expiresAt: Date.now() + 60_000 })
+    ).toString("base64url");
+
+    expect(verifyOAuthState(`${payload}.${signature}`)).toBeNull();
+  });
+
+  it("rejects a state signed with another secret", () => {
+    vi.stubEnv("SHOPIFY_API_SECRET", "other-secret");
+    const state = createOAuthState("test-shop.myshopify.com");
+    vi.stubEnv("SHOPIFY_API_SECRET", "app-secret");
+
+    expect(verifyOAuthState(state)).toBeNull();
+  });
+
+  it("rejects an expired state", () => {
+    vi.useFakeTimers();
+    const state = createOAuthState("test-shop.myshopify.com");
+    vi.advanceTimersByTime(16 * 60 * 1000);
+
+    expect(verifyOAuthState(state)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Long enough to sign in to the ad platform and approve access
+const STATE_TTL_MS = 15 * 60 * 1000;
+
+function sign(payload: string): string {
+  const secret = process.env.SHOPIFY_API_SECRET;
+  if (!secret) {
+    throw new Error("SHOPIFY_API_SECRET is required to sign OAuth state");
+  }
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Builds the `state` for an ad platform authorization request: the shop that started
+ * it, a random nonce and an expiry, signed with the app secret. OAuth callbacks are
+ * unauthenticated, so the shop is only trusted once the signature checks out.
+ */
+export function createOAuthState(shop: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      shop,
+      nonce: randomBytes(16).toString("base64url"),
+      expiresAt: Date.now() + STATE_TTL_MS,
+    })
+  ).toString("base64url");
+
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the shop a state was issued for, or null when it's forged, altered or expired
+export function verifyOAuthState(state: string | null): string | null {
+  const [payload, signature] = (state || "").split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const { shop, expiresAt } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (typeof shop !== "string" || !shop || typeof expiresAt !== "number" || Date.now() > expiresAt) {
+      return null;
+    }
+    return shop;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,817 @@
+import { prisma } from "./database";
+import { buildLandedCosts, buildSalesData, buildShippingData } from "./profit-calculator";
+import type { LandedCostRule, LandedCosts, OrderLandedCostInput, SalesData, ShippingCostRule } from "./profit-calculator";
+import type { ProductLineInput } from "./product-profitability";
+import { loadCostHistory } from "./cost-history";
+import type { CostLookup } from "./cost-history";
+import {
+  PAYMENT_CONTEXT_FIELDS,
+  REFUND_WITH_LINE_ITEMS_FIELDS,
+  REVENUE_ADJUSTMENT_FIELDS,
+  SHIPPING_FIELDS,
+  TRANSACTION_FIELDS,
+  completeRefundLineItems,
+  fetchRemainingLineItems,
+  fetchShippingLabelCharges,
+  fetchShopifyPaymentsFees,
+  getTransactionFee,
+  isChargeTransaction,
+  isCurrencyConverted,
+  isInternationalOrder,
+  iterateOrders,
+  parseMoney,
+  runThrottledQuery,
+  summarizeRefund,
+} from "./shopify-data";
+
+const WRITE_BATCH_SIZE = 200;
+// Reconciliation re-reads a few minutes before the last run so nothing slips between runs
+const RECONCILE_OVERLAP_MS = 5 * 60 * 1000;
+
+// GraphQL selections shared by the bulk export, webhook refreshes and reconciliation
+export const LEDGER_ORDER_FIELDS = `
+  id
+  name
+  createdAt
+  cancelledAt
+  ${PAYMENT_CONTEXT_FIELDS}
+  totalPriceSet {
+    shopMoney {
+      amount
+    }
+  }
+  totalShippingPriceSet {
+    shopMoney {
+      amount
+    }
+  }
+  ${REVENUE_ADJUSTMENT_FIELDS}
+  ${SHIPPING_FIELDS}
+  transactions {
+    ${TRANSACTION_FIELDS}
+  }
+  customer {
+    id
+  }
+  customerJourneySummary {
+    firstVisit {
+      occurredAt
+    }
+  }
+`;
+
+export const LEDGER_LINE_ITEM_FIELDS = `
+  id
+  name
+  title
+  variantTitle
+  sku
+  quantity
+  requiresShipping
+  isGiftCard
+  discountedTotalSet {
+    shopMoney {
+      amount
+    }
+  }
+  product {
+    id
+  }
+  variant {
+    id
+    inventoryItem {
+      unitCost {
+        amount
+      }
+    }
+  }
+`;
+
+const LEDGER_ORDER_WITH_LINE_ITEMS_FIELDS = `
+  ${LEDGER_ORDER_FIELDS}
+  refunds {
+    ${REFUND_WITH_LINE_ITEMS_FIELDS}
+  }
+  lineItems(first: 50) {
+    edges {
+      node {
+        ${LEDGER_LINE_ITEM_FIELDS}
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+  }
+`;
+
+export interface LedgerOrder {
+  id: string;
+  shop: string;
+  name: string | null;
+  orderCreatedAt: Date;
+  cancelledAt: Date | null;
+  currency: string | null;
+  presentmentCurrency: string | null;
+  billingCountry: string | null;
+  totalPrice: number;
+  totalShipping: number;
+  totalTax: number;
+  totalTips: number;
+  totalDuties: number;
+  totalDiscounts: number;
+  totalWeight: number;
+  shippingCountry: string | null;
+  customerId: string | null;
+  firstVisitAt: Date | null;
+}
+
+export interface LedgerLineItem {
+  id: string;
+  shop: string;
+  orderId: string;
+  productId: string | null;
+  variantId: string | null;
+  sku: string | null;
+  title: string | null;
+  productTitle: string | null;
+  variantTitle: string | null;
+  quantity: number;
+  unitCost: number | null;
+  requiresShipping: boolean;
+  isGiftCard: boolean;
+  totalAmount: number;
+}
+
+export interface LedgerRefund {
+  id: string;
+  shop: string;
+  orderId: string;
+  refundCreatedAt: Date;
+  amount: number;
+  restockedCogs: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  shop: string;
+  orderId: string;
+  gateway: string;
+  amount: number;
+  fee: number | null;
+  processedAt: Date | null;
+}
+
+// Maps an Admin GraphQL order node onto a ledger row
+export function normalizeOrder(shop: string, node: any): LedgerOrder {
+  return {
+    id: node.id,
+    shop,
+    name: node.name || null,
+    orderCreatedAt: new Date(node.createdAt),
+    cancelledAt: node.cancelledAt ? new Date(node.cancelledAt) : null,
+    currency: node.currencyCode || null,
+    presentmentCurrency: node.presentmentCurrencyCode || null,
+    billingCountry: node.billingAddress?.countryCodeV2 || null,
+    totalPrice: parseMoney(node.totalPriceSet),
+    totalShipping: parseMoney(node.totalShippingPriceSet),
+    totalTax: parseMoney(node.totalTaxSet),
+    totalTips: parseMoney(node.totalTipReceivedSet),
+    totalDuties: parseMoney(node.originalTotalDutiesSet),
+    totalDiscounts: parseMoney(node.totalDiscountsSet),
+    totalWeight: parseFloat(node.totalWeight || "0"),
+    shippingCountry: node.shippingAddress?.countryCodeV2 || null,
+    customerId: node.customer?.id || null,
+    firstVisitAt: node.customerJourneySummary?.firstVisit?.occurredAt
+      ? new Date(node.customerJourneySummary.firstVisit.occurredAt)
+      : null,
+  };
+}
+
+// Maps an Admin GraphQL line item node onto a ledger row
+export function normalizeLineItem(shop: string, orderId: string, node: any): LedgerLineItem {
+  const unitCost = node.variant?.inventoryItem?.unitCost?.amount;
+
+  return {
+    id: node.id,
+    shop,
+    orderId,
+    productId: node.product?.id || null,
+    variantId: node.variant?.id || null,
+    sku: node.sku || null,
+    title: node.name || node.title || null,
+    productTitle: node.title || null,
+    variantTitle: node.variantTitle || null,
+    quantity: node.quantity || 0,
+    unitCost: unitCost !== undefined && unitCost !== null ? parseFloat(unitCost) : null,
+    requiresShipping: node.requiresShipping !== false,
+    isGiftCard: !!node.isGiftCard,
+    totalAmount: parseMoney(node.discountedTotalSet),
+  };
+}
+
+// Maps an Admin GraphQL refund node (with all of its refundLineItems) onto a ledger row.
+// Restocked units are costed as of when the order was placed.
+export function normalizeRefund(
+  shop: string,
+  orderId: string,
+  node: any,
+  orderCreatedAt: Date | string,
+  costLookup?: CostLookup
+): LedgerRefund {
+  const { amount, restockedCogs } = summarizeRefund(node, orderCreatedAt, costLookup);
+
+  return {
+    id: node.id,
+    shop,
+    orderId,
+    refundCreatedAt: new Date(node.createdAt),
+    amount,
+    restockedCogs,
+  };
+}
+
+// Maps an order's successful charges onto ledger rows
+export function normalizeTransactions(shop: string, orderId: string, transactions: any[]): LedgerTransaction[] {
+  return (transactions || []).filter(isChargeTransaction).map((transaction) => ({
+    id: transaction.id,
+    shop,
+    orderId,
+    gateway: transaction.gateway || "unknown",
+    amount: parseMoney(transaction.amountSet),
+    fee: getTransactionFee(transaction),
+    processedAt: transaction.processedAt ? new Date(transaction.processedAt) : null,
+  }));
+}
+
+// Fees filled in later from Shopify Payments balance transactions aren't on the
+// transaction itself, so a re-read without a fee keeps the stored one
+function upsertLedgerTransaction({ id, fee, ...data }: LedgerTransaction) {
+  return prisma.orderTransaction.upsert({
+    where: { id },
+    update: fee === null ? data : { ...data, fee },
+    create: { id, fee, ...data },
+  });
+}
+
+/**
+ * Writes orders, line items, refunds and transactions into the ledger. Rows are
+ * upserted so re-importing the same range is idempotent. Orders must already be saved
+ * or be passed in the same call as their child rows.
+ */
+export async function saveLedgerRows(
+  orders: LedgerOrder[],
+  lineItems: LedgerLineItem[],
+  refunds: LedgerRefund[] = [],
+  transactions: LedgerTransaction[] = []
+): Promise<void> {
+  const operations = [
+    ...orders.map(({ id, ...data }) =>
+      prisma.order.upsert({
+        where: { id },
+        update: data,
+        create: { id, ...data },
+      })
+    ),
+    ...lineItems.map(({ id, ...data }) =>
+      prisma.orderLineItem.upsert({
+        where: { id },
+        update: data,
+        create: { id, ...data },
+      })
+    ),
+    ...refunds.map(({ id, ...data }) =>
+      prisma.orderRefund.upsert({
+        where: { id },
+        update: data,
+        create: { id, ...data },
+      })
+    ),
+    ...transactions.map(upsertLedgerTransaction),
+  ];
+
+  for (let i = 0; i < operations.length; i += WRITE_BATCH_SIZE) {
+    await prisma.$transaction(operations.slice(i, i + WRITE_BATCH_SIZE));
+  }
+}
+
+// Replaces an order with its child rows, dropping line items removed by order edits
+async function replaceLedgerOrder(
+  order: LedgerOrder,
+  lineItems: LedgerLineItem[],
+  refunds: LedgerRefund[],
+  transactions: LedgerTransaction[]
+): Promise<void> {
+  const { id, ...data } = order;
+
+  await prisma.$transaction([
+    prisma.order.upsert({
+      where: { id },
+      update: data,
+      create: { id, ...data },
+    }),
+    prisma.orderLineItem.deleteMany({
+      where: {
+        orderId: id,
+        id: { notIn: lineItems.map((item) => item.id) },
+      },
+    }),
+    ...lineItems.map(({ id: lineItemId, ...lineItemData }) =>
+      prisma.orderLineItem.upsert({
+        where: { id: lineItemId },
+        update: lineItemData,
+        create: { id: lineItemId, ...lineItemData },
+      })
+    ),
+    ...refunds.map(({ id: refundId, ...refundData }) =>
+      prisma.orderRefund.upsert({
+        where: { id: refundId },
+        update: refundData,
+        create: { id: refundId, ...refundData },
+      })
+    ),
+    ...transactions.map(upsertLedgerTransaction),
+  ]);
+}
+
+async function saveOrderNode(admin: any, shop: string, node: any, costLookup?: CostLookup): Promise<void> {
+  const lineItemNodes = (node.lineItems?.edges || []).map((edge: any) => edge.node);
+  if (node.lineItems?.pageInfo?.hasNextPage) {
+    lineItemNodes.push(
+      ...(await fetchRemainingLineItems(admin, node.id, node.lineItems.pageInfo.endCursor, LEDGER_LINE_ITEM_FIELDS))
+    );
+  }
+  await completeRefundLineItems(admin, node.refunds || []);
+
+  // Without a shop-wide lookup, only the refunded variants' history is needed to cost restocked units
+  if (!costLookup) {
+    const refundedVariantIds = (node.refunds || []).flatMap((refund: any) =>
+      (refund.refundLineItems?.edges || []).map(({ node: refundLineItem }: any) => refundLineItem.lineItem?.variant?.id)
+    ).filter(Boolean);
+    costLookup = refundedVariantIds.length > 0 ? await loadCostHistory(shop, refundedVariantIds) : undefined;
+  }
+
+  await replaceLedgerOrder(
+    normalizeOrder(shop, node),
+    lineItemNodes.map((lineItem: any) => normalizeLineItem(shop, node.id, lineItem)),
+    (node.refunds || []).map((refund: any) => normalizeRefund(shop, node.id, refund, node.createdAt, costLookup)),
+    normalizeTransactions(shop, node.id, node.transactions)
+  );
+}
+
+/**
+ * Re-reads a single order from Shopify and writes it to the ledger.
+ * Used by the orders and refunds webhooks, whose REST payloads lack unit costs.
+ */
+export async function syncLedgerOrder(admin: any, shop: string, orderId: string): Promise<void> {
+  const data = await runThrottledQuery(
+    admin,
+    `#graphql
+      query getLedgerOrder($id: ID!) {
+        order(id: $id) {
+          ${LEDGER_ORDER_WITH_LINE_ITEMS_FIELDS}
+        }
+      }
+    `,
+    { id: orderId }
+  );
+
+  const node = data.data?.order;
+  if (!node) {
+    console.log(`[Ledger] Order ${orderId} not found for ${shop}`);
+    return;
+  }
+
+  await saveOrderNode(admin, shop, node);
+  console.log(`[Ledger] Synced order ${node.name || orderId} for ${shop}`);
+}
+
+/**
+ * Fills in fees for Shopify Payments transactions saved without one, from the
+ * payments account's balance transactions processed in the range.
+ */
+export async function applyShopifyPaymentsFees(
+  admin: any,
+  shop: string,
+  startDate: Date,
+  endDate: Date
+): Promise<number> {
+  const missing = await prisma.orderTransaction.findMany({
+    where: {
+      shop,
+      gateway: "shopify_payments",
+      fee: null,
+      processedAt: { gte: startDate, lte: endDate },
+    },
+    select: { id: true },
+  });
+
+  if (missing.length === 0) return 0;
+
+  const fees = await fetchShopifyPaymentsFees(admin, startDate, endDate);
+  const updates = missing
+    .filter((transaction) => fees.has(transaction.id))
+    .map((transaction) =>
+      prisma.orderTransaction.update({
+        where: { id: transaction.id },
+        data: { fee: fees.get(transaction.id) },
+      })
+    );
+
+  for (let i = 0; i < updates.length; i += WRITE_BATCH_SIZE) {
+    await prisma.$transaction(updates.slice(i, i + WRITE_BATCH_SIZE));
+  }
+
+  console.log(`[Ledger] Applied Shopify Payments fees to ${updates.length} of ${missing.length} transactions for ${shop}`);
+  return updates.length;
+}
+
+/**
+ * Saves Shopify Shipping label charges processed in the range. Charges are keyed by
+ * balance transaction, so overlapping runs don't double count.
+ */
+export async function applyShippingLabelCosts(
+  admin: any,
+  shop: string,
+  startDate: Date,
+  endDate: Date
+): Promise<number> {
+  const charges = await fetchShippingLabelCharges(admin, startDate, endDate);
+  const operations = charges.map(({ id, ...data }) =>
+    prisma.shippingLabelCharge.upsert({
+      where: { id },
+      update: data,
+      create: { id, shop, ...data },
+    })
+  );
+
+  for (let i = 0; i < operations.length; i += WRITE_BATCH_SIZE) {
+    await prisma.$transaction(operations.slice(i, i + WRITE_BATCH_SIZE));
+  }
+
+  if (charges.length > 0) {
+    console.log(`[Ledger] Saved ${charges.length} shipping label charges for ${shop}`);
+  }
+  return charges.length;
+}
+
+/**
+ * Fills gaps left by missed or failed webhooks by re-reading every order updated
+ * since the last reconciliation (or since the last backfill export).
+ */
+export async function reconcileOrderLedger(
+  admin: any,
+  shop: string
+): Promise<{ success: boolean; reconciledOrders: number; error?: string }> {
+  const lastRun = await prisma.orderSync.findFirst({
+    where: { shop, status: "completed" },
+    orderBy: { createdAt: "desc" },
+  });
+
+  // Nothing to reconcile until the ledger has been backfilled once
+  if (!lastRun) {
+    return { success: true, reconciledOrders: 0 };
+  }
+
+  // Bulk exports snapshot orders when they start, reconciliation runs cover up to their endDate
+  const since = new Date(
+    (lastRun.type === "reconcile" ? lastRun.endDate : lastRun.createdAt).getTime() - RECONCILE_OVERLAP_MS
+  );
+  const until = new Date();
+
+  const run = await prisma.orderSync.create({
+    data: {
+      shop,
+      type: "reconcile",
+      status: "running",
+      startDate: since,
+      endDate: until,
+    },
+  });
+
+  try {
+    let reconciledOrders = 0;
+    const costLookup = await loadCostHistory(shop);
+    const orders = iterateOrders(admin, since, until, LEDGER_ORDER_WITH_LINE_ITEMS_FIELDS, 15, "updated_at");
+
+    for await (const node of orders) {
+      await saveOrderNode(admin, shop, node, costLookup);
+      reconciledOrders++;
+    }
+
+    await applyShopifyPaymentsFees(admin, shop, since, until);
+    await applyShippingLabelCosts(admin, shop, since, until);
+
+    await prisma.orderSync.update({
+      where: { id: run.id },
+      data: { status: "completed", objectCount: reconciledOrders, completedAt: new Date() },
+    });
+
+    console.log(`[Ledger] Reconciled ${reconciledOrders} orders for ${shop} updated since ${since.toISOString()}`);
+    return { success: true, reconciledOrders };
+  } catch (error) {
+    console.error("Error reconciling order ledger:", error);
+    await prisma.orderSync.update({
+      where: { id: run.id },
+      data: { status: "failed", errorCode: "RECONCILE_FAILED" },
+    });
+    return {
+      success: false,
+      reconciledOrders: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// True when the last successful sync (of either kind) is older than maxAgeMs
+export async function isLedgerReconcileDue(shop: string, maxAgeMs: number): Promise<boolean> {
+  const lastRun = await prisma.orderSync.findFirst({
+    where: { shop, status: { in: ["running", "importing", "completed"] } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return !!lastRun && lastRun.createdAt < new Date(Date.now() - maxAgeMs);
+}
+
+/**
+ * True when a completed backfill export reaches back to startDate and forward to when
+ * it ran. Webhooks and reconciliation keep everything after the export current, but
+ * only for orders updated since, so an export that stopped short of the present
+ * leaves a gap.
+ */
+export async function isLedgerCovering(shop: string, startDate: Date): Promise<boolean> {
+  const backfills = await prisma.orderSync.findMany({
+    where: {
+      shop,
+      type: "bulk",
+      status: "completed",
+      startDate: { lte: startDate },
+    },
+    select: { endDate: true, createdAt: true },
+  });
+
+  return backfills.some(
+    (backfill) => backfill.endDate.getTime() >= backfill.createdAt.getTime() - RECONCILE_OVERLAP_MS
+  );
+}
+
+export async function getLedgerSalesData(
+  shop: string,
+  startDate: Date,
+  endDate: Date,
+  revenueDefinition: string = "gross",
+  shopCountry: string | null = null
+): Promise<SalesData> {
+  const orders = await prisma.order.findMany({
+    where: {
+      shop,
+      orderCreatedAt: {
+        gte: startDate,
+        lte: endDate,
+      },
+    },
+    orderBy: { orderCreatedAt: "asc" },
+    select: {
+      id: true,
+      currency: true,
+      presentmentCurrency: true,
+      billingCountry: true,
+      totalPrice: true,
+      totalTax: true,
+      totalTips: true,
+      totalDuties: true,
+      totalDiscounts: true,
+      orderCreatedAt: true,
+      customerId: true,
+      firstVisitAt: true,
+      transactions: {
+        select: {
+          gateway: true,
+          amount: true,
+          fee: true,
+        },
+      },
+    },
+  });
+
+  const giftCardLineItems = await prisma.orderLineItem.groupBy({
+    by: ["orderId"],
+    where: {
+      shop,
+      isGiftCard: true,
+      order: {
+        orderCreatedAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+    },
+    _sum: { totalAmount: true },
+  });
+  const giftCardSalesByOrder = new Map(
+    giftCardLineItems.map((row) => [row.orderId, row._sum.totalAmount || 0])
+  );
+
+  const salesData = buildSalesData(
+    orders.map((order) => ({
+      amount: order.totalPrice,
+      tax: order.totalTax,
+      tips: order.totalTips,
+      duties: order.totalDuties,
+      discounts: order.totalDiscounts,
+      giftCardSales: giftCardSalesByOrder.get(order.id) || 0,
+      transactions: order.transactions,
+      currencyConverted: isCurrencyConverted({
+        currencyCode: order.currency,
+        presentmentCurrencyCode: order.presentmentCurrency,
+      }),
+      international: isInternationalOrder(order.billingCountry, shopCountry),
+      createdAt: order.orderCreatedAt,
+      customerId: order.customerId,
+      firstVisitAt: order.firstVisitAt,
+    })),
+    revenueDefinition
+  );
+
+  console.log(`[Ledger] ${salesData.orderCount} orders, Total Sales (${revenueDefinition}): $${salesData.totalSales}`);
+  return salesData;
+}
+
+// Ledger rows store the unit cost at import time; history for the variant takes precedence
+function getLedgerUnitCost(
+  item: { variantId: string | null; unitCost: number | null; order: { orderCreatedAt: Date } },
+  costLookup?: CostLookup,
+  part: "landed" | "unit" = "landed"
+): number | null {
+  const historical = costLookup ? costLookup(item.variantId, item.order.orderCreatedAt, part) : null;
+  return historical !== null ? historical : item.unitCost;
+}
+
+export async function getLedgerProductCosts(
+  shop: string,
+  startDate: Date,
+  endDate: Date,
+  shippingRules: ShippingCostRule[] = [],
+  costLookup?: CostLookup,
+  landedCostRules: LandedCostRule[] = []
+): Promise<{ totalCogs: number; shippingRevenue: number; shippingCosts: number; landedCosts: LandedCosts }> {
+  const orderWhere = {
+    shop,
+    orderCreatedAt: {
+      gte: startDate,
+      lte: endDate,
+    },
+  };
+
+  const orders = await prisma.order.findMany({
+    where: orderWhere,
+    select: {
+      id: true,
+      totalShipping: true,
+      totalWeight: true,
+      shippingCountry: true,
+    },
+  });
+
+  const lineItems = await prisma.orderLineItem.findMany({
+    where: {
+      shop,
+      order: orderWhere,
+    },
+    select: {
+      orderId: true,
+      productId: true,
+      variantId: true,
+      quantity: true,
+      unitCost: true,
+      requiresShipping: true,
+      order: { select: { orderCreatedAt: true } },
+    },
+  });
+
+  // Label charges aren't linked to ledger orders, since labels can be bought for orders
+  // outside the ledger's range
+  const labels = await prisma.shippingLabelCharge.groupBy({
+    by: ["orderId"],
+    where: { shop, orderId: { in: orders.map((order) => order.id) } },
+    _sum: { amount: true },
+  });
+  const labelCosts = new Map(labels.map((row) => [row.orderId, row._sum.amount || 0]));
+
+  const itemCounts = new Map<string, number>();
+  const landedCostLines = new Map<string, OrderLandedCostInput["lines"]>();
+  let totalCogs = 0;
+  for (const item of lineItems) {
+    if (item.requiresShipping) {
+      itemCounts.set(item.orderId, (itemCounts.get(item.orderId) || 0) + item.quantity);
+    }
+
+    const unitCost = getLedgerUnitCost(item, costLookup) || 0;
+    totalCogs += unitCost * item.quantity;
+
+    const lines = landedCostLines.get(item.orderId) || [];
+    // Duty rules apply to the product cost alone, since the history's landed cost already has freight and duty
+    lines.push({
+      productId: item.productId,
+      quantity: item.quantity,
+      productCost: getLedgerUnitCost(item, costLookup, "unit") || 0,
+    });
+    landedCostLines.set(item.orderId, lines);
+  }
+
+  const shipping = buildShippingData(
+    orders.map((order) => ({
+      shippingCharged: order.totalShipping,
+      labelCost: labelCosts.has(order.id) ? (labelCosts.get(order.id) as number) : null,
+      itemCount: itemCounts.get(order.id) || 0,
+      weightGrams: order.totalWeight,
+      country: order.shippingCountry,
+    })),
+    shippingRules
+  );
+  const landedCosts = buildLandedCosts(
+    Array.from(landedCostLines.values()).map((lines) => ({ lines })),
+    landedCostRules
+  );
+
+  console.log(`[Ledger] Total COGS: $${totalCogs} (plus landed costs $${landedCosts.total}), Shipping Charged: $${shipping.shippingRevenue}, Shipping Costs: $${shipping.shippingCosts}`);
+  return {
+    totalCogs,
+    shippingRevenue: shipping.shippingRevenue,
+    shippingCosts: shipping.shippingCosts,
+    landedCosts,
+  };
+}
+
+// Line items sold in the period for the product report (gift cards aren't products)
+export async function getLedgerProductSales(
+  shop: string,
+  startDate: Date,
+  endDate: Date,
+  costLookup?: CostLookup
+): Promise<ProductLineInput[]> {
+  const lineItems = await prisma.orderLineItem.findMany({
+    where: {
+      shop,
+      isGiftCard: false,
+      order: {
+        orderCreatedAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+    },
+    select: {
+      productId: true,
+      variantId: true,
+      sku: true,
+      title: true,
+      productTitle: true,
+      variantTitle: true,
+      quantity: true,
+      totalAmount: true,
+      unitCost: true,
+      requiresShipping: true,
+      order: { select: { orderCreatedAt: true } },
+    },
+  });
+
+  return lineItems.map((item) => ({
+    productId: item.productId,
+    // Rows imported before product titles were stored only have the line item name
+    productTitle: item.productTitle || item.title || "Untitled product",
+    variantId: item.variantId,
+    variantTitle: item.variantTitle,
+    sku: item.sku,
+    quantity: item.quantity,
+    revenue: item.totalAmount,
+    unitCost: getLedgerUnitCost(item, costLookup),
+    requiresShipping: item.requiresShipping,
+  }));
+}
+
+/**
+ * Refund totals from the ledger, attributed to the refund date or the order date
+ * (see fetchRefundsData).
+ */
+export async function getLedgerRefundsData(
+  shop: string,
+  startDate: Date,
+  endDate: Date,
+  attribution: string = "refund_date"
+): Promise<{ refundedAmount: number; restockedCogs: number }> {
+  const range = { gte: startDate, lte: endDate };
+
+  const totals = await prisma.orderRefund.aggregate({
+    where: attribution === "refund_date"
+      ? { shop, refundCreatedAt: range }
+      : { shop, order: { orderCreatedAt: range } },
+    _sum: { amount: true, restockedCogs: true },
+  });
+
+  const refundedAmount = totals._sum.amount || 0;
+  const restockedCogs = totals._sum.restockedCogs || 0;
+
+  console.log(`[Ledger] Refunds (${attribution}): $${refundedAmount}, Restocked COGS: $${restockedCogs}`);
+  return { refundedAmount, restockedCogs };
+}
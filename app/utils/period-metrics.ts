@@ -0,0 +1,107 @@
+import {
+  getCategoryCosts,
+  getFixedCosts,
+  getManualCosts,
+  getMarketingCosts,
+  getPaymentGatewayFees,
+  getSettings,
+  getShippingCostRules,
+} from "./database";
+import type { AdAccountFilter } from "./database";
+import { calculateProfits } from "./profit-calculator";
+import type { CategoryCost, LandedCostRule, LandedCosts, ProfitMetrics, ProfitSettings, ShippingCostRule } from "./profit-calculator";
+import { fetchOrdersData, fetchProductCosts, fetchRefundsData, getShopCountry } from "./shopify-data";
+import { getLedgerProductCosts, getLedgerRefundsData, getLedgerSalesData } from "./order-ledger";
+import { loadCostHistory } from "./cost-history";
+import type { CostLookup } from "./cost-history";
+import { loadLandedCostRules } from "./landed-costs";
+
+// Shop-wide inputs that don't depend on the period, loaded once per request
+export interface MetricsContext {
+  settings: Awaited<ReturnType<typeof getSettings>>;
+  profitSettings: ProfitSettings;
+  shippingRules: ShippingCostRule[];
+  shopCountry: string | null;
+  costLookup: CostLookup;
+  landedCostRules: LandedCostRule[];
+  useLedger: boolean; // Read orders from the local ledger rather than live Admin API queries
+}
+
+export interface PeriodMetrics {
+  metrics: ProfitMetrics;
+  totalCogs: number; // Product COGS, before landed and manual costs
+  landedCosts: LandedCosts;
+  manualCosts: { shipping: number; cogs: number; other: number };
+  restockedCogs: number;
+  fixedCosts: number;
+  categoryCosts: CategoryCost[];
+}
+
+export async function loadMetricsContext(admin: any, shop: string, useLedger: boolean): Promise<MetricsContext> {
+  const settings = await getSettings(shop);
+
+  return {
+    settings,
+    profitSettings: { ...settings, gatewayFees: await getPaymentGatewayFees(shop) },
+    shippingRules: await getShippingCostRules(shop),
+    shopCountry: await getShopCountry(admin),
+    costLookup: await loadCostHistory(shop),
+    landedCostRules: await loadLandedCostRules(admin, shop),
+    useLedger,
+  };
+}
+
+/**
+ * Runs the profit pipeline for one period: orders, product and shipping costs,
+ * refunds and the stored costs, combined by calculateProfits. The dashboard and
+ * the Marketing report both use it, so their numbers always agree.
+ */
+export async function loadPeriodMetrics(
+  admin: any,
+  shop: string,
+  range: { startDate: Date; endDate: Date },
+  context: MetricsContext,
+  adAccount: AdAccountFilter | null = null
+): Promise<PeriodMetrics> {
+  const { startDate, endDate } = range;
+  const { settings, shippingRules, shopCountry, costLookup, landedCostRules, useLedger } = context;
+
+  const orderSalesData = useLedger
+    ? await getLedgerSalesData(shop, startDate, endDate, settings.revenueDefinition, shopCountry)
+    : await fetchOrdersData(admin, startDate, endDate, settings.revenueDefinition, shopCountry);
+  const { totalCogs, shippingRevenue, shippingCosts, landedCosts } = useLedger
+    ? await getLedgerProductCosts(shop, startDate, endDate, shippingRules, costLookup, landedCostRules)
+    : await fetchProductCosts(admin, startDate, endDate, shippingRules, costLookup, landedCostRules);
+  const refunds = useLedger
+    ? await getLedgerRefundsData(shop, startDate, endDate, settings.refundAttribution)
+    : await fetchRefundsData(admin, startDate, endDate, settings.refundAttribution, costLookup);
+  const marketingCosts = await getMarketingCosts(shop, startDate, endDate, adAccount);
+  const fixedCosts = await getFixedCosts(shop, startDate, endDate);
+  const manualCosts = await getManualCosts(shop, startDate, endDate);
+  const categoryCosts = await getCategoryCosts(shop, startDate, endDate);
+
+  const metrics = calculateProfits(
+    { ...orderSalesData, refundedAmount: refunds.refundedAmount },
+    {
+      shippingRevenue,
+      shippingCosts: shippingCosts + manualCosts.shipping,
+      cogs: totalCogs + landedCosts.total + manualCosts.cogs,
+      restockedCogs: refunds.restockedCogs,
+      transactionFees: 0, // Calculated by calculateProfits
+      marketingCosts,
+      fixedCosts,
+      categoryCosts,
+    },
+    context.profitSettings
+  );
+
+  return {
+    metrics,
+    totalCogs,
+    landedCosts,
+    manualCosts,
+    restockedCogs: refunds.restockedCogs,
+    fixedCosts,
+    categoryCosts,
+  };
+}
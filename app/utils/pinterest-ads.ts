@@ -0,0 +1,143 @@
+import { addDailySpend, syncAdPlatform } from "./ad-connector";
+import type { AdAccount, AdPlatformConnector, AdPlatformCredentials } from "./ad-connector";
+
+// Overridable so a local stand-in can replace the Pinterest API
+export const PINTEREST_API_BASE_URL = process.env.PINTEREST_API_BASE_URL || "https://api.pinterest.com/v5";
+export const PINTEREST_REDIRECT_URI =
+  process.env.PINTEREST_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/pinterest-oauth";
+
+async function requestPinterestToken(params: Record<string, string>): Promise<AdPlatformCredentials | null> {
+  try {
+    const clientCredentials = Buffer.from(
+      `${process.env.PINTEREST_APP_ID || ""}:${process.env.PINTEREST_APP_SECRET || ""}`
+    ).toString("base64");
+
+    const response = await fetch(`${PINTEREST_API_BASE_URL}/oauth/token`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${clientCredentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || !data.access_token) {
+      console.error("[Pinterest OAuth] Token request failed:", data);
+      return null;
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || params.refresh_token,
+      expiresAt: Date.now() + (data.expires_in * 1000),
+    };
+  } catch (error) {
+    console.error("Error requesting Pinterest token:", error);
+    return null;
+  }
+}
+
+export async function exchangePinterestCode(code: string, redirectUri: string) {
+  return requestPinterestToken({
+    code,
+    grant_type: "authorization_code",
+    redirect_uri: redirectUri,
+  });
+}
+
+async function pinterestRequest(path: string, accessToken: string, params: Record<string, string>): Promise<any> {
+  const response = await fetch(`${PINTEREST_API_BASE_URL}${path}?${new URLSearchParams(params)}`, {
+    headers: {
+      "Authorization": `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Pinterest API request failed (${response.status}): ${errorText}`);
+  }
+
+  return response.json();
+}
+
+export const pinterestConnector: AdPlatformConnector = {
+  platform: "pinterest",
+  integrationPlatform: "pinterest_ads",
+  label: "Pinterest Ads",
+  logTag: "[Pinterest Sync]",
+  // Ad account analytics accept at most 90 days per request
+  maxRangeDays: 90,
+
+  authorizationUrl(state) {
+    if (!process.env.PINTEREST_APP_ID || !process.env.PINTEREST_APP_SECRET) return null;
+
+    return (
+      `https://www.pinterest.com/oauth/?` +
+      `client_id=${process.env.PINTEREST_APP_ID}` +
+      `&redirect_uri=${encodeURIComponent(PINTEREST_REDIRECT_URI)}` +
+      `&response_type=code` +
+      `&scope=${encodeURIComponent("ads:read")}` +
+      `&state=${encodeURIComponent(state)}`
+    );
+  },
+
+  async listAccounts(credentials) {
+    const accounts: AdAccount[] = [];
+    let bookmark: string | null = null;
+
+    do {
+      const data = await pinterestRequest("/ad_accounts", credentials.accessToken, {
+        page_size: "100",
+        ...(bookmark ? { bookmark } : {}),
+      });
+
+      accounts.push(
+        ...(data.items || []).map((account: any): AdAccount => ({
+          id: account.id,
+          name: account.name,
+          currency: account.currency,
+        }))
+      );
+      bookmark = data.bookmark || null;
+    } while (bookmark);
+
+    return accounts;
+  },
+
+  async refreshCredentials(credentials) {
+    return requestPinterestToken({
+      refresh_token: credentials.refreshToken || "",
+      grant_type: "refresh_token",
+    });
+  },
+
+  async fetchDailySpend(credentials, account, range) {
+    const rows = await pinterestRequest(`/ad_accounts/${account.id}/analytics`, credentials.accessToken, {
+      start_date: range.since,
+      end_date: range.until,
+      columns: "SPEND_IN_MICRO_DOLLAR",
+      granularity: "DAY",
+    });
+
+    const dailySpend = new Map<string, number>();
+    for (const row of rows || []) {
+      addDailySpend(dailySpend, row.DATE, (row.SPEND_IN_MICRO_DOLLAR || 0) / 1000000);
+    }
+    return dailySpend;
+  },
+};
+
+export async function getPinterestAdAccounts(accessToken: string): Promise<AdAccount[]> {
+  try {
+    return await pinterestConnector.listAccounts({ accessToken });
+  } catch (error) {
+    console.error("Error fetching Pinterest ad accounts:", error);
+    return [];
+  }
+}
+
+export async function syncPinterestHistoricalData(shop: string, days: number = 90) {
+  return syncAdPlatform(pinterestConnector, shop, days);
+}
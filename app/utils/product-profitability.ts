@@ -0,0 +1,113 @@
+// Per-line-item fields needed for the product report, shared by live API fetches and the local order ledger
+export interface ProductLineInput {
+  productId: string | null;
+  productTitle: string;
+  variantId: string | null;
+  variantTitle: string | null;
+  sku: string | null;
+  quantity: number;
+  revenue: number; // Line total after line-level discounts
+  unitCost: number | null;
+  requiresShipping: boolean;
+}
+
+export interface ProfitabilityRow {
+  id: string;
+  title: string;
+  sku: string | null;
+  unitsSold: number;
+  revenue: number;
+  cogs: number;
+  fees: number;
+  shipping: number;
+  grossProfit: number;
+  margin: number;
+  missingCost: boolean; // Some units sold had no unit cost set
+}
+
+export interface ProductProfitability extends ProfitabilityRow {
+  variants: ProfitabilityRow[];
+}
+
+function emptyRow(id: string, title: string, sku: string | null): ProfitabilityRow {
+  return {
+    id,
+    title,
+    sku,
+    unitsSold: 0,
+    revenue: 0,
+    cogs: 0,
+    fees: 0,
+    shipping: 0,
+    grossProfit: 0,
+    margin: 0,
+    missingCost: false,
+  };
+}
+
+function finishRow(row: ProfitabilityRow): void {
+  row.grossProfit = row.revenue - row.cogs - row.fees - row.shipping;
+  row.margin = row.revenue > 0 ? (row.grossProfit / row.revenue) * 100 : 0;
+}
+
+/**
+ * Rolls line items up to products and variants. The period's transaction fees are
+ * allocated by share of revenue and its shipping costs by share of shipped units,
+ * since neither is charged per line item.
+ */
+export function buildProductProfitability(
+  lines: ProductLineInput[],
+  totals: { transactionFees: number; shippingCosts: number }
+): ProductProfitability[] {
+  const totalRevenue = lines.reduce((sum, line) => sum + line.revenue, 0);
+  const totalShippedUnits = lines
+    .filter((line) => line.requiresShipping)
+    .reduce((sum, line) => sum + line.quantity, 0);
+
+  const products = new Map<string, ProductProfitability>();
+  const variants = new Map<string, ProfitabilityRow>();
+
+  for (const line of lines) {
+    // Line items for deleted products keep their title but lose the product reference
+    const productKey = line.productId || `deleted:${line.productTitle}`;
+    const variantKey = line.variantId || `${productKey}:${line.variantTitle || line.sku || "default"}`;
+
+    let product = products.get(productKey);
+    if (!product) {
+      product = { ...emptyRow(productKey, line.productTitle, null), variants: [] };
+      products.set(productKey, product);
+    }
+
+    let variant = variants.get(variantKey);
+    if (!variant) {
+      variant = emptyRow(variantKey, line.variantTitle || "Default", line.sku);
+      variants.set(variantKey, variant);
+      product.variants.push(variant);
+    }
+
+    const cogs = (line.unitCost || 0) * line.quantity;
+    const fees = totalRevenue > 0 ? totals.transactionFees * (line.revenue / totalRevenue) : 0;
+    const shipping = line.requiresShipping && totalShippedUnits > 0
+      ? totals.shippingCosts * (line.quantity / totalShippedUnits)
+      : 0;
+    const missingCost = line.unitCost === null || line.unitCost === 0;
+
+    for (const row of [product, variant]) {
+      row.unitsSold += line.quantity;
+      row.revenue += line.revenue;
+      row.cogs += cogs;
+      row.fees += fees;
+      row.shipping += shipping;
+      row.missingCost = row.missingCost || missingCost;
+    }
+  }
+
+  for (const product of products.values()) {
+    finishRow(product);
+    product.variants.forEach(finishRow);
+    // A product only has one SKU to show when it has a single variant
+    product.sku = product.variants.length === 1 ? product.variants[0].sku : null;
+  }
+
+  return Array.from(products.values());
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { getBillingDates, prorateRecurringCost } from "./profit-calculator";
+import type { RecurringCostInput } from "./profit-calculator";
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+function monthlyCost(cost: Partial<RecurringCostInput>): RecurringCostInput {
+  return {
+    amount: 310,
+    startDate: utc(2024, 1, 1),
+    endDate: null,
+    frequency: "monthly",
+    intervalDays: null,
+    ...cost,
+  };
+}
+
+describe("prorateRecurringCost", () => {
+  it("counts a whole month as the full amount, whatever its length", () => {
+    expect(prorateRecurringCost(monthlyCost({}), utc(2025, 1, 1), utc(2025, 2, 1))).toBeCloseTo(310);
+    expect(prorateRecurringCost(monthlyCost({}), utc(2025, 2, 1), utc(2025, 3, 1))).toBeCloseTo(310);
+  });
+
+  it("weights February days more than January days", () => {
+    expect(prorateRecurringCost(monthlyCost({}), utc(2025, 1, 1), utc(2025, 1, 11))).toBeCloseTo(100);
+    expect(prorateRecurringCost(monthlyCost({}), utc(2025, 2, 1), utc(2025, 2, 11))).toBeCloseTo((310 / 28) * 10);
+  });
+
+  it("stops after the cost's end date when it falls inside the range", () => {
+    const cost = monthlyCost({ endDate: utc(2025, 1, 15) });
+
+    expect(prorateRecurringCost(cost, utc(2025, 1, 1), utc(2025, 2, 1))).toBeCloseTo(150);
+    expect(prorateRecurringCost(cost, utc(2025, 2, 1), utc(2025, 3, 1))).toBe(0);
+  });
+});
+
+describe("getBillingDates", () => {
+  it("clamps billing day 31 to the last day of shorter months", () => {
+    const cost = monthlyCost({ startDate: utc(2025, 1, 31), billingDay: 31, recognition: "incurred" });
+
+    expect(getBillingDates(cost, utc(2025, 1, 1), utc(2025, 5, 1))).toEqual([
+      utc(2025, 1, 31),
+      utc(2025, 2, 28),
+      utc(2025, 3, 31),
+      utc(2025, 4, 30),
+    ]);
+  });
+
+  it("leaves out charges after the cost's end date", () => {
+    const cost = monthlyCost({ startDate: utc(2025, 1, 31), billingDay: 31, endDate: utc(2025, 3, 15) });
+
+    expect(getBillingDates(cost, utc(2025, 1, 1), utc(2025, 5, 1))).toEqual([utc(2025, 1, 31), utc(2025, 2, 28)]);
+  });
+});
@@ -1,27 +1,88 @@
 export interface SalesData {
-  totalSales: number;
+  totalSales: number; // Revenue under the shop's revenue definition
+  totalCharged: number; // Order totals as charged to customers, incl. tax, tips and gift cards
+  taxes: number;
+  duties: number;
+  tips: number;
+  giftCardSales: number;
+  discounts: number;
   newCustomerRevenue: number;
   returnCustomerRevenue: number;
   orderCount: number;
   newCustomerCount: number;
   returnCustomerCount: number;
+  refundedAmount: number;
+  transactionFees: number; // Fees reported by payment processors
+  chargesWithoutFees: GatewayCharges[]; // Charges with no reported fee, estimated from the fee schedule
+}
+
+export interface GatewayCharges {
+  gateway: string;
+  amount: number;
+  transactionCount: number;
+  currencyConversionAmount: number; // Charged in a currency other than the shop's
+  internationalAmount: number; // Charged to customers outside the shop's country
+}
+
+// A successful charge on an order. `fee` is null when the processor didn't report one.
+export interface OrderTransactionInput {
+  id?: string;
+  gateway: string;
+  amount: number;
+  fee: number | null;
+}
+
+// Minimal per-order fields needed to build SalesData, shared by live API fetches and the local order ledger
+export interface OrderSalesInput {
+  amount: number; // Order total as charged
+  tax?: number;
+  duties?: number;
+  tips?: number;
+  discounts?: number;
+  giftCardSales?: number;
+  transactions?: OrderTransactionInput[]; // Without transactions, fees are estimated on the order total
+  currencyConverted?: boolean;
+  international?: boolean;
+  createdAt: Date | string;
+  customerId?: string | null;
+  firstVisitAt?: Date | string | null;
+}
+
+export type CostGroup = "variable" | "marketing" | "fixed";
+
+// Costs in a merchant-defined category over a period, counted in its group's profit tier
+export interface CategoryCost {
+  categoryId: string;
+  name: string;
+  group: string; // CostGroup
+  color: string;
+  amount: number;
 }
 
 export interface CostsData {
-  shippingCosts: number;
+  shippingRevenue: number; // Shipping charged to customers, already part of sales
+  shippingCosts: number; // Shipping expense: label spend, or rule estimates without labels
   cogs: number; // Cost of Goods Sold
+  restockedCogs: number; // COGS of refunded units returned to stock
   transactionFees: number;
   marketingCosts: number;
   fixedCosts: number;
+  categoryCosts?: CategoryCost[]; // Custom categories, on top of the totals above
 }
 
 export interface ProfitMetrics {
   // Revenue
   totalSales: number;
+  refundedAmount: number;
+  netRevenue: number; // Total Sales - Refunds
   newCustomerRevenue: number;
   returnCustomerRevenue: number;
+  shippingRevenue: number;
   
   // Costs
+  shippingCosts: number;
+  cogs: number; // Less restocked returns
+  transactionFees: number;
   variableCosts: number;
   marketingCosts: number;
   fixedCosts: number;
@@ -37,38 +98,121 @@ export interface ProfitMetrics {
   netMargin: number;
 }
 
+// "gross": order totals as charged (incl. tax, duties, tips and gift card sales)
+// "net_of_tax": product and shipping sales before discounts, excluding tax, duties, tips and gift cards
+// "net_of_tax_and_discounts": as above, after discounts
+export type RevenueDefinition = "gross" | "net_of_tax" | "net_of_tax_and_discounts";
+
+// Fee schedule for a payment gateway: a percentage plus a fixed fee per transaction,
+// with surcharges for currency conversion and international cards
+export interface GatewayFeeRate {
+  gateway: string;
+  percent: number;
+  fixedFee: number;
+  currencyConversionPercent: number;
+  internationalPercent: number;
+}
+
+export interface ProfitSettings {
+  transactionFeePercent: number;
+  revenueDefinition: string;
+  gatewayFees?: GatewayFeeRate[];
+}
+
+// Estimates fees for charges without a reported fee, using the gateway's schedule
+// or the default percentage for gateways without one. Charges are totalled per
+// gateway, which gives the same result as applying each order's schedule on its own.
+export function estimateTransactionFees(charges: GatewayCharges[], settings: ProfitSettings): number {
+  return charges.reduce((sum, charge) => {
+    const rate = settings.gatewayFees?.find(
+      (gatewayFee) => gatewayFee.gateway.toLowerCase() === charge.gateway.toLowerCase()
+    );
+
+    if (!rate) {
+      return sum + (charge.amount * settings.transactionFeePercent) / 100;
+    }
+    return sum
+      + (charge.amount * rate.percent) / 100
+      + charge.transactionCount * rate.fixedFee
+      + (charge.currencyConversionAmount * rate.currencyConversionPercent) / 100
+      + (charge.internationalAmount * rate.internationalPercent) / 100;
+  }, 0);
+}
+
+export function getOrderRevenue(order: OrderSalesInput, revenueDefinition: string): number {
+  if (revenueDefinition !== "net_of_tax" && revenueDefinition !== "net_of_tax_and_discounts") {
+    return order.amount;
+  }
+
+  const netOfTax = order.amount
+    - (order.tax || 0)
+    - (order.duties || 0)
+    - (order.tips || 0)
+    - (order.giftCardSales || 0);
+
+  // Order totals are already after discounts, so "before discounts" adds them back
+  return revenueDefinition === "net_of_tax" ? netOfTax + (order.discounts || 0) : netOfTax;
+}
+
+export function sumCategoryCosts(categoryCosts: CategoryCost[], group: CostGroup): number {
+  return categoryCosts
+    .filter((cost) => cost.group === group)
+    .reduce((sum, cost) => sum + cost.amount, 0);
+}
+
 export function calculateProfits(
   sales: SalesData,
   costs: CostsData,
-  transactionFeePercent: number = 3.0
+  settings: ProfitSettings = { transactionFeePercent: 3.0, revenueDefinition: "gross" }
 ): ProfitMetrics {
-  const { totalSales, newCustomerRevenue, returnCustomerRevenue } = sales;
-  const { shippingCosts, cogs, marketingCosts, fixedCosts } = costs;
+  const { totalSales, totalCharged, newCustomerRevenue, returnCustomerRevenue } = sales;
+  const { shippingRevenue, shippingCosts, cogs, restockedCogs } = costs;
+
+  // Custom categories count in the tier of their group
+  const categoryCosts = costs.categoryCosts || [];
+  const marketingCosts = costs.marketingCosts + sumCategoryCosts(categoryCosts, "marketing");
+  const fixedCosts = costs.fixedCosts + sumCategoryCosts(categoryCosts, "fixed");
+  
+  // Refunded amounts include tax, so scale them to the same revenue definition as sales
+  const refundedAmount = settings.revenueDefinition === "gross" || totalCharged <= 0
+    ? sales.refundedAmount
+    : sales.refundedAmount * (totalSales / totalCharged);
+  
+  // Net Revenue = Total Sales - Refunds
+  const netRevenue = totalSales - refundedAmount;
   
-  // Calculate transaction fees (default 3% of total sales)
-  const transactionFees = (totalSales * transactionFeePercent) / 100;
+  // Actual processor fees, plus estimates for charges without one. Fees apply to everything
+  // charged, whatever counts as revenue, and processors keep them on refunded payments.
+  const transactionFees = sales.transactionFees + estimateTransactionFees(sales.chargesWithoutFees, settings);
   
-  // Variable Costs = Shipping + COGS + Transaction Fees
-  const variableCosts = shippingCosts + cogs + transactionFees;
+  // Variable Costs = Shipping + COGS (less restocked returns) + Transaction Fees + variable categories
+  const variableCosts = shippingCosts + (cogs - restockedCogs) + transactionFees
+    + sumCategoryCosts(categoryCosts, "variable");
   
-  // Gross Profit = Total Sales - Variable Costs
-  const grossProfit = totalSales - variableCosts;
+  // Gross Profit = Net Revenue - Variable Costs
+  const grossProfit = netRevenue - variableCosts;
   
-  // Contribution Profit = Total Sales - (Variable Costs + Marketing Costs)
-  const contributionProfit = totalSales - variableCosts - marketingCosts;
+  // Contribution Profit = Net Revenue - (Variable Costs + Marketing Costs)
+  const contributionProfit = netRevenue - variableCosts - marketingCosts;
   
-  // Net Profit = Total Sales - (Variable Costs + Marketing Costs + Fixed Costs)
-  const netProfit = totalSales - variableCosts - marketingCosts - fixedCosts;
+  // Net Profit = Net Revenue - (Variable Costs + Marketing Costs + Fixed Costs)
+  const netProfit = netRevenue - variableCosts - marketingCosts - fixedCosts;
   
   // Calculate margins (as percentages)
-  const grossMargin = totalSales > 0 ? (grossProfit / totalSales) * 100 : 0;
-  const contributionMargin = totalSales > 0 ? (contributionProfit / totalSales) * 100 : 0;
-  const netMargin = totalSales > 0 ? (netProfit / totalSales) * 100 : 0;
+  const grossMargin = netRevenue > 0 ? (grossProfit / netRevenue) * 100 : 0;
+  const contributionMargin = netRevenue > 0 ? (contributionProfit / netRevenue) * 100 : 0;
+  const netMargin = netRevenue > 0 ? (netProfit / netRevenue) * 100 : 0;
   
   return {
     totalSales,
+    refundedAmount,
+    netRevenue,
     newCustomerRevenue,
     returnCustomerRevenue,
+    shippingRevenue,
+    shippingCosts,
+    cogs: cogs - restockedCogs,
+    transactionFees,
     variableCosts,
     marketingCosts,
     fixedCosts,
@@ -81,6 +225,333 @@ export function calculateProfits(
   };
 }
 
+export function buildSalesData(orders: OrderSalesInput[], revenueDefinition: string = "gross"): SalesData {
+  let totalSales = 0;
+  let totalCharged = 0;
+  let taxes = 0;
+  let duties = 0;
+  let tips = 0;
+  let giftCardSales = 0;
+  let discounts = 0;
+  let newCustomerRevenue = 0;
+  let returnCustomerRevenue = 0;
+  let newCustomerCount = 0;
+  let returnCustomerCount = 0;
+  let transactionFees = 0;
+  const chargesWithoutFees = new Map<string, GatewayCharges>();
+  const processedCustomers = new Set<string>();
+
+  for (const order of orders) {
+    const orderAmount = getOrderRevenue(order, revenueDefinition);
+    totalSales += orderAmount;
+    totalCharged += order.amount;
+    taxes += order.tax || 0;
+    duties += order.duties || 0;
+    tips += order.tips || 0;
+    giftCardSales += order.giftCardSales || 0;
+    discounts += order.discounts || 0;
+
+    const transactions = order.transactions?.length
+      ? order.transactions
+      : [{ gateway: "unknown", amount: order.amount, fee: null }];
+
+    for (const transaction of transactions) {
+      if (transaction.fee !== null) {
+        transactionFees += transaction.fee;
+        continue;
+      }
+
+      const charges = chargesWithoutFees.get(transaction.gateway) || {
+        gateway: transaction.gateway,
+        amount: 0,
+        transactionCount: 0,
+        currencyConversionAmount: 0,
+        internationalAmount: 0,
+      };
+      charges.amount += transaction.amount;
+      charges.transactionCount += 1;
+      if (order.currencyConverted) charges.currencyConversionAmount += transaction.amount;
+      if (order.international) charges.internationalAmount += transaction.amount;
+      chargesWithoutFees.set(transaction.gateway, charges);
+    }
+
+    // Check if this is a new customer based on customer journey
+    // If the first visit date is close to order date, it's a new customer
+    const customerId = order.customerId;
+    const isFirstOrder = order.firstVisitAt;
+    const orderDate = new Date(order.createdAt);
+
+    // Consider it a new customer if the order was placed within 24 hours of first visit
+    // or if we haven't seen this customer before in this dataset
+    let isNewCustomer = false;
+
+    if (customerId && !processedCustomers.has(customerId)) {
+      processedCustomers.add(customerId);
+      if (isFirstOrder) {
+        const firstVisitDate = new Date(isFirstOrder);
+        const hoursDiff = (orderDate.getTime() - firstVisitDate.getTime()) / (1000 * 60 * 60);
+        isNewCustomer = hoursDiff <= 24; // Within 24 hours = new customer
+      } else {
+        // If no customer journey data, assume new customer for first occurrence
+        isNewCustomer = true;
+      }
+    }
+
+    if (isNewCustomer) {
+      newCustomerRevenue += orderAmount;
+      newCustomerCount += 1;
+    } else {
+      returnCustomerRevenue += orderAmount;
+      returnCustomerCount += 1;
+    }
+  }
+
+  return {
+    totalSales,
+    totalCharged,
+    taxes,
+    duties,
+    tips,
+    giftCardSales,
+    discounts,
+    newCustomerRevenue,
+    returnCustomerRevenue,
+    orderCount: orders.length,
+    newCustomerCount,
+    returnCustomerCount,
+    // Refunds are fetched separately since they can fall outside the orders' period
+    refundedAmount: 0,
+    transactionFees,
+    chargesWithoutFees: Array.from(chargesWithoutFees.values()),
+  };
+}
+
+// Per-order fields needed to cost shipping, shared by live API fetches and the local order ledger
+export interface OrderShippingInput {
+  shippingCharged: number;
+  labelCost: number | null; // Shopify Shipping label spend, null when no labels were bought in Shopify
+  itemCount: number; // Units that require shipping
+  weightGrams: number;
+  country: string | null; // Destination country, null when nothing ships
+}
+
+// "per_order" and "per_item" rules always apply. Of the "weight" and "zone" rules, the
+// first band containing the order's weight and the first zone listing its country apply.
+export interface ShippingCostRule {
+  type: string;
+  amount: number;
+  minWeight: number | null; // Grams, inclusive
+  maxWeight: number | null; // Grams, exclusive
+  countries: string | null; // Comma-separated country codes
+}
+
+export function estimateShippingCost(order: OrderShippingInput, rules: ShippingCostRule[]): number {
+  let cost = 0;
+
+  for (const rule of rules.filter((r) => r.type === "per_order")) {
+    cost += rule.amount;
+  }
+
+  for (const rule of rules.filter((r) => r.type === "per_item")) {
+    cost += rule.amount * order.itemCount;
+  }
+
+  const weightBand = rules.find((rule) =>
+    rule.type === "weight"
+    && order.weightGrams >= (rule.minWeight || 0)
+    && (rule.maxWeight === null || order.weightGrams < rule.maxWeight)
+  );
+  if (weightBand) cost += weightBand.amount;
+
+  const zone = order.country
+    ? rules.find((rule) =>
+        rule.type === "zone"
+        && (rule.countries || "").split(",").map((code) => code.trim().toUpperCase()).includes(order.country as string)
+      )
+    : undefined;
+  if (zone) cost += zone.amount;
+
+  return cost;
+}
+
+export function buildShippingData(
+  orders: OrderShippingInput[],
+  rules: ShippingCostRule[]
+): { shippingRevenue: number; shippingCosts: number; labelCosts: number; estimatedCosts: number } {
+  let shippingRevenue = 0;
+  let labelCosts = 0;
+  let estimatedCosts = 0;
+
+  for (const order of orders) {
+    shippingRevenue += order.shippingCharged;
+
+    if (order.labelCost !== null) {
+      labelCosts += order.labelCost;
+    } else if (order.country && order.itemCount > 0) {
+      estimatedCosts += estimateShippingCost(order, rules);
+    }
+  }
+
+  return {
+    shippingRevenue,
+    shippingCosts: labelCosts + estimatedCosts,
+    labelCosts,
+    estimatedCosts,
+  };
+}
+
+// Per-order line items needed to apply landed cost rules
+export interface OrderLandedCostInput {
+  lines: Array<{ productId: string | null; quantity: number; productCost: number }>; // Unit cost before freight and duty
+}
+
+// "freight_per_unit" and "duty_percent" (of product cost) apply to every matching unit,
+// "packaging_per_order" once per order containing a matching product. Rules scoped to a
+// product or collection list its product IDs; shop-wide rules have null.
+export interface LandedCostRule {
+  type: string;
+  amount: number;
+  productIds: string[] | null;
+}
+
+export interface LandedCosts {
+  freight: number;
+  duty: number;
+  packaging: number;
+  total: number;
+}
+
+export function buildLandedCosts(orders: OrderLandedCostInput[], rules: LandedCostRule[]): LandedCosts {
+  const costs = { freight: 0, duty: 0, packaging: 0, total: 0 };
+  const scopes = rules.map((rule) => (rule.productIds ? new Set(rule.productIds) : null));
+
+  for (const order of orders) {
+    rules.forEach((rule, index) => {
+      const scope = scopes[index];
+      const lines = order.lines.filter(
+        (line) => line.quantity > 0 && (!scope || (line.productId !== null && scope.has(line.productId)))
+      );
+      if (lines.length === 0) return;
+
+      if (rule.type === "freight_per_unit") {
+        costs.freight += lines.reduce((sum, line) => sum + rule.amount * line.quantity, 0);
+      } else if (rule.type === "duty_percent") {
+        costs.duty += lines.reduce((sum, line) => sum + line.productCost * line.quantity * (rule.amount / 100), 0);
+      } else if (rule.type === "packaging_per_order") {
+        costs.packaging += rule.amount;
+      }
+    });
+  }
+
+  costs.total = costs.freight + costs.duty + costs.packaging;
+  return costs;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields needed to recognize a recurring fixed cost
+export interface RecurringCostInput {
+  amount: number;
+  startDate: Date;
+  endDate: Date | null; // Last day the cost applies
+  frequency: string; // "weekly", "monthly", "quarterly", "annual" or "custom"
+  intervalDays: number | null;
+  billingDay?: number | null; // Day of the month charges land on
+  recognition?: string; // "spread" or "incurred"
+}
+
+// Days in the billing period containing a (UTC) day, so each day carries its share of the charge
+function getPeriodDays(day: Date, frequency: string, intervalDays: number | null): number {
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+
+  switch (frequency) {
+    case "weekly":
+      return 7;
+    case "quarterly": {
+      const quarterStart = month - (month % 3);
+      return (Date.UTC(year, quarterStart + 3, 1) - Date.UTC(year, quarterStart, 1)) / DAY_MS;
+    }
+    case "annual":
+      return (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS;
+    case "custom":
+      return intervalDays && intervalDays > 0 ? intervalDays : 30;
+    default:
+      return (Date.UTC(year, month + 1, 1) - Date.UTC(year, month, 1)) / DAY_MS;
+  }
+}
+
+/**
+ * Prorates a recurring cost over a date range, day by day. Each calendar day costs
+ * the amount divided by the length of its billing period (so a monthly cost is
+ * 1/31 per day in January and 1/28 in February), and only days between the cost's
+ * start and end dates count. Partial days at the range edges count proportionally.
+ */
+export function prorateRecurringCost(cost: RecurringCostInput, startDate: Date, endDate: Date): number {
+  const from = Math.max(startDate.getTime(), cost.startDate.getTime());
+  const to = cost.endDate
+    ? Math.min(endDate.getTime(), cost.endDate.getTime() + DAY_MS)
+    : endDate.getTime();
+
+  let total = 0;
+  let dayStart = from - (from % DAY_MS);
+
+  while (dayStart < to) {
+    const dayEnd = dayStart + DAY_MS;
+    const overlap = Math.min(dayEnd, to) - Math.max(dayStart, from);
+    const periodDays = getPeriodDays(new Date(dayStart), cost.frequency, cost.intervalDays);
+
+    total += (cost.amount / periodDays) * (overlap / DAY_MS);
+    dayStart = dayEnd;
+  }
+
+  return total;
+}
+
+/**
+ * Billing dates of a recurring cost within a date range. Monthly, quarterly and annual
+ * charges land on the billing day (clamped to short months) in the months counted from
+ * the start date; weekly and custom charges repeat every 7 or N days from the start date.
+ */
+export function getBillingDates(cost: RecurringCostInput, startDate: Date, endDate: Date): Date[] {
+  const from = Math.max(startDate.getTime(), cost.startDate.getTime());
+  const to = cost.endDate
+    ? Math.min(endDate.getTime(), cost.endDate.getTime() + DAY_MS)
+    : endDate.getTime();
+  const dates: Date[] = [];
+
+  if (cost.frequency === "weekly" || cost.frequency === "custom") {
+    const interval = (cost.frequency === "weekly" ? 7 : cost.intervalDays || 30) * DAY_MS;
+    const first = cost.startDate.getTime() + Math.max(0, Math.ceil((from - cost.startDate.getTime()) / interval)) * interval;
+    for (let time = first; time < to; time += interval) {
+      dates.push(new Date(time));
+    }
+    return dates;
+  }
+
+  const monthStep = cost.frequency === "quarterly" ? 3 : cost.frequency === "annual" ? 12 : 1;
+  const billingDay = cost.billingDay || cost.startDate.getUTCDate();
+  const startYear = cost.startDate.getUTCFullYear();
+  const startMonth = cost.startDate.getUTCMonth();
+
+  for (let month = startMonth; ; month += monthStep) {
+    const daysInMonth = new Date(Date.UTC(startYear, month + 1, 0)).getUTCDate();
+    const time = Date.UTC(startYear, month, Math.min(billingDay, daysInMonth));
+    if (time >= to) break;
+    if (time >= from) dates.push(new Date(time));
+  }
+
+  return dates;
+}
+
+// Recurring cost for a date range, either spread over each day or counted in full on billing dates
+export function calculateRecurringCost(cost: RecurringCostInput, startDate: Date, endDate: Date): number {
+  if (cost.recognition === "incurred") {
+    return getBillingDates(cost, startDate, endDate).length * cost.amount;
+  }
+  return prorateRecurringCost(cost, startDate, endDate);
+}
+
 export function calculateTrend(current: number, previous: number): number {
   if (previous === 0) return 0;
   return ((current - previous) / previous) * 100;
@@ -1,4 +1,16 @@
-import type { SalesData } from "./profit-calculator";
+import { buildLandedCosts, buildSalesData, buildShippingData } from "./profit-calculator";
+import type {
+  LandedCostRule,
+  LandedCosts,
+  OrderLandedCostInput,
+  OrderSalesInput,
+  OrderShippingInput,
+  OrderTransactionInput,
+  SalesData,
+  ShippingCostRule,
+} from "./profit-calculator";
+import type { ProductLineInput } from "./product-profitability";
+import type { CostLookup } from "./cost-history";
 
 export async function getShopTimezone(admin: any): Promise<string> {
   try {
@@ -20,36 +32,293 @@ export async function getShopTimezone(admin: any): Promise<string> {
   }
 }
 
-export async function fetchOrdersData(
-  admin: any,
-  startDate: Date,
-  endDate: Date
-): Promise<SalesData> {
+// Two-letter country code of the shop's address, used to tell international orders apart
+export async function getShopCountry(admin: any): Promise<string | null> {
   try {
-    console.log(`Fetching orders from ${startDate.toISOString()} to ${endDate.toISOString()}`);
-    
     const response = await admin.graphql(
       `#graphql
-        query getOrders($query: String!) {
-          orders(first: 250, query: $query) {
+        query {
+          shop {
+            billingAddress {
+              countryCodeV2
+            }
+          }
+        }
+      `
+    );
+
+    const data = await response.json();
+    return data.data?.shop?.billingAddress?.countryCodeV2 || null;
+  } catch (error) {
+    console.error("Error fetching shop country:", error);
+    return null;
+  }
+}
+
+const ORDERS_PAGE_SIZE = 250;
+const MAX_THROTTLE_RETRIES = 6;
+const BASE_BACKOFF_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function buildOrdersSearchQuery(startDate: Date, endDate: Date, dateField: string): string {
+  return `${dateField}:>='${startDate.toISOString()}' AND ${dateField}:<='${endDate.toISOString()}'`;
+}
+
+function isThrottledError(error: any): boolean {
+  const graphQLErrors = error?.body?.errors?.graphQLErrors || error?.errors || [];
+  if (Array.isArray(graphQLErrors) && graphQLErrors.some((e: any) => e?.extensions?.code === "THROTTLED")) {
+    return true;
+  }
+  // HttpThrottlingError (429) from the API client
+  return error?.code === 429 || /throttl/i.test(error?.message || "");
+}
+
+// How long to wait before the next request so the bucket has refilled enough for it
+function getThrottleDelayMs(extensions: any, nextQueryCost: number): number {
+  const throttleStatus = extensions?.cost?.throttleStatus;
+  if (!throttleStatus) return 0;
+
+  const { currentlyAvailable, restoreRate } = throttleStatus;
+  if (currentlyAvailable >= nextQueryCost || !restoreRate) return 0;
+
+  return Math.ceil(((nextQueryCost - currentlyAvailable) / restoreRate) * 1000);
+}
+
+/**
+ * Runs an Admin GraphQL query, retrying with backoff when Shopify throttles the request.
+ * Returns the parsed JSON body (data + extensions).
+ */
+export async function runThrottledQuery(
+  admin: any,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await admin.graphql(query, { variables });
+      const data = await response.json();
+
+      if ("errors" in data && data.errors) {
+        if (isThrottledError(data) && attempt < MAX_THROTTLE_RETRIES) {
+          const delay = getThrottleDelayMs(data.extensions, data.extensions?.cost?.requestedQueryCost || 0)
+            || BASE_BACKOFF_MS * 2 ** attempt;
+          console.log(`[Shopify API] Throttled, retrying in ${delay}ms (attempt ${attempt + 1})`);
+          await sleep(delay);
+          continue;
+        }
+        console.error("GraphQL errors:", data.errors);
+        throw new Error("Shopify GraphQL query failed");
+      }
+
+      return data;
+    } catch (error) {
+      if (isThrottledError(error) && attempt < MAX_THROTTLE_RETRIES) {
+        const retryAfter = (error as any)?.retryAfter;
+        const delay = retryAfter ? retryAfter * 1000 : BASE_BACKOFF_MS * 2 ** attempt;
+        console.log(`[Shopify API] Throttled, retrying in ${delay}ms (attempt ${attempt + 1})`);
+        await sleep(delay);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Iterates every order created (or, with `dateField: "updated_at"`, updated) in the date
+ * range, following `endCursor` across all pages. `nodeFields` is the GraphQL selection
+ * for each order node.
+ */
+export async function* iterateOrders(
+  admin: any,
+  startDate: Date,
+  endDate: Date,
+  nodeFields: string,
+  pageSize: number = ORDERS_PAGE_SIZE,
+  dateField: "created_at" | "updated_at" = "created_at"
+): AsyncGenerator<any> {
+  const query = `#graphql
+    query getOrdersPage($query: String!, $first: Int!, $after: String) {
+      orders(first: $first, after: $after, query: $query) {
+        edges {
+          node {
+            ${nodeFields}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  `;
+
+  let cursor: string | null = null;
+  let pageCount = 0;
+
+  do {
+    const data = await runThrottledQuery(admin, query, {
+      query: buildOrdersSearchQuery(startDate, endDate, dateField),
+      first: pageSize,
+      after: cursor,
+    });
+
+    const connection = data.data?.orders;
+    const edges = connection?.edges || [];
+    pageCount++;
+    console.log(`[Shopify API] Orders page ${pageCount}: ${edges.length} orders`);
+
+    for (const { node } of edges) {
+      yield node;
+    }
+
+    cursor = connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null;
+
+    if (cursor) {
+      // Wait for the cost bucket to refill before asking for the next page
+      const delay = getThrottleDelayMs(data.extensions, data.extensions?.cost?.requestedQueryCost || 0);
+      if (delay > 0) {
+        console.log(`[Shopify API] Waiting ${delay}ms for rate limit to restore`);
+        await sleep(delay);
+      }
+    }
+  } while (cursor);
+}
+
+const LINE_ITEM_FIELDS = `
+  id
+  quantity
+  requiresShipping
+  product {
+    id
+  }
+  variant {
+    id
+    inventoryItem {
+      unitCost {
+        amount
+      }
+    }
+  }
+`;
+
+// Orders with more line items than fit in the first page get the rest fetched separately
+export async function fetchRemainingLineItems(
+  admin: any,
+  orderId: string,
+  after: string,
+  lineItemFields: string = LINE_ITEM_FIELDS
+): Promise<any[]> {
+  const query = `#graphql
+    query getOrderLineItems($id: ID!, $after: String) {
+      order(id: $id) {
+        lineItems(first: 250, after: $after) {
+          edges {
+            node {
+              ${lineItemFields}
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `;
+
+  const lineItems: any[] = [];
+  let cursor: string | null = after;
+
+  while (cursor) {
+    const data = await runThrottledQuery(admin, query, { id: orderId, after: cursor });
+    const connection = data.data?.order?.lineItems;
+    lineItems.push(...(connection?.edges || []).map((edge: any) => edge.node));
+    cursor = connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null;
+  }
+
+  return lineItems;
+}
+
+export const REFUND_FIELDS = `
+  id
+  createdAt
+  totalRefundedSet {
+    shopMoney {
+      amount
+    }
+  }
+`;
+
+export const REFUND_LINE_ITEM_FIELDS = `
+  quantity
+  restockType
+  lineItem {
+    variant {
+      id
+      inventoryItem {
+        unitCost {
+          amount
+        }
+      }
+    }
+  }
+`;
+
+// Refund with the first page of its line items; fetchRemainingRefundLineItems reads the rest
+export const REFUND_WITH_LINE_ITEMS_FIELDS = `
+  ${REFUND_FIELDS}
+  refundLineItems(first: 250) {
+    edges {
+      node {
+        ${REFUND_LINE_ITEM_FIELDS}
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+  }
+`;
+
+// Cost of the units a refund line item puts back into stock, at the cost in effect when
+// the order was placed. NO_RESTOCK units are gone (damaged, kept by the customer), so
+// their COGS still counts.
+export function getRestockedCost(refundLineItem: any, orderCreatedAt: Date | string, costLookup?: CostLookup): number {
+  if (!refundLineItem || refundLineItem.restockType === "NO_RESTOCK") return 0;
+
+  const unitCost = getLineItemUnitCost(refundLineItem.lineItem || {}, orderCreatedAt, costLookup) || 0;
+  return unitCost * (refundLineItem.quantity || 0);
+}
+
+// Refunded amount and restocked COGS for a refund node with its refundLineItems connection
+export function summarizeRefund(
+  refund: any,
+  orderCreatedAt: Date | string,
+  costLookup?: CostLookup
+): { amount: number; restockedCogs: number } {
+  const amount = parseFloat(refund.totalRefundedSet?.shopMoney?.amount || "0");
+  const restockedCogs = (refund.refundLineItems?.edges || []).reduce(
+    (sum: number, { node }: any) => sum + getRestockedCost(node, orderCreatedAt, costLookup),
+    0
+  );
+
+  return { amount, restockedCogs };
+}
+
+// Pages through a refund's line items after the first page
+export async function fetchRemainingRefundLineItems(admin: any, refundId: string, after: string): Promise<any[]> {
+  const query = `#graphql
+    query getRefundLineItems($id: ID!, $after: String) {
+      node(id: $id) {
+        ... on Refund {
+          refundLineItems(first: 250, after: $after) {
             edges {
               node {
-                id
-                createdAt
-                totalPriceSet {
-                  shopMoney {
-                    amount
-                  }
-                }
-                customerJourneySummary {
-                  firstVisit {
-                    occurredAt
-                  }
-                }
-                customer {
-                  id
-                  createdAt
-                }
+                ${REFUND_LINE_ITEM_FIELDS}
               }
             }
             pageInfo {
@@ -58,167 +327,692 @@ export async function fetchOrdersData(
             }
           }
         }
-      `,
-      {
-        variables: {
-          query: `created_at:>='${startDate.toISOString()}' AND created_at:<='${endDate.toISOString()}'`,
-        },
       }
-    );
-
-    const data = await response.json();
-    
-    if ('errors' in data && data.errors) {
-      console.error("GraphQL errors fetching orders:", data.errors);
-      throw new Error("Failed to fetch orders");
     }
-    
-    const orders = data.data?.orders?.edges || [];
-    console.log(`Found ${orders.length} orders`);
-
-    let totalSales = 0;
-    let newCustomerRevenue = 0;
-    let returnCustomerRevenue = 0;
-    let newCustomerCount = 0;
-    let returnCustomerCount = 0;
-    const processedCustomers = new Set<string>();
-
-    for (const { node: order } of orders) {
-      const orderAmount = parseFloat(order.totalPriceSet?.shopMoney?.amount || "0");
-      totalSales += orderAmount;
-
-      // Check if this is a new customer based on customer journey
-      // If the first visit date is close to order date, it's a new customer
-      const customerId = order.customer?.id;
-      const isFirstOrder = order.customerJourneySummary?.firstVisit?.occurredAt;
-      const orderDate = new Date(order.createdAt);
-      
-      // Consider it a new customer if the order was placed within 24 hours of first visit
-      // or if we haven't seen this customer before in this dataset
-      let isNewCustomer = false;
-      
-      if (customerId && !processedCustomers.has(customerId)) {
-        processedCustomers.add(customerId);
-        if (isFirstOrder) {
-          const firstVisitDate = new Date(isFirstOrder);
-          const hoursDiff = (orderDate.getTime() - firstVisitDate.getTime()) / (1000 * 60 * 60);
-          isNewCustomer = hoursDiff <= 24; // Within 24 hours = new customer
-        } else {
-          // If no customer journey data, assume new customer for first occurrence
-          isNewCustomer = true;
+  `;
+
+  const refundLineItems: any[] = [];
+  let cursor: string | null = after;
+
+  while (cursor) {
+    const data = await runThrottledQuery(admin, query, { id: refundId, after: cursor });
+    const connection = data.data?.node?.refundLineItems;
+    refundLineItems.push(...(connection?.edges || []).map((edge: any) => edge.node));
+    cursor = connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null;
+  }
+
+  return refundLineItems;
+}
+
+// Fills in the line items beyond the first page on refunds read with REFUND_WITH_LINE_ITEMS_FIELDS
+export async function completeRefundLineItems(admin: any, refunds: any[]): Promise<void> {
+  for (const refund of refunds) {
+    const connection = refund.refundLineItems;
+    if (!connection?.pageInfo?.hasNextPage) continue;
+
+    const remaining = await fetchRemainingRefundLineItems(admin, refund.id, connection.pageInfo.endCursor);
+    connection.edges = [...(connection.edges || []), ...remaining.map((node) => ({ node }))];
+    connection.pageInfo = { hasNextPage: false, endCursor: null };
+  }
+}
+
+/**
+ * Reads every refund on an order with all of its line items. Bulk exports can't nest
+ * the refundLineItems connection inside the refunds list, so imports load them here.
+ */
+export async function fetchOrderRefunds(admin: any, orderId: string): Promise<any[]> {
+  const data = await runThrottledQuery(
+    admin,
+    `#graphql
+      query getOrderRefunds($id: ID!) {
+        order(id: $id) {
+          refunds {
+            ${REFUND_WITH_LINE_ITEMS_FIELDS}
+          }
         }
       }
-      
-      if (isNewCustomer) {
-        newCustomerRevenue += orderAmount;
-        newCustomerCount += 1;
-      } else {
-        returnCustomerRevenue += orderAmount;
-        returnCustomerCount += 1;
+    `,
+    { id: orderId }
+  );
+
+  const refunds = data.data?.order?.refunds || [];
+  await completeRefundLineItems(admin, refunds);
+  return refunds;
+}
+
+const REFUNDED_ORDER_FIELDS = `
+  id
+  createdAt
+  refunds {
+    ${REFUND_WITH_LINE_ITEMS_FIELDS}
+  }
+`;
+
+/**
+ * Sums refunds for the period. With "order_date" attribution, refunds count against the
+ * period their order was placed in. With "refund_date", they count in the period the
+ * refund was issued, whenever the order was placed.
+ */
+export async function fetchRefundsData(
+  admin: any,
+  startDate: Date,
+  endDate: Date,
+  attribution: string = "refund_date",
+  costLookup?: CostLookup
+): Promise<{ refundedAmount: number; restockedCogs: number }> {
+  try {
+    const byRefundDate = attribution === "refund_date";
+
+    // Issuing a refund updates the order, so every order refunded since startDate
+    // has updated_at >= startDate, even if it was updated again later.
+    const orders = byRefundDate
+      ? iterateOrders(admin, startDate, new Date(), REFUNDED_ORDER_FIELDS, 15, "updated_at")
+      : iterateOrders(admin, startDate, endDate, REFUNDED_ORDER_FIELDS, 15);
+
+    let refundedAmount = 0;
+    let restockedCogs = 0;
+
+    for await (const order of orders) {
+      await completeRefundLineItems(admin, order.refunds || []);
+
+      for (const refund of order.refunds || []) {
+        if (byRefundDate) {
+          const refundDate = new Date(refund.createdAt);
+          if (refundDate < startDate || refundDate > endDate) continue;
+        }
+
+        const totals = summarizeRefund(refund, order.createdAt, costLookup);
+        refundedAmount += totals.amount;
+        restockedCogs += totals.restockedCogs;
       }
     }
 
-    console.log(`Total Sales: $${totalSales}, New Customer: $${newCustomerRevenue}, Returning: $${returnCustomerRevenue}`);
-
-    return {
-      totalSales,
-      newCustomerRevenue,
-      returnCustomerRevenue,
-      orderCount: orders.length,
-      newCustomerCount,
-      returnCustomerCount,
-    };
+    console.log(`Refunds (${attribution}): $${refundedAmount}, Restocked COGS: $${restockedCogs}`);
+    return { refundedAmount, restockedCogs };
   } catch (error) {
-    console.error("Error fetching orders data:", error);
+    console.error("Error fetching refunds data:", error);
     throw error;
   }
 }
 
-export async function fetchProductCosts(
+export const TRANSACTION_FIELDS = `
+  id
+  gateway
+  kind
+  status
+  processedAt
+  amountSet {
+    shopMoney {
+      amount
+    }
+  }
+  fees {
+    amount {
+      amount
+    }
+  }
+`;
+
+// Only money actually taken from the customer incurs processing fees
+const CHARGE_TRANSACTION_KINDS = ["SALE", "CAPTURE"];
+
+export function isChargeTransaction(transaction: any): boolean {
+  return transaction?.status === "SUCCESS" && CHARGE_TRANSACTION_KINDS.includes(transaction.kind);
+}
+
+// Fee the processor reported on a transaction, or null when none was reported (other
+// gateways, or Shopify Payments fees not yet settled)
+export function getTransactionFee(transaction: any): number | null {
+  if (!transaction?.fees?.length) return null;
+  return transaction.fees.reduce((sum: number, fee: any) => sum + parseFloat(fee.amount?.amount || "0"), 0);
+}
+
+// Successful charges on an order with their reported fees
+export function getChargeTransactions(transactions: any[]): OrderTransactionInput[] {
+  return (transactions || []).filter(isChargeTransaction).map((transaction) => ({
+    id: transaction.id,
+    gateway: transaction.gateway || "unknown",
+    amount: parseMoney(transaction.amountSet),
+    fee: getTransactionFee(transaction),
+  }));
+}
+
+// Walks the Shopify Payments account's balance transactions processed in the range.
+// Yields nothing when the shop doesn't use Shopify Payments.
+async function* iterateBalanceTransactions(admin: any, startDate: Date, endDate: Date): AsyncGenerator<any> {
+  const query = `#graphql
+    query getBalanceTransactions($query: String!, $first: Int!, $after: String) {
+      shopifyPaymentsAccount {
+        balanceTransactions(first: $first, after: $after, query: $query) {
+          edges {
+            node {
+              id
+              type
+              transactionDate
+              sourceOrderTransactionId
+              associatedOrder {
+                id
+              }
+              amount {
+                amount
+              }
+              fee {
+                amount
+              }
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `;
+
+  let cursor: string | null = null;
+
+  do {
+    const data = await runThrottledQuery(admin, query, {
+      query: buildOrdersSearchQuery(startDate, endDate, "processed_at"),
+      first: ORDERS_PAGE_SIZE,
+      after: cursor,
+    });
+
+    const connection = data.data?.shopifyPaymentsAccount?.balanceTransactions;
+    if (!connection) return;
+
+    for (const { node } of connection.edges || []) {
+      yield node;
+    }
+
+    cursor = connection.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null;
+  } while (cursor);
+}
+
+/**
+ * Fees Shopify Payments charged per order transaction, from the payments account's
+ * balance transactions. Keyed by order transaction GID. Returns an empty map when the
+ * shop doesn't use Shopify Payments or the payouts scope hasn't been granted.
+ */
+export async function fetchShopifyPaymentsFees(
   admin: any,
   startDate: Date,
   endDate: Date
-): Promise<{ totalCogs: number; totalShipping: number }> {
+): Promise<Map<string, number>> {
+  const fees = new Map<string, number>();
+
   try {
-    // Fetch orders with line items to calculate COGS
-    const response = await admin.graphql(
+    for await (const node of iterateBalanceTransactions(admin, startDate, endDate)) {
+      if (node.type !== "CHARGE" || !node.sourceOrderTransactionId) continue;
+
+      const transactionId = String(node.sourceOrderTransactionId).startsWith("gid://")
+        ? String(node.sourceOrderTransactionId)
+        : `gid://shopify/OrderTransaction/${node.sourceOrderTransactionId}`;
+      fees.set(transactionId, (fees.get(transactionId) || 0) + parseFloat(node.fee?.amount || "0"));
+    }
+
+    console.log(`[Shopify Payments] Found fees for ${fees.size} transactions`);
+  } catch (error) {
+    console.error("Error fetching Shopify Payments balance transactions:", error);
+  }
+
+  return fees;
+}
+
+const SHIPPING_LABEL_TRANSACTION_TYPES = ["SHIPPING_LABEL", "SHIPPING_REFUND"];
+
+export interface ShippingLabelCharge {
+  id: string; // Balance transaction GID
+  orderId: string;
+  amount: number; // Positive for label purchases, negative for label refunds
+  processedAt: Date;
+}
+
+/**
+ * Shopify Shipping label purchases and refunds processed in the range. Labels are
+ * billed through Shopify Payments, so shops without it get none and fall back to
+ * shipping cost rules.
+ */
+export async function fetchShippingLabelCharges(
+  admin: any,
+  startDate: Date,
+  endDate: Date
+): Promise<ShippingLabelCharge[]> {
+  const charges: ShippingLabelCharge[] = [];
+
+  try {
+    for await (const node of iterateBalanceTransactions(admin, startDate, endDate)) {
+      if (!SHIPPING_LABEL_TRANSACTION_TYPES.includes(node.type) || !node.associatedOrder?.id) continue;
+
+      charges.push({
+        id: node.id,
+        orderId: node.associatedOrder.id,
+        // Label purchases are debits (negative), label refunds credits
+        amount: -parseFloat(node.amount?.amount || "0"),
+        processedAt: new Date(node.transactionDate),
+      });
+    }
+
+    console.log(`[Shopify Shipping] Found ${charges.length} label charges`);
+  } catch (error) {
+    console.error("Error fetching shipping label charges:", error);
+  }
+
+  return charges;
+}
+
+// Gateway names used on the shop's most recent orders, e.g. "shopify_payments", "paypal", "manual"
+export async function fetchRecentPaymentGateways(admin: any, orderCount: number = 100): Promise<string[]> {
+  try {
+    const data = await runThrottledQuery(
+      admin,
       `#graphql
-        query getOrdersWithLineItems($query: String!) {
-          orders(first: 250, query: $query) {
+        query getRecentPaymentGateways($first: Int!) {
+          orders(first: $first, sortKey: CREATED_AT, reverse: true) {
             edges {
               node {
-                id
-                lineItems(first: 50) {
-                  edges {
-                    node {
-                      id
-                      quantity
-                      variant {
-                        inventoryItem {
-                          unitCost {
-                            amount
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-                totalShippingPriceSet {
-                  shopMoney {
-                    amount
-                  }
-                }
+                paymentGatewayNames
               }
             }
           }
         }
       `,
-      {
-        variables: {
-          query: `created_at:>='${startDate.toISOString()}' AND created_at:<='${endDate.toISOString()}'`,
-        },
+      { first: orderCount }
+    );
+
+    const gateways = new Set<string>();
+    for (const { node } of data.data?.orders?.edges || []) {
+      for (const gateway of node.paymentGatewayNames || []) {
+        gateways.add(gateway);
       }
+    }
+
+    return Array.from(gateways).sort();
+  } catch (error) {
+    console.error("Error fetching recent payment gateways:", error);
+    return [];
+  }
+}
+
+// What processors add surcharges for: the currency the customer paid in and where they are
+export const PAYMENT_CONTEXT_FIELDS = `
+  currencyCode
+  presentmentCurrencyCode
+  billingAddress {
+    countryCodeV2
+  }
+`;
+
+export function isCurrencyConverted(order: { currencyCode?: string | null; presentmentCurrencyCode?: string | null }): boolean {
+  return !!order.presentmentCurrencyCode && !!order.currencyCode && order.presentmentCurrencyCode !== order.currencyCode;
+}
+
+export function isInternationalOrder(billingCountry: string | null | undefined, shopCountry: string | null): boolean {
+  return !!billingCountry && !!shopCountry && billingCountry !== shopCountry;
+}
+
+// Order amounts that aren't revenue under the net revenue definitions
+export const REVENUE_ADJUSTMENT_FIELDS = `
+  totalTaxSet {
+    shopMoney {
+      amount
+    }
+  }
+  totalTipReceivedSet {
+    shopMoney {
+      amount
+    }
+  }
+  originalTotalDutiesSet {
+    shopMoney {
+      amount
+    }
+  }
+  totalDiscountsSet {
+    shopMoney {
+      amount
+    }
+  }
+`;
+
+const GIFT_CARD_LINE_ITEM_FIELDS = `
+  id
+  isGiftCard
+  discountedTotalSet {
+    shopMoney {
+      amount
+    }
+  }
+`;
+
+export function parseMoney(moneySet: any): number {
+  return parseFloat(moneySet?.shopMoney?.amount || "0");
+}
+
+// Value of gift cards sold on the order (issuing a gift card is a liability, not revenue)
+export function sumGiftCardSales(lineItems: any[]): number {
+  return lineItems
+    .filter((lineItem) => lineItem?.isGiftCard)
+    .reduce((sum, lineItem) => sum + parseMoney(lineItem.discountedTotalSet), 0);
+}
+
+export async function fetchOrdersData(
+  admin: any,
+  startDate: Date,
+  endDate: Date,
+  revenueDefinition: string = "gross",
+  shopCountry: string | null = null
+): Promise<SalesData> {
+  try {
+    console.log(`Fetching orders from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+
+    const orderInputs: OrderSalesInput[] = [];
+
+    const orders = iterateOrders(
+      admin,
+      startDate,
+      endDate,
+      `
+        id
+        createdAt
+        totalPriceSet {
+          shopMoney {
+            amount
+          }
+        }
+        ${REVENUE_ADJUSTMENT_FIELDS}
+        ${PAYMENT_CONTEXT_FIELDS}
+        transactions {
+          ${TRANSACTION_FIELDS}
+        }
+        lineItems(first: 10) {
+          edges {
+            node {
+              ${GIFT_CARD_LINE_ITEM_FIELDS}
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+        customerJourneySummary {
+          firstVisit {
+            occurredAt
+          }
+        }
+        customer {
+          id
+          createdAt
+        }
+      `,
+      50
     );
 
-    const data = await response.json();
-    
-    // Check for GraphQL errors
-    if ('errors' in data && data.errors) {
-      console.error("GraphQL errors fetching product costs:", data.errors);
-      // Return zeros if there are API errors
-      return { totalCogs: 0, totalShipping: 0 };
+    for await (const order of orders) {
+      const lineItems = (order.lineItems?.edges || []).map((edge: any) => edge.node);
+      if (order.lineItems?.pageInfo?.hasNextPage) {
+        lineItems.push(
+          ...(await fetchRemainingLineItems(admin, order.id, order.lineItems.pageInfo.endCursor, GIFT_CARD_LINE_ITEM_FIELDS))
+        );
+      }
+
+      orderInputs.push({
+        amount: parseMoney(order.totalPriceSet),
+        tax: parseMoney(order.totalTaxSet),
+        tips: parseMoney(order.totalTipReceivedSet),
+        duties: parseMoney(order.originalTotalDutiesSet),
+        discounts: parseMoney(order.totalDiscountsSet),
+        giftCardSales: sumGiftCardSales(lineItems),
+        transactions: getChargeTransactions(order.transactions),
+        currencyConverted: isCurrencyConverted(order),
+        international: isInternationalOrder(order.billingAddress?.countryCodeV2, shopCountry),
+        createdAt: order.createdAt,
+        customerId: order.customer?.id,
+        firstVisitAt: order.customerJourneySummary?.firstVisit?.occurredAt,
+      });
     }
-    
-    const orders = data.data?.orders?.edges || [];
-    console.log(`Found ${orders.length} orders for COGS calculation`);
 
+    // Fill in Shopify Payments fees that weren't on the transactions themselves
+    const missingPaymentsFees = orderInputs.some((order) =>
+      order.transactions?.some((transaction) => transaction.fee === null && transaction.gateway === "shopify_payments")
+    );
+    if (missingPaymentsFees) {
+      const paymentsFees = await fetchShopifyPaymentsFees(admin, startDate, new Date());
+      for (const transaction of orderInputs.flatMap((order) => order.transactions || [])) {
+        const fee = transaction.id ? paymentsFees.get(transaction.id) : undefined;
+        if (transaction.fee === null && fee !== undefined) {
+          transaction.fee = fee;
+        }
+      }
+    }
+
+    const salesData = buildSalesData(orderInputs, revenueDefinition);
+
+    console.log(`Found ${salesData.orderCount} orders`);
+    console.log(`Total Sales (${revenueDefinition}): $${salesData.totalSales}, New Customer: $${salesData.newCustomerRevenue}, Returning: $${salesData.returnCustomerRevenue}`);
+
+    return salesData;
+  } catch (error) {
+    console.error("Error fetching orders data:", error);
+    throw error;
+  }
+}
+
+export const SHIPPING_FIELDS = `
+  totalWeight
+  shippingAddress {
+    countryCodeV2
+  }
+`;
+
+// Unit cost for a line item: the cost in effect when the order was placed if there's
+// history for the variant, otherwise the variant's current cost
+function getLineItemUnitCost(
+  lineItem: any,
+  orderCreatedAt: Date | string,
+  costLookup?: CostLookup,
+  part: "landed" | "unit" = "landed"
+): number | null {
+  const historical = costLookup ? costLookup(lineItem.variant?.id || null, orderCreatedAt, part) : null;
+  if (historical !== null) return historical;
+
+  const unitCost = lineItem.variant?.inventoryItem?.unitCost?.amount;
+  return unitCost !== undefined && unitCost !== null ? parseFloat(unitCost) : null;
+}
+
+export async function fetchProductCosts(
+  admin: any,
+  startDate: Date,
+  endDate: Date,
+  shippingRules: ShippingCostRule[] = [],
+  costLookup?: CostLookup,
+  landedCostRules: LandedCostRule[] = []
+): Promise<{ totalCogs: number; shippingRevenue: number; shippingCosts: number; landedCosts: LandedCosts }> {
+  try {
+    // Fetch orders with line items to calculate COGS. Smaller pages keep the
+    // nested line item connection under Shopify's per-query cost limit.
+    const orders = iterateOrders(
+      admin,
+      startDate,
+      endDate,
+      `
+        id
+        createdAt
+        lineItems(first: 50) {
+          edges {
+            node {
+              ${LINE_ITEM_FIELDS}
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+        totalShippingPriceSet {
+          shopMoney {
+            amount
+          }
+        }
+        ${SHIPPING_FIELDS}
+      `,
+      15
+    );
+
+    // Labels are bought when orders are fulfilled, which can be after the period ends
+    const labelCosts = new Map<string, number>();
+    for (const charge of await fetchShippingLabelCharges(admin, startDate, new Date())) {
+      labelCosts.set(charge.orderId, (labelCosts.get(charge.orderId) || 0) + charge.amount);
+    }
+
+    let orderCount = 0;
     let totalCogs = 0;
-    let totalShipping = 0;
+    const shippingInputs: OrderShippingInput[] = [];
+    const landedCostInputs: OrderLandedCostInput[] = [];
+
+    for await (const order of orders) {
+      orderCount++;
+
+      const lineItems = (order.lineItems?.edges || []).map((edge: any) => edge.node);
+      if (order.lineItems?.pageInfo?.hasNextPage) {
+        lineItems.push(...(await fetchRemainingLineItems(admin, order.id, order.lineItems.pageInfo.endCursor)));
+      }
 
-    for (const { node: order } of orders) {
       // Sum up COGS for all line items
-      for (const { node: lineItem } of order.lineItems?.edges || []) {
-        const unitCost = parseFloat(
-          lineItem.variant?.inventoryItem?.unitCost?.amount || "0"
-        );
+      const landedCostLines = [];
+      for (const lineItem of lineItems) {
+        const unitCost = getLineItemUnitCost(lineItem, order.createdAt, costLookup) || 0;
         const quantity = lineItem.quantity || 0;
         totalCogs += unitCost * quantity;
+        landedCostLines.push({
+          productId: lineItem.product?.id || null,
+          quantity,
+          // Without freight and duty already in the history, which duty rules would otherwise compound
+          productCost: getLineItemUnitCost(lineItem, order.createdAt, costLookup, "unit") || 0,
+        });
       }
+      landedCostInputs.push({ lines: landedCostLines });
 
-      // Add shipping costs
-      const shippingCost = parseFloat(
-        order.totalShippingPriceSet?.shopMoney?.amount || "0"
-      );
-      totalShipping += shippingCost;
+      shippingInputs.push({
+        shippingCharged: parseMoney(order.totalShippingPriceSet),
+        labelCost: labelCosts.has(order.id) ? (labelCosts.get(order.id) as number) : null,
+        itemCount: lineItems
+          .filter((lineItem: any) => lineItem.requiresShipping)
+          .reduce((sum: number, lineItem: any) => sum + (lineItem.quantity || 0), 0),
+        weightGrams: parseFloat(order.totalWeight || "0"),
+        country: order.shippingAddress?.countryCodeV2 || null,
+      });
     }
 
-    console.log(`Total COGS: $${totalCogs}, Total Shipping: $${totalShipping}`);
-    return { totalCogs, totalShipping };
+    const shipping = buildShippingData(shippingInputs, shippingRules);
+    const landedCosts = buildLandedCosts(landedCostInputs, landedCostRules);
+
+    console.log(`Found ${orderCount} orders for COGS calculation`);
+    console.log(`Total COGS: $${totalCogs} (plus landed costs $${landedCosts.total}), Shipping Charged: $${shipping.shippingRevenue}, Shipping Costs: $${shipping.shippingCosts} (labels $${shipping.labelCosts}, estimated $${shipping.estimatedCosts})`);
+    return {
+      totalCogs,
+      shippingRevenue: shipping.shippingRevenue,
+      shippingCosts: shipping.shippingCosts,
+      landedCosts,
+    };
   } catch (error) {
     console.error("Error fetching product costs:", error);
     // Return zeros if there's an error
-    return { totalCogs: 0, totalShipping: 0 };
+    return {
+      totalCogs: 0,
+      shippingRevenue: 0,
+      shippingCosts: 0,
+      landedCosts: buildLandedCosts([], []),
+    };
+  }
+}
+
+const PRODUCT_LINE_ITEM_FIELDS = `
+  id
+  title
+  variantTitle
+  sku
+  quantity
+  requiresShipping
+  isGiftCard
+  discountedTotalSet {
+    shopMoney {
+      amount
+    }
+  }
+  product {
+    id
   }
+  variant {
+    id
+    inventoryItem {
+      unitCost {
+        amount
+      }
+    }
+  }
+`;
+
+// Line items sold in the period for the product report (gift cards aren't products)
+export async function fetchProductSales(
+  admin: any,
+  startDate: Date,
+  endDate: Date,
+  costLookup?: CostLookup
+): Promise<ProductLineInput[]> {
+  const orders = iterateOrders(
+    admin,
+    startDate,
+    endDate,
+    `
+      id
+      createdAt
+      lineItems(first: 50) {
+        edges {
+          node {
+            ${PRODUCT_LINE_ITEM_FIELDS}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    `,
+    15
+  );
+
+  const lines: ProductLineInput[] = [];
+
+  for await (const order of orders) {
+    const lineItems = (order.lineItems?.edges || []).map((edge: any) => edge.node);
+    if (order.lineItems?.pageInfo?.hasNextPage) {
+      lineItems.push(
+        ...(await fetchRemainingLineItems(admin, order.id, order.lineItems.pageInfo.endCursor, PRODUCT_LINE_ITEM_FIELDS))
+      );
+    }
+
+    for (const lineItem of lineItems) {
+      if (lineItem.isGiftCard) continue;
+
+      lines.push({
+        productId: lineItem.product?.id || null,
+        productTitle: lineItem.title || "Untitled product",
+        variantId: lineItem.variant?.id || null,
+        variantTitle: lineItem.variantTitle || null,
+        sku: lineItem.sku || null,
+        quantity: lineItem.quantity || 0,
+        revenue: parseMoney(lineItem.discountedTotalSet),
+        unitCost: getLineItemUnitCost(lineItem, order.createdAt, costLookup),
+        requiresShipping: lineItem.requiresShipping !== false,
+      });
+    }
+  }
+
+  console.log(`Found ${lines.length} product line items`);
+  return lines;
 }
 
 export function getDateRangeForPeriod(period: string, timezone: string = "UTC"): {
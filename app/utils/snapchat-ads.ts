@@ -0,0 +1,152 @@
+import { addDailySpend, syncAdPlatform } from "./ad-connector";
+import type { AdAccount, AdPlatformConnector, AdPlatformCredentials } from "./ad-connector";
+
+// Overridable so a local stand-in can replace Snapchat's APIs
+export const SNAPCHAT_API_BASE_URL = process.env.SNAPCHAT_API_BASE_URL || "https://adsapi.snapchat.com/v1";
+export const SNAPCHAT_AUTH_BASE_URL = process.env.SNAPCHAT_AUTH_BASE_URL || "https://accounts.snapchat.com/login/oauth2";
+export const SNAPCHAT_REDIRECT_URI =
+  process.env.SNAPCHAT_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/snapchat-oauth";
+
+async function requestSnapchatToken(params: Record<string, string>): Promise<AdPlatformCredentials | null> {
+  try {
+    const response = await fetch(`${SNAPCHAT_AUTH_BASE_URL}/access_token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        client_id: process.env.SNAPCHAT_CLIENT_ID || "",
+        client_secret: process.env.SNAPCHAT_CLIENT_SECRET || "",
+        ...params,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || !data.access_token) {
+      console.error("[Snapchat OAuth] Token request failed:", data);
+      return null;
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || params.refresh_token,
+      expiresAt: Date.now() + (data.expires_in * 1000),
+    };
+  } catch (error) {
+    console.error("Error requesting Snapchat token:", error);
+    return null;
+  }
+}
+
+export async function exchangeSnapchatCode(code: string, redirectUri: string) {
+  return requestSnapchatToken({
+    code,
+    grant_type: "authorization_code",
+    redirect_uri: redirectUri,
+  });
+}
+
+async function snapchatRequest(url: string, accessToken: string): Promise<any> {
+  const response = await fetch(url, {
+    headers: {
+      "Authorization": `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Snapchat API request failed (${response.status}): ${errorText}`);
+  }
+
+  return response.json();
+}
+
+export const snapchatConnector: AdPlatformConnector = {
+  platform: "snapchat",
+  integrationPlatform: "snapchat_ads",
+  label: "Snapchat Ads",
+  logTag: "[Snapchat Sync]",
+  // Day-granularity stats are limited to 32 days per request
+  maxRangeDays: 31,
+
+  authorizationUrl(state) {
+    if (!process.env.SNAPCHAT_CLIENT_ID || !process.env.SNAPCHAT_CLIENT_SECRET) return null;
+
+    return (
+      `${SNAPCHAT_AUTH_BASE_URL}/authorize?` +
+      `client_id=${process.env.SNAPCHAT_CLIENT_ID}` +
+      `&redirect_uri=${encodeURIComponent(SNAPCHAT_REDIRECT_URI)}` +
+      `&response_type=code` +
+      `&scope=${encodeURIComponent("snapchat-marketing-api")}` +
+      `&state=${encodeURIComponent(state)}`
+    );
+  },
+
+  async listAccounts(credentials) {
+    const data = await snapchatRequest(
+      `${SNAPCHAT_API_BASE_URL}/me/organizations?with_ad_accounts=true`,
+      credentials.accessToken
+    );
+
+    return (data.organizations || []).flatMap(({ organization }: any) =>
+      (organization?.ad_accounts || []).map((account: any): AdAccount => ({
+        id: account.id,
+        name: account.name,
+        currency: account.currency,
+      }))
+    );
+  },
+
+  // Snapchat access tokens only last 30 minutes
+  async refreshCredentials(credentials) {
+    return requestSnapchatToken({
+      refresh_token: credentials.refreshToken || "",
+      grant_type: "refresh_token",
+    });
+  },
+
+  async fetchDailySpend(credentials, account, range) {
+    // Stats are bucketed by day in the ad account's timezone, and the end time is exclusive
+    const endTime = new Date(`${range.until}T00:00:00Z`);
+    endTime.setUTCDate(endTime.getUTCDate() + 1);
+
+    const dailySpend = new Map<string, number>();
+    let url: string | null =
+      `${SNAPCHAT_API_BASE_URL}/adaccounts/${account.id}/stats?` +
+      new URLSearchParams({
+        granularity: "DAY",
+        fields: "spend",
+        start_time: `${range.since}T00:00:00`,
+        end_time: `${endTime.toISOString().split("T")[0]}T00:00:00`,
+      });
+
+    while (url) {
+      const data = await snapchatRequest(url, credentials.accessToken);
+
+      for (const { timeseries_stat } of data.timeseries_stats || []) {
+        for (const entry of timeseries_stat?.timeseries || []) {
+          // Spend is in micro-currency
+          addDailySpend(dailySpend, String(entry.start_time || "").split("T")[0], (entry.stats?.spend || 0) / 1000000);
+        }
+      }
+
+      url = data.paging?.next_link || null;
+    }
+
+    return dailySpend;
+  },
+};
+
+export async function getSnapchatAdAccounts(accessToken: string): Promise<AdAccount[]> {
+  try {
+    return await snapchatConnector.listAccounts({ accessToken });
+  } catch (error) {
+    console.error("Error fetching Snapchat ad accounts:", error);
+    return [];
+  }
+}
+
+export async function syncSnapchatHistoricalData(shop: string, days: number = 90) {
+  return syncAdPlatform(snapchatConnector, shop, days);
+}
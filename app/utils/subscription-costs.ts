@@ -0,0 +1,162 @@
+import { deleteShopRecord, prisma, saveDailyMarketingSpend, updateShopRecord } from "./database";
+import { SUBSCRIPTION_ACCOUNT_ID, SUBSCRIPTION_TOOLS, getSubscriptionTool } from "./ad-platforms";
+
+export interface SubscriptionPlan {
+  monthlyPrice: number;
+  billingDay: number; // Day of the month the invoice lands on, clamped to short months
+  startDate: string; // YYYY-MM-DD of the first invoice
+  recordAs: "marketing" | "fixed";
+  fixedCostId?: string | null; // FixedCost holding the plan when recorded as a fixed cost
+}
+
+// Invoice dates from the plan's start up to today, as YYYY-MM-DD
+function getBillingDates(plan: SubscriptionPlan): string[] {
+  const today = new Date().toISOString().split("T")[0];
+  const [startYear, startMonth] = plan.startDate.split("-").map(Number);
+  const dates: string[] = [];
+
+  for (let year = startYear, month = startMonth; ; month++) {
+    if (month > 12) {
+      year++;
+      month = 1;
+    }
+
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const day = Math.min(plan.billingDay, daysInMonth);
+    const date = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+    if (date > today) break;
+    if (date >= plan.startDate) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Writes a marketing cost for every invoice of the shop's subscription tools that
+ * are recorded as marketing spend. The invoices follow from the plan alone, so this
+ * is safe to repeat and fills in any months that passed since it last ran.
+ */
+export async function syncSubscriptionCosts(shop: string): Promise<{ success: boolean; totalAmount: number; error?: string }> {
+  try {
+    const integrations = await prisma.integration.findMany({
+      where: {
+        shop,
+        platform: { in: SUBSCRIPTION_TOOLS.map((tool) => tool.key) },
+        isActive: true,
+      },
+    });
+
+    let totalAmount = 0;
+
+    for (const integration of integrations) {
+      const plan: SubscriptionPlan | null = integration.credentials ? JSON.parse(integration.credentials) : null;
+      const tool = getSubscriptionTool(integration.platform);
+      if (!plan || !tool || plan.recordAs !== "marketing") continue;
+
+      const invoices = new Map(getBillingDates(plan).map((date) => [date, plan.monthlyPrice]));
+      totalAmount += await saveDailyMarketingSpend(
+        shop,
+        tool.key,
+        `${tool.label} subscription`,
+        invoices,
+        SUBSCRIPTION_ACCOUNT_ID
+      );
+
+      await prisma.integration.update({
+        where: { id: integration.id },
+        data: { lastSync: new Date() },
+      });
+    }
+
+    console.log(`[Subscription Sync] Stored $${totalAmount} of subscription invoices for ${shop}`);
+    return { success: true, totalAmount };
+  } catch (error) {
+    console.error("Error syncing subscription costs:", error);
+    return {
+      success: false,
+      totalAmount: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Saves a tool's plan and rewrites the costs it produces. Switching between
+ * marketing spend and a fixed cost removes the other kind, so the plan is
+ * never counted twice.
+ */
+export async function saveSubscriptionPlan(
+  shop: string,
+  toolKey: string,
+  plan: Omit<SubscriptionPlan, "fixedCostId">
+): Promise<void> {
+  const tool = getSubscriptionTool(toolKey);
+  if (!tool) throw new Error(`Unknown subscription tool: ${toolKey}`);
+
+  const existing = await prisma.integration.findUnique({
+    where: { shop_platform: { shop, platform: tool.key } },
+  });
+  const previous: SubscriptionPlan | null = existing?.credentials ? JSON.parse(existing.credentials) : null;
+
+  // Old invoices may fall on different dates, so they're cleared and written again.
+  // Costs entered by hand under the same platform are left alone.
+  await prisma.marketingCost.deleteMany({ where: { shop, platform: tool.key, accountId: SUBSCRIPTION_ACCOUNT_ID } });
+
+  let fixedCostId: string | null = null;
+
+  if (plan.recordAs === "fixed") {
+    const fixedCost = {
+      category: "software",
+      categoryId: null,
+      name: `${tool.label} subscription`,
+      amount: plan.monthlyPrice,
+      startDate: new Date(plan.startDate),
+      endDate: null,
+      recurring: true,
+      frequency: "monthly",
+      intervalDays: null,
+      billingDay: plan.billingDay,
+      recognition: "incurred",
+    };
+
+    fixedCostId = previous?.fixedCostId || null;
+    if (!fixedCostId || !(await updateShopRecord("fixedCost", shop, fixedCostId, fixedCost))) {
+      fixedCostId = (await prisma.fixedCost.create({ data: { shop, ...fixedCost } })).id;
+    }
+  } else if (previous?.fixedCostId) {
+    await deleteShopRecord("fixedCost", shop, previous.fixedCostId);
+  }
+
+  const credentials = JSON.stringify({ ...plan, fixedCostId });
+
+  await prisma.integration.upsert({
+    where: { shop_platform: { shop, platform: tool.key } },
+    update: { credentials, isActive: true },
+    create: { shop, platform: tool.key, credentials, isActive: true },
+  });
+
+  if (plan.recordAs === "marketing") {
+    await syncSubscriptionCosts(shop);
+  }
+}
+
+// Stops tracking a tool, removing the costs it produced
+export async function removeSubscriptionPlan(shop: string, toolKey: string): Promise<boolean> {
+  const tool = getSubscriptionTool(toolKey);
+  if (!tool) return false;
+
+  const existing = await prisma.integration.findUnique({
+    where: { shop_platform: { shop, platform: tool.key } },
+  });
+  if (!existing) return false;
+
+  const plan: SubscriptionPlan | null = existing.credentials ? JSON.parse(existing.credentials) : null;
+  if (plan?.fixedCostId) {
+    await deleteShopRecord("fixedCost", shop, plan.fixedCostId);
+  }
+
+  await prisma.marketingCost.deleteMany({ where: { shop, platform: tool.key, accountId: SUBSCRIPTION_ACCOUNT_ID } });
+  await prisma.integration.delete({ where: { id: existing.id } });
+  return true;
+}
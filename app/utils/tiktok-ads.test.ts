@@ -0,0 +1,267 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type * as TikTokAds from "./tiktok-ads";
+
+// In-memory stand-in for the two tables a spend sync touches
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>;
+
+  const same = (a: unknown, b: unknown) =>
+    a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : (a ?? null) === (b ?? null);
+
+  const time = (value: any) => (value instanceof Date ? value.getTime() : value);
+
+  const matches = (row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (key === "OR") return condition.some((option: Row) => matches(row, option));
+      if (condition === null || typeof condition !== "object" || condition instanceof Date) {
+        return same(row[key], condition);
+      }
+
+      return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+        const value = row[key];
+        switch (operator) {
+          case "not":
+            return !same(value, operand);
+          case "lt":
+            return value !== null && time(value) < time(operand);
+          case "lte":
+            return value !== null && time(value) <= time(operand);
+          case "gte":
+            return value !== null && time(value) >= time(operand);
+          case "in":
+            return operand.some((candidate: unknown) => same(value, candidate));
+          case "notIn":
+            return !operand.some((candidate: unknown) => same(value, candidate));
+          default:
+            throw new Error(`Unsupported filter ${operator}`);
+        }
+      });
+    });
+
+  const integrations: Row[] = [];
+  const marketingCosts: Row[] = [];
+
+  const client = {
+    integration: {
+      findFirst: async ({ where }: Row) => integrations.find((row) => matches(row, where)) || null,
+      findUnique: async ({ where }: Row) => integrations.find((row) => matches(row, where)) || null,
+      update: async ({ where, data }: Row) => Object.assign(integrations.find((row) => matches(row, where))!, data),
+      updateMany: async ({ where, data }: Row) => {
+        const rows = integrations.filter((row) => matches(row, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      },
+    },
+    marketingCost: {
+      upsert: async ({ where, update, create }: Row) => {
+        const existing = marketingCosts.find((row) => matches(row, where.shop_platform_account_date));
+        if (existing) return Object.assign(existing, update);
+        marketingCosts.push({ ...create });
+        return create;
+      },
+      deleteMany: async ({ where }: Row) => {
+        const kept = marketingCosts.filter((row) => !matches(row, where));
+        const count = marketingCosts.length - kept.length;
+        marketingCosts.splice(0, marketingCosts.length, ...kept);
+        return { count };
+      },
+    },
+  };
+
+  return { client, integrations, marketingCosts };
+});
+
+vi.mock("@prisma/client", () => ({
+  PrismaClient: class {
+    constructor() {
+      return db.client;
+    }
+  },
+}));
+
+type Handler = (request: IncomingMessage, url: URL, body: string) => unknown;
+
+let server: Server;
+let handler: Handler;
+const requests: Array<{ method: string; url: URL; body: string }> = [];
+
+let tiktok: typeof TikTokAds;
+
+beforeAll(async () => {
+  server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const url = new URL(request.url || "/", "http://localhost");
+      requests.push({ method: request.method || "GET", url, body });
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify(handler(request, url, body)));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  // The base URL is read when the module loads
+  vi.stubEnv("TIKTOK_API_BASE_URL", `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  vi.stubEnv("TIKTOK_APP_ID", "app-id");
+  vi.stubEnv("TIKTOK_APP_SECRET", "app-secret");
+  tiktok = await import("./tiktok-ads");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  db.integrations.length = 0;
+  db.marketingCosts.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+// Serves the integrated report with each day's spend, a page of `pageSize` days at a time
+function serveReport(spendByDay: (day: string) => number, pageSize = 1000): Handler {
+  return (_request, url) => {
+    const days: string[] = [];
+    const day = new Date(`${url.searchParams.get("start_date")}T00:00:00Z`);
+    const end = new Date(`${url.searchParams.get("end_date")}T00:00:00Z`);
+    for (; day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+      days.push(day.toISOString().split("T")[0]);
+    }
+
+    const page = Number(url.searchParams.get("page"));
+    return {
+      code: 0,
+      message: "OK",
+      data: {
+        list: days.slice((page - 1) * pageSize, page * pageSize).map((date) => ({
+          dimensions: { stat_time_day: `${date} 00:00:00` },
+          metrics: { spend: String(spendByDay(date)) },
+        })),
+        page_info: { page, total_page: Math.max(1, Math.ceil(days.length / pageSize)) },
+      },
+    };
+  };
+}
+
+function connectTikTok() {
+  db.integrations.push({
+    id: "integration-1",
+    shop: "test-shop.myshopify.com",
+    platform: "tiktok_ads",
+    isActive: true,
+    credentials: JSON.stringify({
+      accessToken: "access-token",
+      adAccounts: [{ id: "7001", name: "Main advertiser" }],
+      selectedAdAccountIds: ["7001"],
+    }),
+    lastSync: null,
+    lastSyncAttempt: null,
+    syncStatus: "idle",
+    syncError: null,
+    pendingSyncDays: null,
+  });
+}
+
+describe("exchangeTikTokCode", () => {
+  it("exchanges the auth code with the app credentials", async () => {
+    handler = () => ({ code: 0, message: "OK", data: { access_token: "access-token", scope: [4, 5] } });
+
+    const credentials = await tiktok.exchangeTikTokCode("auth-code");
+
+    expect(credentials).toEqual({ accessToken: "access-token", scope: [4, 5] });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe("POST");
+    expect(requests[0].url.pathname).toBe("/oauth2/access_token/");
+    expect(JSON.parse(requests[0].body)).toEqual({
+      app_id: "app-id",
+      secret: "app-secret",
+      auth_code: "auth-code",
+    });
+  });
+
+  it("returns null when TikTok rejects the code", async () => {
+    handler = () => ({ code: 40001, message: "Auth code expired", data: {} });
+
+    expect(await tiktok.exchangeTikTokCode("expired-code")).toBeNull();
+  });
+});
+
+describe("tiktokConnector.fetchDailySpend", () => {
+  it("reads every page of the integrated report", async () => {
+    handler = serveReport((date) => Number(date.slice(-2)), 4);
+
+    const spend = await tiktok.tiktokConnector.fetchDailySpend(
+      { accessToken: "access-token" },
+      { id: "7001", name: "Main advertiser" },
+      { since: "2025-03-01", until: "2025-03-10" }
+    );
+
+    expect(requests.map((request) => request.url.searchParams.get("page"))).toEqual(["1", "2", "3"]);
+    expect(requests.every((request) => request.url.pathname === "/report/integrated/get/")).toBe(true);
+    expect(requests[0].url.searchParams.get("advertiser_id")).toBe("7001");
+    expect(spend.size).toBe(10);
+    expect(spend.get("2025-03-01")).toBe(1);
+    expect(spend.get("2025-03-10")).toBe(10);
+  });
+});
+
+describe("syncTikTokHistoricalData", () => {
+  it("requests the history in windows of at most 30 days", async () => {
+    connectTikTok();
+    handler = serveReport(() => 5);
+
+    const result = await tiktok.syncTikTokHistoricalData("test-shop.myshopify.com", 90);
+
+    expect(result.success).toBe(true);
+    const windows = requests.map((request) => ({
+      since: new Date(`${request.url.searchParams.get("start_date")}T00:00:00Z`),
+      until: new Date(`${request.url.searchParams.get("end_date")}T00:00:00Z`),
+    }));
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    expect(windows).toHaveLength(4); // 91 days, inclusive of today
+    for (const [index, window] of windows.entries()) {
+      expect((window.until.getTime() - window.since.getTime()) / dayMs).toBeLessThan(30);
+      if (index > 0) {
+        expect(window.since.getTime() - windows[index - 1].until.getTime()).toBe(dayMs);
+      }
+    }
+    expect(windows[windows.length - 1].until.toISOString().split("T")[0]).toBe(
+      new Date().toISOString().split("T")[0]
+    );
+  });
+
+  it("upserts one row per day, so syncing again doesn't duplicate spend", async () => {
+    connectTikTok();
+    handler = serveReport(() => 5);
+
+    const first = await tiktok.syncTikTokHistoricalData("test-shop.myshopify.com", 10);
+    const firstRows = db.marketingCosts.map((row) => ({ ...row }));
+    const second = await tiktok.syncTikTokHistoricalData("test-shop.myshopify.com", 10);
+
+    expect(first.totalAmount).toBe(55);
+    expect(second.totalAmount).toBe(55);
+    expect(firstRows).toHaveLength(11);
+    expect(db.marketingCosts).toEqual(firstRows);
+    expect(db.marketingCosts.every((row) => row.platform === "tiktok" && row.accountId === "7001")).toBe(true);
+  });
+
+  it("replaces changed days and removes days that no longer have spend", async () => {
+    connectTikTok();
+    handler = serveReport(() => 5);
+    await tiktok.syncTikTokHistoricalData("test-shop.myshopify.com", 10);
+
+    const today = new Date().toISOString().split("T")[0];
+    handler = serveReport((date) => (date === today ? 0 : 8));
+    const result = await tiktok.syncTikTokHistoricalData("test-shop.myshopify.com", 10);
+
+    expect(result.totalAmount).toBe(80);
+    expect(db.marketingCosts).toHaveLength(10);
+    expect(db.marketingCosts.every((row) => row.amount === 8)).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import { addDailySpend, syncAdPlatform } from "./ad-connector";
+import type { AdAccount, AdPlatformConnector, AdPlatformCredentials } from "./ad-connector";
+
+// Overridable so a local stand-in can replace the Marketing API
+export const TIKTOK_API_BASE_URL =
+  process.env.TIKTOK_API_BASE_URL || "https://business-api.tiktok.com/open_api/v1.3";
+
+export const TIKTOK_REDIRECT_URI =
+  process.env.TIKTOK_REDIRECT_URI || "https://profit-for-shopify-production.up.railway.app/tiktok-oauth";
+
+const REPORT_PAGE_SIZE = 1000;
+
+// TikTok wraps every response in { code, message, data }, with code 0 on success
+async function tiktokRequest(path: string, accessToken: string, params: Record<string, unknown>): Promise<any> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [
+      key,
+      typeof value === "string" ? value : JSON.stringify(value),
+    ])
+  );
+
+  const response = await fetch(`${TIKTOK_API_BASE_URL}${path}?${query}`, {
+    headers: {
+      "Access-Token": accessToken,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`TikTok API request failed (${response.status}): ${errorText}`);
+  }
+
+  const data = await response.json();
+  if (data.code !== 0) {
+    throw new Error(data.message || `TikTok API error ${data.code}`);
+  }
+
+  return data.data;
+}
+
+// Marketing API tokens don't expire, so there's no refresh token to keep
+export async function exchangeTikTokCode(authCode: string): Promise<AdPlatformCredentials | null> {
+  try {
+    const response = await fetch(`${TIKTOK_API_BASE_URL}/oauth2/access_token/`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        app_id: process.env.TIKTOK_APP_ID,
+        secret: process.env.TIKTOK_APP_SECRET,
+        auth_code: authCode,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.code !== 0 || !data.data?.access_token) {
+      console.error("[TikTok OAuth] Token exchange failed:", data);
+      return null;
+    }
+
+    return {
+      accessToken: data.data.access_token,
+      scope: data.data.scope,
+    };
+  } catch (error) {
+    console.error("Error exchanging TikTok auth code:", error);
+    return null;
+  }
+}
+
+// Marketing API tokens don't expire, so there's nothing to refresh
+export const tiktokConnector: AdPlatformConnector = {
+  platform: "tiktok",
+  integrationPlatform: "tiktok_ads",
+  label: "TikTok Ads",
+  logTag: "[TikTok Sync]",
+  // The integrated report rejects day-level requests spanning more than 30 days
+  maxRangeDays: 30,
+
+  authorizationUrl(state) {
+    if (!process.env.TIKTOK_APP_ID || !process.env.TIKTOK_APP_SECRET) return null;
+
+    return (
+      `https://business-api.tiktok.com/portal/auth?` +
+      `app_id=${process.env.TIKTOK_APP_ID}` +
+      `&state=${encodeURIComponent(state)}` +
+      `&redirect_uri=${encodeURIComponent(TIKTOK_REDIRECT_URI)}`
+    );
+  },
+
+  async listAccounts(credentials) {
+    const data = await tiktokRequest("/oauth2/advertiser/get/", credentials.accessToken, {
+      app_id: process.env.TIKTOK_APP_ID || "",
+      secret: process.env.TIKTOK_APP_SECRET || "",
+    });
+
+    return (data?.list || []).map((advertiser: any): AdAccount => ({
+      id: String(advertiser.advertiser_id),
+      name: advertiser.advertiser_name || `Advertiser ${advertiser.advertiser_id}`,
+    }));
+  },
+
+  async fetchDailySpend(credentials, account, range) {
+    const dailySpend = new Map<string, number>();
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const data = await tiktokRequest("/report/integrated/get/", credentials.accessToken, {
+        advertiser_id: account.id,
+        report_type: "BASIC",
+        data_level: "AUCTION_ADVERTISER",
+        dimensions: ["stat_time_day"],
+        metrics: ["spend"],
+        start_date: range.since,
+        end_date: range.until,
+        page,
+        page_size: REPORT_PAGE_SIZE,
+      });
+
+      for (const row of data?.list || []) {
+        // stat_time_day comes back as "YYYY-MM-DD 00:00:00"
+        const date = String(row.dimensions?.stat_time_day || "").split(" ")[0];
+        addDailySpend(dailySpend, date, parseFloat(row.metrics?.spend || "0"));
+      }
+
+      totalPages = data?.page_info?.total_page || 1;
+      page++;
+    } while (page <= totalPages);
+
+    return dailySpend;
+  },
+};
+
+export async function getTikTokAdvertisers(accessToken: string): Promise<AdAccount[]> {
+  try {
+    return await tiktokConnector.listAccounts({ accessToken });
+  } catch (error) {
+    console.error("Error fetching TikTok advertisers:", error);
+    return [];
+  }
+}
+
+export async function syncTikTokHistoricalData(shop: string, days: number = 90) {
+  return syncAdPlatform(tiktokConnector, shop, days);
+}
@@ -0,0 +1,396 @@
+// Errors keyed by form field name, so each one can be shown on the matching input
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> =
+  | { data: T; errors?: undefined }
+  | { data?: undefined; errors: FieldErrors };
+
+export const MARKETING_PLATFORMS = [
+  "manual",
+  "facebook",
+  "google",
+  "tiktok",
+  "snapchat",
+  "pinterest",
+  "microsoft",
+  "amazon",
+  "klaviyo",
+  "postscript",
+  "attentive",
+  "influencer",
+];
+export const FIXED_COST_CATEGORIES = ["software", "rent", "salary", "other"];
+export const FIXED_COST_FREQUENCIES = ["one_time", "weekly", "monthly", "quarterly", "annual", "custom"];
+export const MANUAL_COST_CATEGORIES = ["shipping", "cogs", "other"];
+export const SHIPPING_RULE_TYPES = ["per_order", "per_item", "weight", "zone"];
+export const COST_GROUPS = ["variable", "marketing", "fixed"];
+export const SUBSCRIPTION_TOOL_KEYS = ["klaviyo", "postscript", "attentive"];
+export const LANDED_COST_TYPES = ["freight_per_unit", "duty_percent", "packaging_per_order"];
+export const GATEWAY_FEE_FIELDS = ["percent", "fixedFee", "currencyConversionPercent", "internationalPercent"] as const;
+export const TARGET_FIELDS = [
+  "grossProfit",
+  "contributionProfit",
+  "netProfit",
+  "totalSales",
+  "newCustomerRevenue",
+  "returnCustomerRevenue",
+  "variableCosts",
+  "marketingCosts",
+  "fixedCosts",
+] as const;
+
+export type GatewayFeeField = (typeof GATEWAY_FEE_FIELDS)[number];
+export type TargetField = (typeof TARGET_FIELDS)[number];
+
+const BILLING_DAY_FREQUENCIES = ["monthly", "quarterly", "annual"];
+
+interface NumberRules {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean; // Rejects `min` itself, for amounts that must be above zero
+  optional?: boolean; // Blank reads as null instead of an error
+  message: string;
+}
+
+// Reads fields from a submitted form, collecting the first error for each field
+function createFormReader(values: FormData | Record<string, unknown>) {
+  const errors: FieldErrors = {};
+
+  const raw = (field: string): string => {
+    const value = values instanceof FormData ? values.get(field) : values[field];
+    return typeof value === "string" ? value.trim() : "";
+  };
+
+  const fail = (field: string, message: string): null => {
+    if (!errors[field]) errors[field] = message;
+    return null;
+  };
+
+  const number = (field: string, rules: NumberRules): number | null => {
+    const value = raw(field);
+    if (!value) return rules.optional ? null : fail(field, rules.message);
+
+    // Number() rejects trailing junk like "12abc" that parseFloat would accept
+    const parsed = Number(value);
+    if (
+      !Number.isFinite(parsed) ||
+      (rules.min !== undefined && (rules.exclusiveMin ? parsed <= rules.min : parsed < rules.min)) ||
+      (rules.max !== undefined && parsed > rules.max)
+    ) {
+      return fail(field, rules.message);
+    }
+    return parsed;
+  };
+
+  return {
+    errors,
+    raw,
+    fail,
+    number,
+
+    text(field: string, message?: string): string {
+      const value = raw(field);
+      if (!value && message) fail(field, message);
+      return value;
+    },
+
+    integer(field: string, rules: NumberRules): number | null {
+      const value = number(field, rules);
+      return value !== null && !Number.isInteger(value) ? fail(field, rules.message) : value;
+    },
+
+    date(field: string, message: string, optional = false): Date | null {
+      const value = raw(field);
+      if (!value && optional) return null;
+      const date = new Date(value);
+      return value && !isNaN(date.getTime()) ? date : fail(field, message);
+    },
+
+    choice(field: string, allowed: readonly string[], message: string): string {
+      const value = raw(field);
+      if (!allowed.includes(value)) fail(field, message);
+      return value;
+    },
+  };
+}
+
+function result<T>(errors: FieldErrors, build: () => T): ValidationResult<T> {
+  return Object.keys(errors).length > 0 ? { errors } : { data: build() };
+}
+
+/**
+ * Picks out the field errors an action returned for one form. Actions respond to
+ * invalid submissions with `{ success: false, form, errors }`.
+ */
+export function getFieldErrors(actionData: unknown, form: string): FieldErrors {
+  if (!actionData || typeof actionData !== "object") return {};
+  const data = actionData as { form?: unknown; errors?: unknown };
+  return data.form === form && data.errors && typeof data.errors === "object"
+    ? (data.errors as FieldErrors)
+    : {};
+}
+
+// Shared by the add and edit marketing cost actions
+export function validateMarketingCost(formData: FormData) {
+  const form = createFormReader(formData);
+  const platform = form.choice("platform", MARKETING_PLATFORMS, "Choose a platform from the list");
+  const amount = form.number("amount", { min: 0, exclusiveMin: true, message: "Enter an amount greater than zero" });
+  const date = form.date("date", "Enter a valid date");
+  const description = form.text("description");
+
+  return result(form.errors, () => ({
+    platform,
+    amount: amount as number,
+    date: date as Date,
+    description: description || null,
+  }));
+}
+
+// Shared by the add and edit manual cost actions. `customCategoryIds` are the shop's own categories.
+export function validateManualCost(formData: FormData, customCategoryIds: string[] = []) {
+  const form = createFormReader(formData);
+  const category = form.choice(
+    "category",
+    [...MANUAL_COST_CATEGORIES, ...customCategoryIds],
+    "Choose a category from the list"
+  );
+  const categoryId = customCategoryIds.includes(category) ? category : null;
+  const description = form.text("description", "Enter a description");
+  const amount = form.number("amount", { min: 0, exclusiveMin: true, message: "Enter an amount greater than zero" });
+  const date = form.date("date", "Enter a valid date");
+
+  return result(form.errors, () => ({
+    // Custom categories keep "other" as the built-in one, for if the category is deleted
+    category: categoryId ? "other" : category,
+    categoryId,
+    description,
+    amount: amount as number,
+    date: date as Date,
+  }));
+}
+
+// Shared by the add and edit fixed cost actions. `customCategoryIds` are the shop's own categories.
+export function validateFixedCost(formData: FormData, customCategoryIds: string[] = []) {
+  const form = createFormReader(formData);
+  const category = form.choice(
+    "category",
+    [...FIXED_COST_CATEGORIES, ...customCategoryIds],
+    "Choose a category from the list"
+  );
+  const categoryId = customCategoryIds.includes(category) ? category : null;
+  const name = form.text("name", "Enter a name");
+  const amount = form.number("amount", { min: 0, exclusiveMin: true, message: "Enter an amount greater than zero" });
+  const startDate = form.date("startDate", "Enter a valid start date");
+  const frequency = form.choice("frequency", FIXED_COST_FREQUENCIES, "Choose a frequency from the list");
+  const recurring = frequency !== "one_time";
+  const usesBillingDay = BILLING_DAY_FREQUENCIES.includes(frequency);
+
+  const endDate = recurring ? form.date("endDate", "Enter a valid end date", true) : null;
+  if (startDate && endDate && endDate < startDate) {
+    form.fail("endDate", "End date can't be before the start date");
+  }
+
+  const intervalDays = frequency === "custom"
+    ? form.integer("intervalDays", { min: 1, message: "Enter a whole number of days, 1 or more" })
+    : null;
+  const billingDay = usesBillingDay
+    ? form.integer("billingDay", { min: 1, max: 31, optional: true, message: "Billing day must be between 1 and 31" })
+    : null;
+  const recognition = recurring
+    ? form.choice("recognition", ["spread", "incurred"], "Choose how the cost is recognized")
+    : "spread";
+
+  return result(form.errors, () => ({
+    category: categoryId ? "other" : category,
+    categoryId,
+    name,
+    amount: amount as number,
+    startDate: startDate as Date,
+    endDate,
+    recurring,
+    frequency: recurring ? frequency : "monthly",
+    intervalDays,
+    billingDay,
+    recognition,
+  }));
+}
+
+export function validateCostCategory(formData: FormData) {
+  const form = createFormReader(formData);
+  const name = form.text("name", "Enter a name");
+  const group = form.choice("group", COST_GROUPS, "Choose where these costs count");
+  const color = form.text("color", "Choose a color");
+
+  if (name.length > 50) form.fail("name", "Keep the name to 50 characters or fewer");
+  if (color && !/^#[0-9a-f]{6}$/i.test(color)) form.fail("color", "Choose a color from the list");
+
+  return result(form.errors, () => ({ name, group, color }));
+}
+
+export function validateShippingRule(formData: FormData) {
+  const form = createFormReader(formData);
+  const type = form.choice("type", SHIPPING_RULE_TYPES, "Choose a rule type from the list");
+  const amount = form.number("amount", { min: 0, message: "Enter an amount of zero or more" });
+
+  let minWeight: number | null = null;
+  let maxWeight: number | null = null;
+  let countries: string | null = null;
+
+  if (type === "weight") {
+    minWeight = form.number("minWeight", { min: 0, optional: true, message: "Weight must be zero or more" });
+    maxWeight = form.number("maxWeight", { min: 0, optional: true, message: "Weight must be zero or more" });
+    if (maxWeight !== null && maxWeight <= (minWeight || 0)) {
+      form.fail("maxWeight", "Must be more than the starting weight");
+    }
+  } else if (type === "zone") {
+    countries = form.text("countries", "Enter at least one country code").toUpperCase().replace(/\s+/g, "");
+    if (countries && !/^[A-Z]{2}(,[A-Z]{2})*$/.test(countries)) {
+      form.fail("countries", "Use two-letter country codes separated by commas");
+    }
+  }
+
+  return result(form.errors, () => ({
+    type,
+    amount: amount as number,
+    minWeight,
+    maxWeight,
+    countries,
+  }));
+}
+
+export function validateLandedCostRule(formData: FormData) {
+  const form = createFormReader(formData);
+  const type = form.choice("type", LANDED_COST_TYPES, "Choose a landed cost type from the list");
+  const amount = form.number("amount", { min: 0, message: "Enter an amount of zero or more" });
+  const scope = form.choice("scope", ["all", "product", "collection"], "Choose what the rule applies to");
+  const targetId = scope === "all" ? null : form.text("targetId", `Choose a ${scope} for this rule`);
+  const name = form.text("name");
+
+  return result(form.errors, () => ({
+    name: name || type,
+    type,
+    amount: amount as number,
+    scope,
+    targetId,
+    targetTitle: targetId ? form.text("targetTitle") || null : null,
+  }));
+}
+
+export function validateVariantCost(formData: FormData) {
+  const form = createFormReader(formData);
+  const variant = form.text("variant", "Enter a SKU or variant ID");
+  const unitCost = form.number("unitCost", { min: 0, message: "Enter a unit cost of zero or more" });
+  const effectiveFrom = form.date("effectiveFrom", "Enter the date the cost took effect");
+
+  return result(form.errors, () => ({
+    variant,
+    unitCost: unitCost as number,
+    effectiveFrom: effectiveFrom as Date,
+  }));
+}
+
+export function validateSettings(formData: FormData) {
+  const form = createFormReader(formData);
+  const transactionFeePercent = form.number("transactionFeePercent", {
+    min: 0,
+    max: 100,
+    message: "Enter a percentage between 0 and 100",
+  });
+  const refundAttribution = form.choice(
+    "refundAttribution",
+    ["refund_date", "order_date"],
+    "Choose when refunds are counted"
+  );
+  const revenueDefinition = form.choice(
+    "revenueDefinition",
+    ["gross", "net_of_tax", "net_of_tax_and_discounts"],
+    "Choose a revenue definition"
+  );
+
+  return result(form.errors, () => ({
+    transactionFeePercent: transactionFeePercent as number,
+    refundAttribution,
+    revenueDefinition,
+  }));
+}
+
+// Plan price for an email or SMS tool, recorded as monthly marketing spend or a fixed cost
+export function validateSubscriptionTool(formData: FormData) {
+  const form = createFormReader(formData);
+  const tool = form.choice("tool", SUBSCRIPTION_TOOL_KEYS, "Choose a tool from the list");
+  const monthlyPrice = form.number("monthlyPrice", {
+    min: 0,
+    exclusiveMin: true,
+    message: "Enter a monthly price greater than zero",
+  });
+  const billingDay = form.integer("billingDay", { min: 1, max: 31, message: "Billing day must be between 1 and 31" });
+  const startDate = form.date("startDate", "Enter a valid start date");
+  const recordAs = form.choice("recordAs", ["marketing", "fixed"], "Choose how the cost is recorded");
+
+  return result(form.errors, () => ({
+    tool,
+    monthlyPrice: monthlyPrice as number,
+    billingDay: billingDay as number,
+    startDate: (startDate as Date).toISOString().split("T")[0],
+    recordAs: recordAs as "marketing" | "fixed",
+  }));
+}
+
+// Blank targets are saved as null, which turns tracking off for that metric
+export function validateTargets(formData: FormData) {
+  const form = createFormReader(formData);
+  const targets = {} as Record<TargetField, number | null>;
+
+  for (const field of TARGET_FIELDS) {
+    targets[field] = form.number(field, { min: 0, optional: true, message: "Enter an amount of zero or more" });
+  }
+
+  return result(form.errors, () => targets);
+}
+
+/**
+ * Validates the gateway fee schedules, posted as JSON. Errors are keyed
+ * `<gateway>.<field>`. A gateway with every field blank gets null rates,
+ * meaning its schedule is removed.
+ */
+export function validateGatewayFees(formData: FormData) {
+  const errors: FieldErrors = {};
+  let entries: unknown;
+
+  try {
+    entries = JSON.parse((formData.get("gatewayFees") as string) || "[]");
+  } catch {
+    entries = null;
+  }
+  if (!Array.isArray(entries)) {
+    return { errors: { gatewayFees: "Gateway fees couldn't be read, reload the page and try again" } };
+  }
+
+  const schedules: Array<{ gateway: string; rates: Record<GatewayFeeField, number> | null }> = [];
+
+  for (const entry of entries) {
+    const form = createFormReader(entry && typeof entry === "object" ? entry : {});
+    const gateway = form.raw("gateway");
+    if (!gateway) continue;
+
+    if (GATEWAY_FEE_FIELDS.every((field) => !form.raw(field))) {
+      schedules.push({ gateway, rates: null });
+      continue;
+    }
+
+    const rates = {} as Record<GatewayFeeField, number>;
+    for (const field of GATEWAY_FEE_FIELDS) {
+      const value = field === "fixedFee"
+        ? form.number(field, { min: 0, optional: true, message: "Enter zero or more" })
+        : form.number(field, { min: 0, max: 100, optional: true, message: "Enter a percentage between 0 and 100" });
+      rates[field] = value ?? 0;
+    }
+
+    for (const [field, message] of Object.entries(form.errors)) {
+      errors[`${gateway}.${field}`] = message;
+    }
+    schedules.push({ gateway, rates });
+  }
+
+  return result(errors, () => schedules);
+}
@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "Order" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT,
+    "orderCreatedAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+    "currency" TEXT,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+    "totalShipping" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "customerId" TEXT,
+    "firstVisitAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Order_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderLineItem" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT,
+    "variantId" TEXT,
+    "sku" TEXT,
+    "title" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "unitCost" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderSync" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "bulkOperationId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "objectCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCode" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderSync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_shop_orderCreatedAt_idx" ON "Order"("shop", "orderCreatedAt");
+
+-- CreateIndex
+CREATE INDEX "OrderLineItem_shop_variantId_idx" ON "OrderLineItem"("shop", "variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderSync_bulkOperationId_key" ON "OrderSync"("bulkOperationId");
+
+-- CreateIndex
+CREATE INDEX "OrderSync_shop_status_idx" ON "OrderSync"("shop", "status");
+
+-- AddForeignKey
+ALTER TABLE "OrderLineItem" ADD CONSTRAINT "OrderLineItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "OrderSync" ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'bulk',
+ALTER COLUMN "bulkOperationId" DROP NOT NULL;
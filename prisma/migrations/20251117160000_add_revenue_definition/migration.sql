@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "revenueDefinition" TEXT NOT NULL DEFAULT 'gross';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "totalDiscounts" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "totalDuties" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "totalTax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "totalTips" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OrderLineItem" ADD COLUMN     "isGiftCard" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "totalAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
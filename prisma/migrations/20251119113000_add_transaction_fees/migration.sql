@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "PaymentGatewayFee" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "gateway" TEXT NOT NULL,
+    "percent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fixedFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentGatewayFee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderTransaction" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "gateway" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "fee" DOUBLE PRECISION,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentGatewayFee_shop_gateway_key" ON "PaymentGatewayFee"("shop", "gateway");
+
+-- CreateIndex
+CREATE INDEX "OrderTransaction_shop_orderId_idx" ON "OrderTransaction"("shop", "orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderTransaction" ADD CONSTRAINT "OrderTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
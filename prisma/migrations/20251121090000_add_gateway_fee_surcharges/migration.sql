@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "PaymentGatewayFee" ADD COLUMN     "currencyConversionPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "internationalPercent" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "billingCountry" TEXT,
+ADD COLUMN     "presentmentCurrency" TEXT;
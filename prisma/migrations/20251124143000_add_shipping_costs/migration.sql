@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingCountry" TEXT,
+ADD COLUMN     "totalWeight" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OrderLineItem" ADD COLUMN     "requiresShipping" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "ShippingCostRule" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "minWeight" DOUBLE PRECISION,
+    "maxWeight" DOUBLE PRECISION,
+    "countries" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingCostRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingLabelCharge" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingLabelCharge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingCostRule_shop_idx" ON "ShippingCostRule"("shop");
+
+-- CreateIndex
+CREATE INDEX "ShippingLabelCharge_shop_orderId_idx" ON "ShippingLabelCharge"("shop", "orderId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "OrderLineItem" ADD COLUMN     "productTitle" TEXT,
+ADD COLUMN     "variantTitle" TEXT;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "VariantCostHistory" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "inventoryItemId" TEXT,
+    "sku" TEXT,
+    "unitCost" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VariantCostHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VariantCostHistory_shop_variantId_effectiveFrom_idx" ON "VariantCostHistory"("shop", "variantId", "effectiveFrom");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "VariantCostHistory" ADD COLUMN     "dutyCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "freightCost" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "LandedCostRule" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'all',
+    "targetId" TEXT,
+    "targetTitle" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LandedCostRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LandedCostRule_shop_idx" ON "LandedCostRule"("shop");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "FixedCost" ADD COLUMN     "frequency" TEXT NOT NULL DEFAULT 'monthly',
+ADD COLUMN     "intervalDays" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "FixedCost" ADD COLUMN     "billingDay" INTEGER,
+ADD COLUMN     "recognition" TEXT NOT NULL DEFAULT 'spread';
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "CostCategory" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "group" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CostCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "FixedCost" ADD COLUMN "categoryId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ManualCost" ADD COLUMN "categoryId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CostCategory_shop_name_key" ON "CostCategory"("shop", "name");
+
+-- CreateIndex
+CREATE INDEX "FixedCost_categoryId_idx" ON "FixedCost"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "ManualCost_categoryId_idx" ON "ManualCost"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "FixedCost" ADD CONSTRAINT "FixedCost_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "CostCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ManualCost" ADD CONSTRAINT "ManualCost_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "CostCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Integration" ADD COLUMN "lastSyncAttempt" TIMESTAMP(3),
+ADD COLUMN "syncStatus" TEXT NOT NULL DEFAULT 'idle',
+ADD COLUMN "syncError" TEXT;
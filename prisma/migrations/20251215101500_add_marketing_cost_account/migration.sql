@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "MarketingCost" ADD COLUMN "accountId" TEXT NOT NULL DEFAULT '';
+
+-- Attribute previously synced spend to the account it was synced from
+UPDATE "MarketingCost" AS mc
+SET "accountId" = i."credentials"::json->>'selectedAdAccountId'
+FROM "Integration" AS i
+WHERE i."shop" = mc."shop"
+  AND i."platform" = mc."platform" || '_ads'
+  AND i."credentials" IS NOT NULL
+  AND i."credentials"::json->>'selectedAdAccountId' IS NOT NULL
+  AND mc."description" LIKE '% spend for %';
+
+-- DropIndex
+DROP INDEX "MarketingCost_shop_platform_date_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketingCost_shop_platform_accountId_date_key" ON "MarketingCost"("shop", "platform", "accountId", "date");
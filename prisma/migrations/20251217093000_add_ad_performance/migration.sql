@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "AdPerformance" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "campaignName" TEXT NOT NULL,
+    "adSetId" TEXT NOT NULL DEFAULT '',
+    "adSetName" TEXT,
+    "date" TIMESTAMP(3) NOT NULL,
+    "spend" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "purchases" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "purchaseValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AdPerformance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdPerformance_shop_date_idx" ON "AdPerformance"("shop", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdPerformance_shop_campaign_day_key" ON "AdPerformance"("shop", "platform", "accountId", "campaignId", "adSetId", "date");
@@ -0,0 +1,6 @@
+-- Move plan invoices off the accountId manual entries use, so saving or removing a plan leaves those alone
+UPDATE "MarketingCost"
+SET "accountId" = 'subscription'
+WHERE "accountId" = ''
+  AND "platform" IN ('klaviyo', 'postscript', 'attentive')
+  AND "description" LIKE '% subscription spend for %';
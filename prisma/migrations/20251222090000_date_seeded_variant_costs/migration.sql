@@ -0,0 +1,2 @@
+-- Seeded costs took effect at the epoch, so a backdated entry replaced them for every later order. Date them to when they were seeded.
+UPDATE "VariantCostHistory" SET "effectiveFrom" = "createdAt" WHERE "source" = 'backfill';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "LandedCostRule" ADD COLUMN     "productIds" TEXT,
+ADD COLUMN     "resolvedAt" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts, whose Remix plugin doesn't run under Vitest
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["app/**/*.test.ts"],
+  },
+});